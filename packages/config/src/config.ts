@@ -0,0 +1,179 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { readFileSync } from "fs";
+import { join, resolve } from "path";
+import type { ChainConfig, Config, ConfigFile } from "./types";
+
+/**
+ * Environment variable overriding the config.json path
+ */
+export const CONFIG_PATH_ENV = "POCO_LZ_CONFIG";
+
+/**
+ * Environment variable selecting the active profile (testnet, mainnet, local...)
+ */
+export const CONFIG_PROFILE_ENV = "POCO_LZ_PROFILE";
+
+/**
+ * config.json shipped with this package
+ */
+export const DEFAULT_CONFIG_PATH = join(__dirname, "..", "config.json");
+
+export interface LoadConfigOptions {
+  /** config.json path, defaults to POCO_LZ_CONFIG then the shipped config.json */
+  path?: string;
+  /** Profile name, defaults to POCO_LZ_PROFILE then defaultProfile */
+  profile?: string;
+}
+
+/**
+ * Resolve the config.json path: explicit path (e.g. --config), then
+ * POCO_LZ_CONFIG, then the config.json shipped with this package
+ */
+export function resolveConfigPath(path?: string): string {
+  const configPath = path || process.env[CONFIG_PATH_ENV];
+  return configPath ? resolve(configPath) : DEFAULT_CONFIG_PATH;
+}
+
+/**
+ * Load the whole config.json (every profile)
+ * @param path Optional override of the config.json path
+ */
+export function loadConfigFile(path?: string): ConfigFile {
+  const configPath = resolveConfigPath(path);
+  const configData = readFileSync(configPath, "utf8");
+  return JSON.parse(configData);
+}
+
+/**
+ * Resolve the active profile name: explicit profile (e.g. --profile), then
+ * POCO_LZ_PROFILE, then defaultProfile of config.json
+ */
+export function resolveProfileName(configFile: ConfigFile, profile?: string): string {
+  return profile || process.env[CONFIG_PROFILE_ENV] || configFile.defaultProfile;
+}
+
+/**
+ * Load the chain registry of the active profile
+ *
+ * Chains of other profiles are not returned, so a mainnet Router can never
+ * resolve a testnet Receiver.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): Config {
+  const configFile = loadConfigFile(options.path);
+  const profile = resolveProfileName(configFile, options.profile);
+  const profileConfig = configFile.profiles?.[profile];
+
+  if (!profileConfig) {
+    throw new Error(
+      `Profile ${profile} not found in config. Available profiles: ${Object.keys(
+        configFile.profiles ?? {}
+      ).join(", ")}`
+    );
+  }
+  return { profile, ...profileConfig };
+}
+
+/**
+ * Get chain configuration by name
+ */
+export function getChainConfig(chainName: string, config?: Config): ChainConfig {
+  const cfg = config || loadConfig();
+  const chainConfig = cfg.chains[chainName];
+  
+  if (!chainConfig) {
+    throw new Error(
+      `Chain ${chainName} not found in profile ${cfg.profile}. Available chains: ${Object.keys(
+        cfg.chains
+      ).join(", ")}`
+    );
+  }
+  
+  return chainConfig;
+}
+
+/**
+ * Get the RPC URL for a chain (rpcEnvVar override or defaultRpcUrl)
+ */
+export function getRpcUrl(chainConfig: ChainConfig): string {
+  return process.env[chainConfig.rpcEnvVar] || chainConfig.defaultRpcUrl;
+}
+
+/**
+ * Get PoCo address for a chain
+ */
+export function getPocoAddress(config: Config, chainName: string): string {
+  const chainConfig = getChainConfig(chainName, config);
+  
+  if (chainConfig.mode === "Receiver") {
+    if (!chainConfig.pocoAddress) {
+      throw new Error(`PoCo address not configured for receiver ${chainName}`);
+    }
+    return chainConfig.pocoAddress;
+  } else {
+    // For routers, get the PoCo address from the destination chain
+    const destinationChain = chainConfig.destinationChain;
+    if (!destinationChain) {
+      throw new Error(`Destination chain not configured for router ${chainName}`);
+    }
+    const destConfig = getChainConfig(destinationChain, config);
+    if (!destConfig.pocoAddress) {
+      throw new Error(`PoCo address not configured for destination ${destinationChain}`);
+    }
+    return destConfig.pocoAddress;
+  }
+}
+
+/**
+ * Get the destination (Receiver) chain of a router chain
+ */
+export function getDestinationChain(
+  config: Config,
+  chainName: string
+): [string, ChainConfig] {
+  const chainConfig = getChainConfig(chainName, config);
+  
+  if (chainConfig.mode !== "Router") {
+    throw new Error(`${chainName} is not a router`);
+  }
+  
+  const destinationChain = chainConfig.destinationChain;
+  if (!destinationChain) {
+    throw new Error(`Destination chain not configured for ${chainName}`);
+  }
+  
+  const destConfig = getChainConfig(destinationChain, config);
+  if (destConfig.mode !== "Receiver") {
+    throw new Error(
+      `Destination chain ${destinationChain} of ${chainName} is not a receiver`
+    );
+  }
+  return [destinationChain, destConfig];
+}
+
+/**
+ * Get destination endpoint ID for a router chain
+ */
+export function getDestinationEndpointId(config: Config, chainName: string): number {
+  const [, destConfig] = getDestinationChain(config, chainName);
+  return destConfig.lzEndpointId;
+}
+
+/**
+ * Get all router chains
+ */
+export function getRouters(config: Config): Array<[string, ChainConfig]> {
+  return Object.entries(config.chains).filter(
+    ([_, cfg]) => cfg.mode === "Router"
+  );
+}
+
+/**
+ * Get all receiver chains
+ */
+export function getReceivers(config: Config): Array<[string, ChainConfig]> {
+  return Object.entries(config.chains).filter(
+    ([_, cfg]) => cfg.mode === "Receiver"
+  );
+}
@@ -0,0 +1,37 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+export {
+  CONFIG_PATH_ENV,
+  CONFIG_PROFILE_ENV,
+  DEFAULT_CONFIG_PATH,
+  resolveConfigPath,
+  loadConfigFile,
+  resolveProfileName,
+  loadConfig,
+  getChainConfig,
+  getRpcUrl,
+  getPocoAddress,
+  getDestinationChain,
+  getDestinationEndpointId,
+  getRouters,
+  getReceivers,
+} from "./config";
+export type { LoadConfigOptions } from "./config";
+export {
+  ConfigValidationError,
+  validateConfigFile,
+  validateConfig,
+  assertValidConfig,
+} from "./validation";
+export type { ConfigIssue } from "./validation";
+export { AddressOverwriteError, savePocoOAppAddress } from "./writer";
+export type { SaveAddressOptions, SaveAddressResult } from "./writer";
+export type {
+  ChainConfig,
+  Config,
+  ConfigFile,
+  NativeCurrency,
+  ProfileConfig,
+  ProfileStage,
+} from "./types";
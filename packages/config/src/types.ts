@@ -0,0 +1,51 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface ChainConfig {
+  mode: "Router" | "Receiver";
+  chainId: number;
+  rpcEnvVar: string; // Environment variable overriding defaultRpcUrl
+  defaultRpcUrl: string;
+  explorerUrl: string;
+  nativeCurrency?: NativeCurrency; // Defaults to Ether
+  lzEndpointAddress: string;
+  lzEndpointId: number;
+  destinationChain?: string; // Network name of destination chain (for Router mode)
+  pocoAddress?: string; // PoCo contract address (only for Receiver mode)
+  pocoOAppAddress?: string; // Set once deployed
+  pocoOAppCreatexSalt: string;
+}
+
+/**
+ * LayerZero stage every chain of a profile must belong to
+ */
+export type ProfileStage = "mainnet" | "testnet" | "sandbox";
+
+/**
+ * Chain registry of one environment profile, as written in config.json
+ */
+export interface ProfileConfig {
+  stage: ProfileStage;
+  chains: Record<string, ChainConfig>;
+}
+
+/**
+ * Chain registry of the active profile (chains only resolve within it)
+ */
+export interface Config extends ProfileConfig {
+  profile: string;
+}
+
+/**
+ * Whole config.json
+ */
+export interface ConfigFile {
+  defaultProfile: string;
+  profiles: Record<string, ProfileConfig>;
+}
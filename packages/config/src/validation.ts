@@ -0,0 +1,271 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { EndpointId, endpointIdToStage } from "@layerzerolabs/lz-definitions";
+import { getAddress, isAddress, isHex, zeroAddress } from "viem";
+import type { ChainConfig, ConfigFile, ProfileConfig, ProfileStage } from "./types";
+
+/**
+ * A single validation failure, located by its JSON path in config.json
+ */
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when config.json fails validation
+ */
+export class ConfigValidationError extends Error {
+  constructor(readonly issues: ConfigIssue[]) {
+    super(
+      `Invalid configuration:\n${issues
+        .map((issue) => `  - ${issue.path}: ${issue.message}`)
+        .join("\n")}`
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+/**
+ * LayerZero V2 endpoint IDs expected for well-known network names.
+ * Networks not listed here only need a V2 endpoint ID known to lz-definitions.
+ */
+const EXPECTED_ENDPOINT_IDS: Record<string, EndpointId> = {
+  ethereum: EndpointId.ETHEREUM_V2_MAINNET,
+  arbitrum: EndpointId.ARBITRUM_V2_MAINNET,
+  base: EndpointId.BASE_V2_MAINNET,
+  optimism: EndpointId.OPTIMISM_V2_MAINNET,
+  polygon: EndpointId.POLYGON_V2_MAINNET,
+  sepolia: EndpointId.SEPOLIA_V2_TESTNET,
+  arbitrumSepolia: EndpointId.ARBSEP_V2_TESTNET,
+  baseSepolia: EndpointId.BASESEP_V2_TESTNET,
+  optimismSepolia: EndpointId.OPTSEP_V2_TESTNET,
+  polygonAmoy: EndpointId.AMOY_V2_TESTNET,
+};
+
+const BYTES32_LENGTH = 66; // 0x + 64 hex chars
+
+const PROFILE_STAGES: ProfileStage[] = ["mainnet", "testnet", "sandbox"];
+
+/**
+ * Validate every profile of config.json and return every issue found
+ */
+export function validateConfigFile(configFile: ConfigFile): ConfigIssue[] {
+  if (!configFile || typeof configFile.profiles !== "object" || configFile.profiles === null) {
+    return [{ path: "$.profiles", message: "must be an object of profiles" }];
+  }
+
+  const issues: ConfigIssue[] = [];
+  const profileNames = Object.keys(configFile.profiles);
+  if (profileNames.length === 0) {
+    issues.push({ path: "$.profiles", message: "must declare at least one profile" });
+  }
+  if (!configFile.profiles[configFile.defaultProfile]) {
+    issues.push({
+      path: "$.defaultProfile",
+      message: `must reference a profile (${profileNames.join(", ")}), got ${JSON.stringify(configFile.defaultProfile)}`,
+    });
+  }
+
+  for (const profileName of profileNames) {
+    issues.push(...validateConfig(configFile.profiles[profileName], `$.profiles.${profileName}`));
+  }
+  return issues;
+}
+
+/**
+ * Validate the chain registry of one profile and return every issue found
+ * @param root JSON path of the profile in config.json
+ */
+export function validateConfig(config: ProfileConfig, root = "$"): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  if (!config || typeof config.chains !== "object" || config.chains === null) {
+    return [{ path: `${root}.chains`, message: "must be an object of chain configurations" }];
+  }
+
+  if (!PROFILE_STAGES.includes(config.stage)) {
+    issues.push({
+      path: `${root}.stage`,
+      message: `must be one of ${PROFILE_STAGES.join(", ")}, got ${JSON.stringify(config.stage)}`,
+    });
+  }
+
+  const chainNames = Object.keys(config.chains);
+  if (chainNames.length === 0) {
+    issues.push({ path: `${root}.chains`, message: "must declare at least one chain" });
+  }
+
+  const eidOwners = new Map<number, string>();
+  for (const chainName of chainNames) {
+    const path = `${root}.chains.${chainName}`;
+    const chainConfig = config.chains[chainName];
+    issues.push(...validateChain(config, chainName, chainConfig, path));
+
+    if (isObject(chainConfig) && Number.isInteger(chainConfig.lzEndpointId)) {
+      const owner = eidOwners.get(chainConfig.lzEndpointId);
+      if (owner) {
+        issues.push({
+          path: `${path}.lzEndpointId`,
+          message: `duplicates the endpoint ID of ${owner} (${chainConfig.lzEndpointId})`,
+        });
+      } else {
+        eidOwners.set(chainConfig.lzEndpointId, chainName);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a profile, throwing a ConfigValidationError listing all issues
+ */
+export function assertValidConfig(config: ProfileConfig): void {
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+}
+
+function validateChain(
+  config: ProfileConfig,
+  chainName: string,
+  chainConfig: ChainConfig,
+  path: string
+): ConfigIssue[] {
+  if (!isObject(chainConfig)) {
+    return [{ path, message: "must be a chain configuration object" }];
+  }
+
+  const issues: ConfigIssue[] = [];
+  const issue = (field: string, message: string) =>
+    issues.push({ path: `${path}.${field}`, message });
+
+  if (chainConfig.mode !== "Router" && chainConfig.mode !== "Receiver") {
+    issue("mode", `must be "Router" or "Receiver", got ${JSON.stringify(chainConfig.mode)}`);
+  }
+
+  if (!Number.isInteger(chainConfig.chainId) || chainConfig.chainId <= 0) {
+    issue("chainId", "must be a positive integer");
+  }
+  if (typeof chainConfig.rpcEnvVar !== "string" || !/^[A-Z][A-Z0-9_]*$/.test(chainConfig.rpcEnvVar)) {
+    issue("rpcEnvVar", "must be an upper-case environment variable name (e.g. SEPOLIA_RPC_URL)");
+  }
+  if (!isHttpUrl(chainConfig.defaultRpcUrl)) {
+    issue("defaultRpcUrl", "must be an http(s) URL");
+  }
+  if (!isHttpUrl(chainConfig.explorerUrl)) {
+    issue("explorerUrl", "must be an http(s) URL");
+  }
+  if (chainConfig.nativeCurrency !== undefined) {
+    const currency = chainConfig.nativeCurrency;
+    if (
+      !isObject(currency) ||
+      typeof currency.name !== "string" ||
+      typeof currency.symbol !== "string" ||
+      !Number.isInteger(currency.decimals)
+    ) {
+      issue("nativeCurrency", "must be { name: string, symbol: string, decimals: integer }");
+    }
+  }
+
+  checkAddress(chainConfig.lzEndpointAddress, `${path}.lzEndpointAddress`, issues);
+  issues.push(
+    ...validateEndpointId(chainName, chainConfig.lzEndpointId, config.stage, `${path}.lzEndpointId`)
+  );
+
+  if (chainConfig.pocoOAppAddress !== undefined) {
+    checkAddress(chainConfig.pocoOAppAddress, `${path}.pocoOAppAddress`, issues);
+  }
+  if (
+    typeof chainConfig.pocoOAppCreatexSalt !== "string" ||
+    !isHex(chainConfig.pocoOAppCreatexSalt, { strict: true }) ||
+    chainConfig.pocoOAppCreatexSalt.length !== BYTES32_LENGTH
+  ) {
+    issue("pocoOAppCreatexSalt", "must be a 32-byte hex string");
+  }
+
+  if (chainConfig.mode === "Router") {
+    if (chainConfig.pocoAddress !== undefined) {
+      issue("pocoAddress", "must not be set on a Router (PoCo lives on the destination chain)");
+    }
+    const destination = chainConfig.destinationChain;
+    if (!destination) {
+      issue("destinationChain", "is required for Router mode");
+    } else if (!config.chains[destination]) {
+      issue("destinationChain", `references unknown chain "${destination}"`);
+    } else if (config.chains[destination].mode !== "Receiver") {
+      issue("destinationChain", `must reference a Receiver, "${destination}" is a ${config.chains[destination].mode}`);
+    }
+  }
+
+  if (chainConfig.mode === "Receiver") {
+    if (chainConfig.destinationChain !== undefined) {
+      issue("destinationChain", "must not be set on a Receiver");
+    }
+    if (chainConfig.pocoAddress === undefined) {
+      issue("pocoAddress", "is required for Receiver mode");
+    } else {
+      checkAddress(chainConfig.pocoAddress, `${path}.pocoAddress`, issues);
+    }
+  }
+
+  return issues;
+}
+
+function validateEndpointId(
+  chainName: string,
+  eid: number,
+  stage: ProfileStage,
+  path: string
+): ConfigIssue[] {
+  if (!Number.isInteger(eid)) {
+    return [{ path, message: "must be an integer" }];
+  }
+
+  const expected = EXPECTED_ENDPOINT_IDS[chainName];
+  if (expected !== undefined && eid !== expected) {
+    return [{ path, message: `must be ${expected} (${EndpointId[expected]}) for ${chainName}, got ${eid}` }];
+  }
+
+  const name = EndpointId[eid as EndpointId];
+  if (!name || !/_V2_(MAINNET|TESTNET|SANDBOX)$/.test(name)) {
+    return [{ path, message: `${eid} is not a LayerZero V2 endpoint ID known to @layerzerolabs/lz-definitions` }];
+  }
+
+  // Keeps mainnet and testnet chains from being wired together
+  const eidStage = endpointIdToStage(eid);
+  if (PROFILE_STAGES.includes(stage) && eidStage !== stage) {
+    return [{ path, message: `${eid} (${name}) is a ${eidStage} endpoint, profile stage is ${stage}` }];
+  }
+
+  return [];
+}
+
+function checkAddress(value: unknown, path: string, issues: ConfigIssue[]): void {
+  if (typeof value !== "string" || !isAddress(value, { strict: false })) {
+    issues.push({ path, message: "must be an address" });
+  } else if (value.toLowerCase() === zeroAddress) {
+    issues.push({ path, message: "must not be the zero address" });
+  } else if (getAddress(value) !== value) {
+    issues.push({ path, message: `must be checksummed (expected ${getAddress(value)})` });
+  }
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== "string") {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,263 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { readFileSync, writeFileSync } from "fs";
+import { getAddress, isAddress } from "viem";
+import { loadConfigFile, resolveConfigPath, resolveProfileName } from "./config";
+
+/**
+ * Thrown when a chain already has a different pocoOAppAddress and force is not set
+ */
+export class AddressOverwriteError extends Error {
+  constructor(
+    readonly chainName: string,
+    readonly currentAddress: string,
+    readonly newAddress: string
+  ) {
+    super(
+      `${chainName} already has pocoOAppAddress ${currentAddress}, refusing to overwrite it with ${newAddress}`
+    );
+    this.name = "AddressOverwriteError";
+  }
+}
+
+export interface SaveAddressOptions {
+  chainName: string;
+  address: string;
+  /** config.json path, defaults to POCO_LZ_CONFIG then the shipped config.json */
+  path?: string;
+  /** Profile name, defaults to POCO_LZ_PROFILE then defaultProfile */
+  profile?: string;
+  /** Replace an existing, different address */
+  force?: boolean;
+  /** Compute the diff without writing config.json */
+  dryRun?: boolean;
+}
+
+export interface SaveAddressResult {
+  path: string;
+  profile: string;
+  previousAddress?: string;
+  /** false when config.json already holds this address */
+  changed: boolean;
+  /** true when config.json was rewritten */
+  written: boolean;
+  /** Unified diff of config.json (empty when unchanged) */
+  diff: string;
+}
+
+/**
+ * Record a deployed PocoOApp address in config.json
+ *
+ * Edits the file as text so only the pocoOAppAddress line of the chain
+ * changes: key order, indentation and the other fields are left untouched.
+ */
+export function savePocoOAppAddress(options: SaveAddressOptions): SaveAddressResult {
+  const { chainName, force = false, dryRun = false } = options;
+  if (!isAddress(options.address, { strict: false })) {
+    throw new Error(`Invalid address ${options.address}`);
+  }
+  const address = getAddress(options.address);
+
+  const path = resolveConfigPath(options.path);
+  const profile = resolveProfileName(loadConfigFile(path), options.profile);
+  const content = readFileSync(path, "utf8");
+
+  const chainNode = findNode(parseNode(content), ["profiles", profile, "chains", chainName]);
+  if (!chainNode?.members) {
+    throw new Error(`Chain ${chainName} not found in profile ${profile} of ${path}`);
+  }
+
+  const current = chainNode.members.get("pocoOAppAddress");
+  const previousAddress = current
+    ? (JSON.parse(content.slice(current.node.start, current.node.end)) as string)
+    : undefined;
+
+  if (previousAddress && previousAddress.toLowerCase() === address.toLowerCase()) {
+    return { path, profile, previousAddress, changed: false, written: false, diff: "" };
+  }
+  if (previousAddress && !force) {
+    throw new AddressOverwriteError(chainName, previousAddress, address);
+  }
+
+  const updated = current
+    ? replaceValue(content, current.node, JSON.stringify(address))
+    : insertMember(content, chainNode, "pocoOAppAddress", JSON.stringify(address));
+
+  if (!dryRun) {
+    writeFileSync(path, updated);
+  }
+  return {
+    path,
+    profile,
+    previousAddress,
+    changed: true,
+    written: !dryRun,
+    diff: formatDiff(path, content, updated),
+  };
+}
+
+// ============================================================================
+// JSON text locations
+// ============================================================================
+
+interface JsonNode {
+  start: number;
+  end: number;
+  members?: Map<string, { keyStart: number; node: JsonNode }>;
+}
+
+function parseNode(text: string): JsonNode {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (/\s/.test(text[pos] ?? "")) pos++;
+  };
+  const expect = (char: string) => {
+    if (text[pos] !== char) {
+      throw new Error(`Malformed JSON: expected "${char}" at offset ${pos}`);
+    }
+    pos++;
+  };
+  const readString = (): string => {
+    const start = pos;
+    expect('"');
+    while (text[pos] !== '"') {
+      if (pos >= text.length) throw new Error("Malformed JSON: unterminated string");
+      pos += text[pos] === "\\" ? 2 : 1;
+    }
+    pos++;
+    return JSON.parse(text.slice(start, pos));
+  };
+
+  const readValue = (): JsonNode => {
+    skipWhitespace();
+    const start = pos;
+
+    if (text[pos] === "{") {
+      pos++;
+      const members = new Map<string, { keyStart: number; node: JsonNode }>();
+      skipWhitespace();
+      while (text[pos] !== "}") {
+        skipWhitespace();
+        const keyStart = pos;
+        const key = readString();
+        skipWhitespace();
+        expect(":");
+        members.set(key, { keyStart, node: readValue() });
+        skipWhitespace();
+        if (text[pos] === ",") pos++;
+        else if (text[pos] !== "}") expect("}");
+        skipWhitespace();
+      }
+      pos++;
+      return { start, end: pos, members };
+    }
+
+    if (text[pos] === "[") {
+      pos++;
+      skipWhitespace();
+      while (text[pos] !== "]") {
+        readValue();
+        skipWhitespace();
+        if (text[pos] === ",") pos++;
+        else if (text[pos] !== "]") expect("]");
+        skipWhitespace();
+      }
+      pos++;
+      return { start, end: pos };
+    }
+
+    if (text[pos] === '"') {
+      readString();
+      return { start, end: pos };
+    }
+
+    while (pos < text.length && !/[\s,}\]]/.test(text[pos])) pos++;
+    if (pos === start) throw new Error(`Malformed JSON: unexpected "${text[pos]}" at offset ${pos}`);
+    return { start, end: pos };
+  };
+
+  return readValue();
+}
+
+function findNode(root: JsonNode, keys: string[]): JsonNode | undefined {
+  let node: JsonNode | undefined = root;
+  for (const key of keys) {
+    node = node?.members?.get(key)?.node;
+  }
+  return node;
+}
+
+function replaceValue(text: string, node: JsonNode, value: string): string {
+  return text.slice(0, node.start) + value + text.slice(node.end);
+}
+
+/**
+ * Add a member to an object, next to pocoOAppCreatexSalt when present
+ * (matching the field order of config.json), at the end otherwise.
+ * Single-line objects stay on one line.
+ */
+function insertMember(text: string, object: JsonNode, key: string, value: string): string {
+  const members = [...object.members!.values()];
+  const member = `${JSON.stringify(key)}: ${value}`;
+
+  if (members.length === 0) {
+    return `${text.slice(0, object.start)}{ ${member} }${text.slice(object.end)}`;
+  }
+
+  const last = members[members.length - 1].node;
+  if (!text.slice(object.start, object.end).includes("\n")) {
+    return `${text.slice(0, last.end)}, ${member}${text.slice(last.end)}`;
+  }
+
+  const indent = indentationAt(text, members[0].keyStart);
+  const salt = object.members!.get("pocoOAppCreatexSalt");
+  if (salt) {
+    return `${text.slice(0, salt.keyStart)}${member},\n${indent}${text.slice(salt.keyStart)}`;
+  }
+
+  return `${text.slice(0, last.end)},\n${indent}${member}${text.slice(last.end)}`;
+}
+
+function indentationAt(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  return text.slice(lineStart, offset);
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+const DIFF_CONTEXT = 2;
+
+/**
+ * Unified diff of a single changed region
+ */
+function formatDiff(path: string, before: string, after: string): string {
+  const oldLines = before.split("\n");
+  const newLines = after.split("\n");
+
+  let first = 0;
+  while (first < oldLines.length && oldLines[first] === newLines[first]) first++;
+  let oldLast = oldLines.length - 1;
+  let newLast = newLines.length - 1;
+  while (oldLast >= first && newLast >= first && oldLines[oldLast] === newLines[newLast]) {
+    oldLast--;
+    newLast--;
+  }
+
+  const start = Math.max(0, first - DIFF_CONTEXT);
+  const oldEnd = Math.min(oldLines.length - 1, oldLast + DIFF_CONTEXT);
+  const newEnd = newLast + (oldEnd - oldLast);
+
+  return [
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -${start + 1},${oldEnd - start + 1} +${start + 1},${newEnd - start + 1} @@`,
+    ...oldLines.slice(start, first).map((line) => ` ${line}`),
+    ...oldLines.slice(first, oldLast + 1).map((line) => `-${line}`),
+    ...newLines.slice(first, newLast + 1).map((line) => `+${line}`),
+    ...oldLines.slice(oldLast + 1, oldEnd + 1).map((line) => ` ${line}`),
+  ].join("\n");
+}
@@ -0,0 +1,74 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Regenerate src/generated/iexecInterfaceToken.ts from the @iexec/poco package
+ *
+ * Usage:
+ *   npm run generate:abi
+ *
+ * The ABI is written as a const literal so that viem infers the argument and
+ * return types of every PoCo function; bump the @iexec/poco devDependency and
+ * run this script when PoCo is upgraded.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { fileURLToPath } from "node:url";
+
+const ABI_PATH = "@iexec/poco/abis/contracts/IexecInterfaceToken.json";
+const OUTPUT = fileURLToPath(new URL("../src/generated/iexecInterfaceToken.ts", import.meta.url));
+const PRINT_WIDTH = 100;
+
+/**
+ * Print a JSON value as a TypeScript literal, keeping arrays and objects on
+ * one line when they fit
+ * @param prefix Text before the value on its line, counted in the width
+ */
+function print(value: unknown, indent: string, prefix: string): string {
+  if (typeof value !== "object" || value === null) {
+    return JSON.stringify(value);
+  }
+
+  const inner = `${indent}  `;
+  const entries = Array.isArray(value)
+    ? value.map((item) => ({ key: "", item }))
+    : Object.entries(value).map(([key, item]) => ({ key: `${printKey(key)}: `, item }));
+  if (entries.length === 0) {
+    return Array.isArray(value) ? "[]" : "{}";
+  }
+
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{ ", " }"];
+  const inline = `${open}${entries
+    .map(({ key, item }) => `${key}${print(item, "", "")}`)
+    .join(", ")}${close}`;
+  if (!inline.includes("\n") && indent.length + prefix.length + inline.length + 1 <= PRINT_WIDTH) {
+    return inline;
+  }
+
+  const lines = entries.map(({ key, item }) => `${inner}${key}${print(item, inner, key)},`);
+  return `${open.trim()}\n${lines.join("\n")}\n${indent}${close.trim()}`;
+}
+
+function printKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+const require = createRequire(import.meta.url);
+const { version } = require("@iexec/poco/package.json");
+const abi = JSON.parse(readFileSync(require.resolve(ABI_PATH), "utf8"));
+const declaration = "export const iexecInterfaceTokenAbi = ";
+
+writeFileSync(
+  OUTPUT,
+  `// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+// Generated from @iexec/poco@${version} abis/contracts/IexecInterfaceToken.json, the ABI
+// of the PoCo diamond on token chains. Do not edit: run \`npm run generate:abi\` after
+// bumping the @iexec/poco devDependency.
+
+${declaration}${print(abi, "", declaration)} as const;
+`
+);
+console.log(`✅ Wrote ${OUTPUT} from @iexec/poco@${version}`);
@@ -0,0 +1,380 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { iexecInterfaceTokenAbi } from "./generated/iexecInterfaceToken.js";
+
+/**
+ * PocoOApp ABI (subset used by the cross-chain tooling)
+ *
+ * Mirrors `contracts/interfaces/IPocoOApp.sol` in the layerzero package.
+ * Declared `as const` so viem can type-check arguments and return values.
+ */
+export const pocoOAppAbi = [
+  {
+    type: "function",
+    name: "routeCall",
+    stateMutability: "payable",
+    inputs: [
+      { name: "targetFunction", type: "bytes4" },
+      { name: "payload", type: "bytes" },
+      { name: "refundAddress", type: "address" },
+      { name: "options", type: "bytes" },
+    ],
+    outputs: [{ name: "", type: "uint64" }],
+  },
+  {
+    type: "function",
+    name: "routeCallPayInLzToken",
+    stateMutability: "payable",
+    inputs: [
+      { name: "targetFunction", type: "bytes4" },
+      { name: "payload", type: "bytes" },
+      { name: "refundAddress", type: "address" },
+      { name: "options", type: "bytes" },
+      { name: "lzTokenFee", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "uint64" }],
+  },
+  {
+    type: "function",
+    name: "quoteCall",
+    stateMutability: "view",
+    inputs: [
+      { name: "targetFunction", type: "bytes4" },
+      { name: "payload", type: "bytes" },
+      { name: "options", type: "bytes" },
+      { name: "payInLzToken", type: "bool" },
+    ],
+    outputs: [
+      {
+        name: "fee",
+        type: "tuple",
+        components: [
+          { name: "nativeFee", type: "uint256" },
+          { name: "lzTokenFee", type: "uint256" },
+        ],
+      },
+    ],
+  },
+  {
+    type: "function",
+    name: "lzReceive",
+    stateMutability: "payable",
+    inputs: [
+      {
+        name: "origin",
+        type: "tuple",
+        components: [
+          { name: "srcEid", type: "uint32" },
+          { name: "sender", type: "bytes32" },
+          { name: "nonce", type: "uint64" },
+        ],
+      },
+      { name: "guid", type: "bytes32" },
+      { name: "message", type: "bytes" },
+      { name: "executor", type: "address" },
+      { name: "extraData", type: "bytes" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "mode",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    type: "function",
+    name: "pocoAddress",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "arbitrumEid",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint32" }],
+  },
+  {
+    type: "function",
+    name: "sponsorVault",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "enforcedOptions",
+    stateMutability: "view",
+    inputs: [
+      { name: "eid", type: "uint32" },
+      { name: "msgType", type: "uint16" },
+    ],
+    outputs: [{ name: "", type: "bytes" }],
+  },
+  {
+    type: "event",
+    name: "CrossChainCallInitiated",
+    inputs: [
+      { name: "guid", type: "bytes32", indexed: true },
+      { name: "sourceChainId", type: "uint64", indexed: false },
+      { name: "caller", type: "address", indexed: true },
+      { name: "targetFunction", type: "bytes4", indexed: true },
+      { name: "payload", type: "bytes", indexed: false },
+      { name: "nonce", type: "uint64", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "CrossChainCallReceived",
+    inputs: [
+      { name: "guid", type: "bytes32", indexed: true },
+      { name: "sourceChainId", type: "uint64", indexed: false },
+      { name: "caller", type: "address", indexed: true },
+      { name: "targetFunction", type: "bytes4", indexed: true },
+      { name: "returnData", type: "bytes", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "CrossChainCallFailed",
+    inputs: [
+      { name: "guid", type: "bytes32", indexed: true },
+      { name: "sourceChainId", type: "uint64", indexed: false },
+      { name: "caller", type: "address", indexed: true },
+      { name: "targetFunction", type: "bytes4", indexed: true },
+      { name: "reason", type: "string", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "CrossChainDealCreated",
+    inputs: [
+      { name: "dealId", type: "bytes32", indexed: true },
+      { name: "sourceChainId", type: "uint64", indexed: true },
+      { name: "caller", type: "address", indexed: true },
+      { name: "guid", type: "bytes32", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "CrossChainBatchCallSucceeded",
+    inputs: [
+      { name: "guid", type: "bytes32", indexed: true },
+      { name: "index", type: "uint256", indexed: false },
+      { name: "targetFunction", type: "bytes4", indexed: true },
+      { name: "returnData", type: "bytes", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "CrossChainBatchCallFailed",
+    inputs: [
+      { name: "guid", type: "bytes32", indexed: true },
+      { name: "index", type: "uint256", indexed: false },
+      { name: "targetFunction", type: "bytes4", indexed: true },
+      { name: "reason", type: "string", indexed: false },
+    ],
+  },
+  { type: "error", name: "InvalidBatch", inputs: [] },
+] as const;
+
+const originComponents = [
+  { name: "srcEid", type: "uint32" },
+  { name: "sender", type: "bytes32" },
+  { name: "nonce", type: "uint64" },
+] as const;
+
+/**
+ * PocoSponsorVault ABI (subset used to fund and check sponsored deals)
+ *
+ * Mirrors `contracts/interfaces/IPocoSponsorVault.sol` in the layerzero package.
+ */
+export const pocoSponsorVaultAbi = [
+  {
+    type: "function",
+    name: "deposit",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "amount", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "withdraw",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "amount", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "offerSponsorship",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "sourceChainId", type: "uint64" },
+      { name: "caller", type: "address" },
+      { name: "offered", type: "bool" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "balanceOf",
+    stateMutability: "view",
+    inputs: [{ name: "sponsor", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "sponsorOf",
+    stateMutability: "view",
+    inputs: [
+      { name: "sourceChainId", type: "uint64" },
+      { name: "caller", type: "address" },
+    ],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "sponsorshipOffered",
+    stateMutability: "view",
+    inputs: [
+      { name: "sourceChainId", type: "uint64" },
+      { name: "caller", type: "address" },
+      { name: "sponsor", type: "address" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+] as const;
+
+/**
+ * Routed function handled by the receiver PocoOApp itself rather than PoCo
+ *
+ * acceptSponsor (`PocoMessageLib.ACCEPT_SPONSOR_SELECTOR`) makes the vault
+ * debit the caller's sponsored deals from a sponsor that offered to pay them.
+ */
+export const acceptSponsorAbi = [
+  {
+    type: "function",
+    name: "acceptSponsor",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "sponsor", type: "address" }],
+    outputs: [],
+  },
+] as const;
+
+/**
+ * LayerZero EndpointV2 ABI (subset used to track and recover messages)
+ *
+ * lzToken and PacketSent are read on the source chain; inboundPayloadHash
+ * and LzReceiveAlert on the destination chain. lzReceive, clear and skip
+ * recover messages whose execution failed on the destination chain.
+ */
+export const lzEndpointAbi = [
+  {
+    type: "function",
+    name: "lzToken",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "inboundPayloadHash",
+    stateMutability: "view",
+    inputs: [
+      { name: "receiver", type: "address" },
+      { name: "srcEid", type: "uint32" },
+      { name: "sender", type: "bytes32" },
+      { name: "nonce", type: "uint64" },
+    ],
+    outputs: [{ name: "", type: "bytes32" }],
+  },
+  {
+    type: "function",
+    name: "inboundNonce",
+    stateMutability: "view",
+    inputs: [
+      { name: "receiver", type: "address" },
+      { name: "srcEid", type: "uint32" },
+      { name: "sender", type: "bytes32" },
+    ],
+    outputs: [{ name: "", type: "uint64" }],
+  },
+  {
+    type: "function",
+    name: "delegates",
+    stateMutability: "view",
+    inputs: [{ name: "oapp", type: "address" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "lzReceive",
+    stateMutability: "payable",
+    inputs: [
+      { name: "origin", type: "tuple", components: originComponents },
+      { name: "receiver", type: "address" },
+      { name: "guid", type: "bytes32" },
+      { name: "message", type: "bytes" },
+      { name: "extraData", type: "bytes" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "clear",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "oapp", type: "address" },
+      { name: "origin", type: "tuple", components: originComponents },
+      { name: "guid", type: "bytes32" },
+      { name: "message", type: "bytes" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "skip",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "oapp", type: "address" },
+      { name: "srcEid", type: "uint32" },
+      { name: "sender", type: "bytes32" },
+      { name: "nonce", type: "uint64" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "event",
+    name: "PacketSent",
+    inputs: [
+      { name: "encodedPayload", type: "bytes", indexed: false },
+      { name: "options", type: "bytes", indexed: false },
+      { name: "sendLibrary", type: "address", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "LzReceiveAlert",
+    inputs: [
+      { name: "receiver", type: "address", indexed: true },
+      { name: "executor", type: "address", indexed: true },
+      { name: "origin", type: "tuple", indexed: false, components: originComponents },
+      { name: "guid", type: "bytes32", indexed: false },
+      { name: "gas", type: "uint256", indexed: false },
+      { name: "value", type: "uint256", indexed: false },
+      { name: "message", type: "bytes", indexed: false },
+      { name: "extraData", type: "bytes", indexed: false },
+      { name: "reason", type: "bytes", indexed: false },
+    ],
+  },
+] as const;
+
+/**
+ * PoCo ABI (IexecInterfaceToken from @iexec/poco), used to encode routed
+ * calls, name selectors and decode routed payloads
+ */
+export const pocoAbi = iexecInterfaceTokenAbi;
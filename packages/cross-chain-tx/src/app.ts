@@ -0,0 +1,79 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { getAddress, type Address } from "viem";
+import type { IExec } from "iexec";
+import type { AppOrder } from "./types.js";
+
+export interface AppOrderQuery {
+  app: Address;
+  /** Requester the app order must accept */
+  requester: Address;
+  /** Dataset of the request, if any, that the app order must accept */
+  dataset?: Address;
+  /** Tags of the request; the app order tag must be included */
+  tag: string[];
+  /** Volume of the request (default 1) */
+  volume?: number;
+  /** Highest app price accepted, in nRLC (default 0) */
+  maxPrice?: bigint;
+}
+
+export interface ResolvedAppOrder {
+  order: AppOrder;
+  /** Volume left on the published order; undefined for a self-signed order */
+  remaining?: number;
+  /** Signed by the requester, who owns the app */
+  selfSigned: boolean;
+}
+
+/**
+ * App order for the request: the cheapest published one priced within
+ * maxPrice, else a free order signed by the requester when it owns the app
+ *
+ * Orders restricted to another dataset or requester, or with a tag the
+ * request does not carry, are skipped.
+ * @param iexec iExec SDK signing with the requester wallet
+ */
+export async function resolveAppOrder(
+  iexec: IExec,
+  { app, requester, dataset, tag, volume = 1, maxPrice = 0n }: AppOrderQuery
+): Promise<ResolvedAppOrder> {
+  const { orders } = await iexec.orderbook.fetchAppOrderbook({
+    app,
+    dataset,
+    requester,
+    maxTag: tag,
+    minVolume: volume,
+  });
+
+  const published = orders.find(
+    ({ order }: { order: AppOrder }) => BigInt(order.appprice) <= maxPrice
+  );
+  if (published) {
+    return { order: published.order, remaining: published.remaining, selfSigned: false };
+  }
+
+  const [{ app: details }, signer] = await Promise.all([
+    iexec.app.showApp(app),
+    iexec.wallet.getAddress(),
+  ]);
+  if (getAddress(details.owner) !== getAddress(signer)) {
+    throw new Error(
+      orders.length === 0
+        ? `No published order of app ${app} for requester ${requester}. ` +
+            "Ask the app owner to publish one."
+        : `App ${app} is only offered above ${maxPrice} nRLC ` +
+            `(cheapest: ${orders[0].order.appprice} nRLC). Raise the maximum app price.`
+    );
+  }
+
+  const order = await iexec.order.createApporder({
+    app,
+    appprice: 0,
+    volume,
+    tag,
+    requesterrestrict: requester,
+  });
+  return { order: await iexec.order.signApporder(order), selfSigned: true };
+}
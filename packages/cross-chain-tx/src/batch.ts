@@ -0,0 +1,44 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { BATCH_SELECTOR, encodeBatchPayload, type BatchMode } from "./message.js";
+import { toMatchOrdersArgs } from "./orders.js";
+import { encodePocoCall, type PocoCall } from "./poco.js";
+import type { MatchOrdersOrders } from "./types.js";
+
+/**
+ * Pack PoCo calls into one batch message, quoted and routed like a single call
+ * for one LayerZero fee
+ *
+ * The PocoOApp router rejects empty and nested batches; they are refused here
+ * before any fee is quoted.
+ */
+export function encodePocoBatch(mode: BatchMode, calls: readonly PocoCall[]): PocoCall {
+  if (calls.length === 0) {
+    throw new Error("A batch needs at least one call");
+  }
+  if (calls.some((call) => call.selector === BATCH_SELECTOR)) {
+    throw new Error("Batches cannot be nested");
+  }
+  return {
+    selector: BATCH_SELECTOR,
+    payload: encodeBatchPayload(
+      mode,
+      calls.map(({ selector, payload }) => ({ targetFunction: selector, payload }))
+    ),
+  };
+}
+
+/**
+ * Batch of matchOrders (or sponsorMatchOrders) calls, one deal per set of orders
+ */
+export function buildMatchOrdersBatch(
+  orders: readonly MatchOrdersOrders[],
+  { mode = "all-or-nothing", sponsored = false }: { mode?: BatchMode; sponsored?: boolean } = {}
+): PocoCall {
+  const functionName = sponsored ? "sponsorMatchOrders" : "matchOrders";
+  return encodePocoBatch(
+    mode,
+    orders.map((deal) => encodePocoCall(functionName, toMatchOrdersArgs(deal)))
+  );
+}
@@ -0,0 +1,292 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  createPublicClient,
+  getAddress,
+  http,
+  isHex,
+  recoverAddress,
+  zeroAddress,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import type { IExec } from "iexec";
+import { getDestinationChain, loadConfig, type Config } from "@iexec/poco-lz-config";
+import { pocoAbi } from "./abi.js";
+import { getRpcUrl, getViemChain } from "./chains.js";
+import {
+  MATCH_ORDERS_SELECTOR,
+  SPONSOR_MATCH_ORDERS_SELECTOR,
+  encodeMatchOrdersPayload,
+} from "./orders.js";
+import { checkSponsorship } from "./sponsor.js";
+import type { MatchOrdersOrders } from "./types.js";
+
+export const ORDER_BUNDLE_VERSION = 1;
+
+/** Bundles expire one hour after export unless told otherwise */
+export const DEFAULT_BUNDLE_TTL_SECONDS = 3600;
+
+/**
+ * Signed matchOrders (or sponsorMatchOrders) call, exported on the signing
+ * machine and routed later, possibly with another key
+ */
+export interface OrderBundle {
+  version: typeof ORDER_BUNDLE_VERSION;
+  /** ISO 8601 dates */
+  createdAt: string;
+  expiresAt: string;
+  /** Router chain the bundle must be submitted from */
+  sourceChain: string;
+  destinationChain: string;
+  destinationChainId: number;
+  /** PoCo contract the orders are signed for */
+  pocoAddress: Address;
+  /** matchOrders, or sponsorMatchOrders for a sponsored deal */
+  selector: Hex;
+  payload: Hex;
+  /** LayerZero options, with the _lzReceive gas limit */
+  options: Hex;
+  orders: MatchOrdersOrders;
+}
+
+export interface CreateOrderBundleParams {
+  sourceChain: string;
+  /** Active profile; loaded with loadConfig() when omitted */
+  config?: Config;
+  orders: MatchOrdersOrders;
+  options: Hex;
+  ttlSeconds?: number;
+  now?: Date;
+  /** Bundle sponsorMatchOrders instead of matchOrders */
+  sponsored?: boolean;
+}
+
+export interface BundleCheck {
+  name: string;
+  ok: boolean;
+  detail: string;
+}
+
+export interface BundleValidation {
+  valid: boolean;
+  checks: BundleCheck[];
+}
+
+/**
+ * Bundle a matchOrders or sponsorMatchOrders call for its source chain
+ */
+export function createOrderBundle({
+  sourceChain,
+  config = loadConfig(),
+  orders,
+  options,
+  ttlSeconds = DEFAULT_BUNDLE_TTL_SECONDS,
+  now = new Date(),
+  sponsored = false,
+}: CreateOrderBundleParams): OrderBundle {
+  const [destinationChain, destinationConfig] = getDestinationChain(config, sourceChain);
+  if (!destinationConfig.pocoAddress) {
+    throw new Error(`pocoAddress is not configured for ${destinationChain}`);
+  }
+
+  return {
+    version: ORDER_BUNDLE_VERSION,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+    sourceChain,
+    destinationChain,
+    destinationChainId: destinationConfig.chainId,
+    pocoAddress: getAddress(destinationConfig.pocoAddress),
+    selector: sponsored ? SPONSOR_MATCH_ORDERS_SELECTOR : MATCH_ORDERS_SELECTOR,
+    payload: encodeMatchOrdersPayload(orders),
+    options,
+    orders,
+  };
+}
+
+/**
+ * Bundle as written to disk
+ */
+export function serializeOrderBundle(bundle: OrderBundle): string {
+  return `${JSON.stringify(bundle, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2)}\n`;
+}
+
+/**
+ * Read a bundle, checking its version, its fields and that the payload
+ * encodes the bundled orders
+ */
+export function parseOrderBundle(json: string): OrderBundle {
+  const bundle = JSON.parse(json);
+  if (typeof bundle !== "object" || bundle === null) {
+    throw new Error("Order bundle must be a JSON object");
+  }
+  if (bundle.version !== ORDER_BUNDLE_VERSION) {
+    throw new Error(
+      `Unsupported order bundle version ${bundle.version}, expected ${ORDER_BUNDLE_VERSION}`
+    );
+  }
+  for (const field of ["createdAt", "expiresAt", "sourceChain", "destinationChain"]) {
+    if (typeof bundle[field] !== "string") {
+      throw new Error(`Order bundle field ${field} is missing`);
+    }
+  }
+  for (const field of ["selector", "payload", "options", "pocoAddress"]) {
+    if (!isHex(bundle[field], { strict: true })) {
+      throw new Error(`Order bundle field ${field} must be hex`);
+    }
+  }
+  for (const order of ["apporder", "datasetorder", "workerpoolorder", "requestorder"]) {
+    if (typeof bundle.orders?.[order] !== "object") {
+      throw new Error(`Order bundle is missing orders.${order}`);
+    }
+  }
+  if (![MATCH_ORDERS_SELECTOR, SPONSOR_MATCH_ORDERS_SELECTOR].includes(bundle.selector)) {
+    throw new Error(
+      `Order bundle selector ${bundle.selector} is neither matchOrders nor sponsorMatchOrders`
+    );
+  }
+  if (bundle.payload !== encodeMatchOrdersPayload(bundle.orders)) {
+    throw new Error("Order bundle payload does not encode the bundled orders");
+  }
+  return bundle as OrderBundle;
+}
+
+/**
+ * Check a bundle before routing it: expiry, destination, order signatures
+ * against the app, dataset and workerpool owners and the requester, the
+ * remaining volume of every order on the receiver chain and, for a sponsored
+ * bundle, the balance of the caller's sponsor
+ * @param iexec iExec SDK connected to the bundle destination chain
+ * @param caller Address that will route the bundle (default: the requester)
+ * @param destinationPublicClient Client for the receiver chain; built from config.json when omitted
+ */
+export async function validateOrderBundle(
+  bundle: OrderBundle,
+  {
+    iexec,
+    config = loadConfig(),
+    destinationPublicClient,
+    caller,
+    now = new Date(),
+  }: {
+    iexec: IExec;
+    config?: Config;
+    destinationPublicClient?: PublicClient;
+    caller?: Address;
+    now?: Date;
+  }
+): Promise<BundleValidation> {
+  const checks: BundleCheck[] = [];
+  const { apporder, datasetorder, workerpoolorder, requestorder } = bundle.orders;
+  const hasDataset = getAddress(datasetorder.dataset) !== zeroAddress;
+
+  const expiresAt = new Date(bundle.expiresAt);
+  checks.push({
+    name: "expiry",
+    ok: now < expiresAt,
+    detail: now < expiresAt ? `valid until ${bundle.expiresAt}` : `expired at ${bundle.expiresAt}`,
+  });
+
+  const [destinationChain, destinationConfig] = getDestinationChain(config, bundle.sourceChain);
+  const sameDestination =
+    destinationChain === bundle.destinationChain &&
+    destinationConfig.chainId === bundle.destinationChainId &&
+    !!destinationConfig.pocoAddress &&
+    getAddress(destinationConfig.pocoAddress) === getAddress(bundle.pocoAddress);
+  checks.push({
+    name: "destination",
+    ok: sameDestination,
+    detail: sameDestination
+      ? `${destinationChain} (${bundle.destinationChainId}), PoCo ${bundle.pocoAddress}`
+      : `bundle targets ${bundle.destinationChain} PoCo ${bundle.pocoAddress}, ` +
+        `config routes ${bundle.sourceChain} to ${destinationChain} PoCo ${destinationConfig.pocoAddress}`,
+  });
+
+  const signed = [
+    {
+      name: "app order",
+      hash: () => iexec.order.hashApporder(apporder),
+      signer: async () => (await iexec.app.showApp(apporder.app)).app.owner,
+      order: apporder,
+    },
+    ...(hasDataset
+      ? [
+          {
+            name: "dataset order",
+            hash: () => iexec.order.hashDatasetorder(datasetorder),
+            signer: async () =>
+              (await iexec.dataset.showDataset(datasetorder.dataset)).dataset.owner,
+            order: datasetorder,
+          },
+        ]
+      : []),
+    {
+      name: "workerpool order",
+      hash: () => iexec.order.hashWorkerpoolorder(workerpoolorder),
+      signer: async () =>
+        (await iexec.workerpool.showWorkerpool(workerpoolorder.workerpool)).workerpool.owner,
+      order: workerpoolorder,
+    },
+    {
+      name: "request order",
+      hash: () => iexec.order.hashRequestorder(requestorder),
+      signer: async () => requestorder.requester,
+      order: requestorder,
+    },
+  ];
+
+  const client =
+    destinationPublicClient ??
+    createPublicClient({
+      chain: getViemChain(destinationChain, config),
+      transport: http(getRpcUrl(destinationChain, config)),
+    });
+
+  for (const { name, hash, signer, order } of signed) {
+    const [orderHash, expected] = await Promise.all([hash(), signer()]);
+    const recovered = await recoverAddress({ hash: orderHash as Hex, signature: order.sign as Hex });
+    const signatureOk = getAddress(recovered) === getAddress(expected);
+    checks.push({
+      name: `${name} signature`,
+      ok: signatureOk,
+      detail: signatureOk ? `signed by ${recovered}` : `signed by ${recovered}, expected ${expected}`,
+    });
+
+    // PoCo counts the consumed volume per order hash; cancelling an order consumes all of it
+    const consumed = await client.readContract({
+      address: bundle.pocoAddress,
+      abi: pocoAbi,
+      functionName: "viewConsumed",
+      args: [orderHash as Hex],
+    });
+    const remaining = BigInt(order.volume) - consumed;
+    checks.push({
+      name: `${name} volume`,
+      ok: remaining > 0n,
+      detail: remaining > 0n ? `${remaining} remaining` : "fully consumed or cancelled",
+    });
+  }
+
+  if (bundle.selector === SPONSOR_MATCH_ORDERS_SELECTOR) {
+    const router = caller ?? getAddress(requestorder.requester);
+    const { sponsor, cost, balance, sufficient } = await checkSponsorship({
+      sourceChain: bundle.sourceChain,
+      config,
+      destinationPublicClient: client,
+      caller: router,
+      orders: bundle.orders,
+    });
+    checks.push({
+      name: "sponsor balance",
+      ok: sufficient,
+      detail: sponsor
+        ? `${balance} nRLC from ${sponsor} for a deal cost of ${cost} nRLC`
+        : `no sponsor pays for ${router}`,
+    });
+  }
+
+  return { valid: checks.every((check) => check.ok), checks };
+}
@@ -0,0 +1,47 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { defineChain, type Chain, type Hash } from "viem";
+import {
+  getChainConfig,
+  getRpcUrl as getChainRpcUrl,
+  type Config,
+  type NativeCurrency,
+} from "@iexec/poco-lz-config";
+
+const ETHER: NativeCurrency = { name: "Ether", symbol: "ETH", decimals: 18 };
+
+/**
+ * Build the Viem chain object for a chain declared in config.json
+ */
+export function getViemChain(chainName: string, config?: Config): Chain {
+  const chainConfig = getChainConfig(chainName, config);
+  const rpcUrl = getRpcUrl(chainName, config);
+
+  return defineChain({
+    id: chainConfig.chainId,
+    name: chainName,
+    nativeCurrency: chainConfig.nativeCurrency ?? ETHER,
+    rpcUrls: {
+      default: { http: [rpcUrl] },
+    },
+    blockExplorers: {
+      default: { name: "Explorer", url: chainConfig.explorerUrl },
+    },
+  });
+}
+
+/**
+ * Get the RPC URL for a chain (rpcEnvVar override or defaultRpcUrl)
+ */
+export function getRpcUrl(chainName: string, config?: Config): string {
+  return getChainRpcUrl(getChainConfig(chainName, config));
+}
+
+/**
+ * Block explorer link for a transaction
+ */
+export function getExplorerTxUrl(chainName: string, hash: Hash, config?: Config): string {
+  const { explorerUrl } = getChainConfig(chainName, config);
+  return `${explorerUrl.replace(/\/$/, "")}/tx/${hash}`;
+}
@@ -0,0 +1,173 @@
+#!/usr/bin/env node
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Cross-chain PoCo command line
+ *
+ * Usage:
+ *   poco-lz <command> [options]
+ *   poco-lz <command> --help
+ *   poco-lz --config path/to/config.json <command> [options]
+ *   poco-lz --profile mainnet <command> [options]
+ *
+ * Example:
+ *   tsx src/cli.ts run --source baseSepolia --app 0x...
+ *   tsx src/cli.ts matchorder --source sepolia
+ *   tsx src/cli.ts status 0x... --source baseSepolia
+ *   tsx src/cli.ts track 0x... --source baseSepolia
+ */
+
+import "dotenv/config";
+import { CONFIG_PATH_ENV, CONFIG_PROFILE_ENV } from "@iexec/poco-lz-config";
+import {
+  ExitCode,
+  UsageError,
+  formatCommandHelp,
+  parseCommandArgs,
+  type Command,
+} from "./commands/command.js";
+import { createAppCommand, createDatasetCommand } from "./commands/create.js";
+import { decodeCommand } from "./commands/decode.js";
+import { matchorderCommand, runCommand } from "./commands/matchorder.js";
+import { quoteCommand } from "./commands/quote.js";
+import {
+  clearCommand,
+  retryCommand,
+  skipCommand,
+  stuckCommand,
+} from "./commands/recover.js";
+import { resultsCommand } from "./commands/results.js";
+import { sponsorCommand } from "./commands/sponsor.js";
+import { statusCommand } from "./commands/status.js";
+import { submitCommand } from "./commands/submit.js";
+import { trackCommand } from "./commands/track.js";
+import { TransactionRevertedError } from "./errors.js";
+
+const BIN_NAME = "poco-lz";
+
+/**
+ * Options accepted before or after any command, forwarded to loadConfig()
+ * through their environment variable
+ */
+const globalOptions = [
+  {
+    name: "config",
+    valueName: "path",
+    env: CONFIG_PATH_ENV,
+    description: `config.json to use (default: ${CONFIG_PATH_ENV} or the shared config.json)`,
+  },
+  {
+    name: "profile",
+    valueName: "name",
+    env: CONFIG_PROFILE_ENV,
+    description: `Chain profile, e.g. testnet or mainnet (default: ${CONFIG_PROFILE_ENV} or defaultProfile)`,
+  },
+];
+
+const commands: Command[] = [
+  runCommand,
+  matchorderCommand,
+  submitCommand,
+  sponsorCommand,
+  quoteCommand,
+  statusCommand,
+  trackCommand,
+  resultsCommand,
+  stuckCommand,
+  retryCommand,
+  clearCommand,
+  skipCommand,
+  createAppCommand,
+  createDatasetCommand,
+  decodeCommand,
+];
+
+function formatHelp(): string {
+  const width = Math.max(...commands.map((command) => command.name.length));
+  const globalUsages = globalOptions.map((option) => `--${option.name} <${option.valueName}>`);
+  const globalWidth = Math.max(...globalUsages.map((usage) => usage.length));
+  return [
+    "Cross-chain PoCo operations via LayerZero",
+    "",
+    "Usage:",
+    `  ${BIN_NAME} [global options] <command> [options]`,
+    "",
+    "Global options:",
+    ...globalOptions.map(
+      (option, i) => `  ${globalUsages[i].padEnd(globalWidth)}  ${option.description}`
+    ),
+    "",
+    "Commands:",
+    ...commands.map((command) => `  ${command.name.padEnd(width)}  ${command.summary}`),
+    "",
+    `Run "${BIN_NAME} <command> --help" for command options.`,
+  ].join("\n");
+}
+
+/**
+ * Strip global options from argv and expose them to loadConfig()
+ */
+function applyGlobalOptions(argv: string[]): string[] {
+  const rest = [...argv];
+  for (const option of globalOptions) {
+    const flag = `--${option.name}`;
+    const index = rest.findIndex((arg) => arg === flag || arg.startsWith(`${flag}=`));
+    if (index === -1) {
+      continue;
+    }
+
+    const [arg] = rest.splice(index, 1);
+    const value = arg.includes("=") ? arg.slice(flag.length + 1) : rest.splice(index, 1)[0];
+    if (!value || value.startsWith("-")) {
+      throw new UsageError(`${flag} requires a ${option.valueName}`);
+    }
+    process.env[option.env] = value;
+  }
+  return rest;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let args: string[];
+  try {
+    args = applyGlobalOptions(argv);
+  } catch (error: any) {
+    console.error(`❌ ${error.message}\n`);
+    console.error(formatHelp());
+    return ExitCode.Usage;
+  }
+  const [name, ...rest] = args;
+
+  if (!name || name === "--help" || name === "-h") {
+    console.log(formatHelp());
+    return name ? ExitCode.Success : ExitCode.Usage;
+  }
+
+  const command = commands.find((candidate) => candidate.name === name);
+  if (!command) {
+    console.error(`❌ Unknown command: ${name}\n`);
+    console.error(formatHelp());
+    return ExitCode.Usage;
+  }
+
+  try {
+    const args = parseCommandArgs(command, rest);
+    if (args.values.help) {
+      console.log(formatCommandHelp(BIN_NAME, command));
+      return ExitCode.Success;
+    }
+    return (await command.run(args)) ?? ExitCode.Success;
+  } catch (error: any) {
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}\n`);
+      console.error(formatCommandHelp(BIN_NAME, command));
+      return ExitCode.Usage;
+    }
+    console.error("\n❌ Error:", error.message);
+    return error instanceof TransactionRevertedError
+      ? ExitCode.TxReverted
+      : ExitCode.Failure;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => process.exit(code));
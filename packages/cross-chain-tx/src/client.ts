@@ -0,0 +1,307 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  createPublicClient,
+  custom,
+  erc20Abi,
+  getAddress,
+  parseEventLogs,
+  zeroAddress,
+  type Account,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+} from "viem";
+import { lzEndpointAbi, pocoOAppAbi } from "./abi.js";
+import { getChainConfig, type ChainConfig } from "@iexec/poco-lz-config";
+import { TransactionRevertedError } from "./errors.js";
+import { encodeMatchOrdersPayload } from "./orders.js";
+import { encodePocoCall, type PocoFunctionArgs, type PocoFunctionName } from "./poco.js";
+import type { MatchOrdersOrders, MessagingFee } from "./types.js";
+
+export interface CrossChainPocoClientOptions {
+  /** Source chain name in config.json, or its ChainConfig (must be a Router) */
+  sourceChain: string | ChainConfig;
+  /** Wallet sending routeCall transactions (must have an account and a chain) */
+  walletClient: WalletClient;
+  /** Client for reads; defaults to the wallet's own transport */
+  publicClient?: PublicClient;
+}
+
+export interface QuoteCallParams {
+  selector: Hex;
+  payload: Hex;
+  options: Hex;
+  payInLzToken?: boolean;
+}
+
+export interface RouteCallParams {
+  selector: Hex;
+  payload: Hex;
+  options: Hex;
+  /** Fee to pay; quoted on the fly when omitted. A non-zero lzTokenFee pays in lzToken */
+  fee?: MessagingFee;
+  /** Quote the fee in lzToken when fee is omitted */
+  payInLzToken?: boolean;
+  /** Receives excess LayerZero fees; defaults to the wallet account */
+  refundAddress?: Address;
+}
+
+export interface FeeQuotes {
+  /** Whole fee in native tokens */
+  native: MessagingFee;
+  /** Fee paid partly in lzToken (ZRO); undefined when the endpoint has no lzToken */
+  lzToken?: MessagingFee;
+}
+
+export interface LzTokenAllowance {
+  token: Address;
+  balance: bigint;
+  /** Amount the PocoOApp may pull from the account */
+  allowance: bigint;
+}
+
+export interface RouteCallReceipt {
+  receipt: TransactionReceipt;
+  /** LayerZero GUID emitted in CrossChainCallInitiated, also emitted on the receiver */
+  guid: Hash;
+  /** LayerZero nonce emitted in CrossChainCallInitiated */
+  nonce: bigint;
+}
+
+/**
+ * Client for routing PoCo calls through a PocoOApp Router
+ *
+ * Wraps quoteCall/routeCall on the source chain so services can trigger
+ * cross-chain deals without going through the matchorder script.
+ */
+export class CrossChainPocoClient {
+  readonly chainConfig: ChainConfig;
+  readonly pocoOAppAddress: Address;
+  readonly walletClient: WalletClient;
+  readonly publicClient: PublicClient;
+
+  constructor({ sourceChain, walletClient, publicClient }: CrossChainPocoClientOptions) {
+    this.chainConfig =
+      typeof sourceChain === "string" ? getChainConfig(sourceChain) : sourceChain;
+
+    if (this.chainConfig.mode !== "Router") {
+      throw new Error("Source chain is not configured as a Router");
+    }
+    if (!this.chainConfig.pocoOAppAddress) {
+      throw new Error("pocoOAppAddress is not configured for the source chain");
+    }
+
+    this.pocoOAppAddress = this.chainConfig.pocoOAppAddress as Address;
+    this.walletClient = walletClient;
+    this.publicClient =
+      publicClient ??
+      createPublicClient({
+        chain: walletClient.chain,
+        transport: custom({ request: walletClient.request }),
+      });
+  }
+
+  /**
+   * Account used to sign routeCall transactions
+   */
+  get account(): Account {
+    if (!this.walletClient.account) {
+      throw new Error("Wallet client has no account");
+    }
+    return this.walletClient.account;
+  }
+
+  /**
+   * Encode signed orders into the matchOrders payload expected by routeCall
+   */
+  buildMatchOrdersPayload(orders: MatchOrdersOrders): Hex {
+    return encodeMatchOrdersPayload(orders);
+  }
+
+  /**
+   * Quote the LayerZero fee for routing a call to the receiver chain
+   */
+  async quoteCall({
+    selector,
+    payload,
+    options,
+    payInLzToken = false,
+  }: QuoteCallParams): Promise<MessagingFee> {
+    const fee = await this.publicClient.readContract({
+      address: this.pocoOAppAddress,
+      abi: pocoOAppAbi,
+      functionName: "quoteCall",
+      args: [selector, payload, options, payInLzToken],
+    });
+    return { nativeFee: fee.nativeFee, lzTokenFee: fee.lzTokenFee };
+  }
+
+  /**
+   * Quote the LayerZero fee for routing a PoCo function call, encoded from
+   * the PoCo ABI
+   */
+  async quotePocoCall<F extends PocoFunctionName>(
+    functionName: F,
+    args: PocoFunctionArgs<F>,
+    params: Omit<QuoteCallParams, "selector" | "payload">
+  ): Promise<MessagingFee> {
+    return this.quoteCall({ ...encodePocoCall(functionName, args), ...params });
+  }
+
+  /**
+   * Quote the fee in native tokens and, when the endpoint supports it, in lzToken
+   */
+  async quoteFees(params: Omit<QuoteCallParams, "payInLzToken">): Promise<FeeQuotes> {
+    const native = await this.quoteCall(params);
+    if (!(await this.getLzToken())) {
+      return { native };
+    }
+    return { native, lzToken: await this.quoteCall({ ...params, payInLzToken: true }) };
+  }
+
+  /**
+   * lzToken (ZRO) configured on the source endpoint, undefined when unset
+   */
+  async getLzToken(): Promise<Address | undefined> {
+    const token = await this.publicClient.readContract({
+      address: this.chainConfig.lzEndpointAddress as Address,
+      abi: lzEndpointAbi,
+      functionName: "lzToken",
+    });
+    return token === zeroAddress ? undefined : getAddress(token);
+  }
+
+  /**
+   * lzToken balance of the account and its allowance to the PocoOApp
+   */
+  async getLzTokenAllowance(): Promise<LzTokenAllowance> {
+    const token = await this.getLzToken();
+    if (!token) {
+      throw new Error("The source endpoint has no lzToken, pay the fee in native tokens");
+    }
+
+    const [balance, allowance] = await Promise.all([
+      this.publicClient.readContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [this.account.address],
+      }),
+      this.publicClient.readContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [this.account.address, this.pocoOAppAddress],
+      }),
+    ]);
+    return { token, balance, allowance };
+  }
+
+  /**
+   * Let the PocoOApp pull lzTokenFee from the account
+   * @returns The approval transaction hash, undefined when the allowance already covers it
+   */
+  async approveLzToken(lzTokenFee: bigint): Promise<Hash | undefined> {
+    const { token, balance, allowance } = await this.getLzTokenAllowance();
+    if (balance < lzTokenFee) {
+      throw new Error(`Insufficient lzToken balance: ${balance} < ${lzTokenFee}`);
+    }
+    if (allowance >= lzTokenFee) {
+      return undefined;
+    }
+
+    const hash = await this.walletClient.writeContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [this.pocoOAppAddress, lzTokenFee],
+      account: this.account,
+      chain: this.walletClient.chain,
+    });
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new TransactionRevertedError(hash);
+    }
+    return hash;
+  }
+
+  /**
+   * Send a routeCall transaction and return its hash
+   *
+   * Fees with a lzTokenFee go through routeCallPayInLzToken, which needs
+   * approveLzToken first.
+   */
+  async routeCall({
+    selector,
+    payload,
+    options,
+    fee,
+    payInLzToken = false,
+    refundAddress,
+  }: RouteCallParams): Promise<Hash> {
+    const messagingFee =
+      fee ?? (await this.quoteCall({ selector, payload, options, payInLzToken }));
+    const refund = refundAddress ?? this.account.address;
+
+    if (messagingFee.lzTokenFee > 0n) {
+      return this.walletClient.writeContract({
+        address: this.pocoOAppAddress,
+        abi: pocoOAppAbi,
+        functionName: "routeCallPayInLzToken",
+        args: [selector, payload, refund, options, messagingFee.lzTokenFee],
+        value: messagingFee.nativeFee,
+        account: this.account,
+        chain: this.walletClient.chain,
+      });
+    }
+
+    return this.walletClient.writeContract({
+      address: this.pocoOAppAddress,
+      abi: pocoOAppAbi,
+      functionName: "routeCall",
+      args: [selector, payload, refund, options],
+      value: messagingFee.nativeFee,
+      account: this.account,
+      chain: this.walletClient.chain,
+    });
+  }
+
+  /**
+   * Route a PoCo function call, type-checked and encoded from the PoCo ABI
+   *
+   * e.g. `routePocoCall("matchOrders", toMatchOrdersArgs(orders), { options })`
+   */
+  async routePocoCall<F extends PocoFunctionName>(
+    functionName: F,
+    args: PocoFunctionArgs<F>,
+    params: Omit<RouteCallParams, "selector" | "payload">
+  ): Promise<Hash> {
+    return this.routeCall({ ...encodePocoCall(functionName, args), ...params });
+  }
+
+  /**
+   * Wait for a routeCall transaction and extract its LayerZero GUID and nonce
+   */
+  async waitForReceipt(hash: Hash): Promise<RouteCallReceipt> {
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new TransactionRevertedError(hash);
+    }
+
+    const [initiated] = parseEventLogs({
+      abi: pocoOAppAbi,
+      eventName: "CrossChainCallInitiated",
+      logs: receipt.logs,
+    });
+    if (!initiated) {
+      throw new Error(`No CrossChainCallInitiated event found in transaction ${hash}`);
+    }
+
+    return { receipt, guid: initiated.args.guid, nonce: initiated.args.nonce };
+  }
+}
@@ -0,0 +1,162 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { parseArgs } from "node:util";
+
+/**
+ * Process exit codes, stable for CI jobs
+ */
+export const ExitCode = {
+  Success: 0,
+  /** Runtime error (RPC, configuration, signing...) */
+  Failure: 1,
+  /** Invalid command line */
+  Usage: 2,
+  /** Transaction mined but reverted */
+  TxReverted: 3,
+  /** Message executed on the destination chain but reverted */
+  DeliveryFailed: 4,
+  /** Message or deal tasks still pending when the wait timed out */
+  DeliveryPending: 5,
+  /** Deal tasks failed or timed out */
+  TaskFailed: 6,
+} as const;
+
+/**
+ * Thrown for invalid command lines; reported with the command help
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export interface CommandOption {
+  type: "string" | "boolean";
+  short?: string;
+  description: string;
+  /** Placeholder shown in help for string options */
+  valueName?: string;
+  /** Accept the option several times; its value is then a string array */
+  multiple?: boolean;
+  default?: string | boolean;
+}
+
+export interface ParsedArgs {
+  values: Record<string, string | boolean | string[] | undefined>;
+  positionals: string[];
+}
+
+export interface Command {
+  name: string;
+  summary: string;
+  /** Positional arguments shown in usage, e.g. "<txHash>" */
+  arguments?: string;
+  options: Record<string, CommandOption>;
+  /** Resolves to the process exit code (defaults to success) */
+  run(args: ParsedArgs): Promise<number | void>;
+}
+
+/**
+ * Parse argv for a command, rejecting unknown flags
+ */
+export function parseCommandArgs(command: Command, argv: string[]): ParsedArgs {
+  const options = Object.fromEntries(
+    Object.entries(command.options).map(([name, option]) => [
+      name,
+      {
+        type: option.type,
+        ...(option.short && { short: option.short }),
+        ...(option.multiple && { multiple: true }),
+        ...(option.default !== undefined && { default: option.default }),
+      },
+    ])
+  );
+
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      options: { ...options, help: { type: "boolean", short: "h" } },
+      allowPositionals: true,
+      strict: true,
+    });
+    return { values, positionals };
+  } catch (error: any) {
+    throw new UsageError(error.message);
+  }
+}
+
+/**
+ * Format the --help text of a command
+ */
+export function formatCommandHelp(binName: string, command: Command): string {
+  const lines = [
+    command.summary,
+    "",
+    "Usage:",
+    `  ${binName} ${command.name}${command.arguments ? ` ${command.arguments}` : ""} [options]`,
+    "",
+    "Options:",
+  ];
+
+  const entries = Object.entries(command.options).map(([name, option]) => {
+    const flag = `${option.short ? `-${option.short}, ` : "    "}--${name}${
+      option.type === "string" ? ` <${option.valueName ?? "value"}>` : ""
+    }`;
+    const defaultText =
+      option.default !== undefined ? ` (default: ${option.default})` : "";
+    const repeatText = option.multiple ? " (repeatable)" : "";
+    return [flag, `${option.description}${defaultText}${repeatText}`];
+  });
+  entries.push(["-h, --help", "Show this help"]);
+
+  const width = Math.max(...entries.map(([flag]) => flag.length));
+  for (const [flag, description] of entries) {
+    lines.push(`  ${flag.padEnd(width)}  ${description}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Read a required string option
+ */
+export function requireString(args: ParsedArgs, name: string): string {
+  const value = args.values[name];
+  if (typeof value !== "string" || value === "") {
+    throw new UsageError(`Missing required option --${name}`);
+  }
+  return value;
+}
+
+/**
+ * Read an optional string option
+ */
+export function optionalString(args: ParsedArgs, name: string): string | undefined {
+  const value = args.values[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Read a repeatable string option; empty when not given
+ */
+export function optionalStrings(args: ParsedArgs, name: string): string[] {
+  const value = args.values[name];
+  return Array.isArray(value) ? value : typeof value === "string" ? [value] : [];
+}
+
+/**
+ * Read an optional integer option as bigint
+ */
+export function optionalBigInt(args: ParsedArgs, name: string): bigint | undefined {
+  const value = optionalString(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  try {
+    return BigInt(value);
+  } catch {
+    throw new UsageError(`Option --${name} must be an integer, got "${value}"`);
+  }
+}
@@ -0,0 +1,87 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { encodeAbiParameters, toFunctionSelector } from "viem";
+import { LzOptions } from "@iexec/lz-options";
+import { requireString, type Command } from "./command.js";
+import {
+  createSourceContext,
+  formatGasLimit,
+  gasMarginOption,
+  gasOption,
+  layerZeroScanUrl,
+  loadAccount,
+  parseHex,
+  payInLzTokenOption,
+  resolveGasLimit,
+  selectFee,
+  sourceOption,
+} from "./shared.js";
+
+/**
+ * Build a command routing a `<functionName>(bytes)` call to PoCo
+ */
+function createBytesCallCommand(name: string, functionName: string, summary: string): Command {
+  const selector = toFunctionSelector(`${functionName}(bytes)`);
+
+  return {
+    name,
+    summary,
+    options: {
+      source: sourceOption,
+      data: {
+        type: "string",
+        valueName: "hex",
+        description: `Bytes argument passed to ${functionName}`,
+      },
+      gas: gasOption,
+      "gas-margin": gasMarginOption,
+      "pay-in-lz-token": payInLzTokenOption,
+    },
+    async run(args) {
+      const sourceChain = requireString(args, "source");
+      const data = parseHex(requireString(args, "data"), "--data");
+
+      const account = loadAccount();
+      const { config, client } = createSourceContext(sourceChain, account);
+      const payload = encodeAbiParameters([{ type: "bytes" }], [data]);
+
+      console.log(`🚀 Routing ${functionName}(bytes) from ${sourceChain}...`);
+      const gas = await resolveGasLimit(args, {
+        sourceChain,
+        config,
+        selector,
+        payload,
+        caller: account.address,
+      });
+      console.log(`  Gas limit: ${formatGasLimit(gas)}`);
+      const options = LzOptions.newOptions().addExecutorLzReceiveOption(gas.gasLimit).toHex();
+      const fee = await selectFee(
+        client,
+        { selector, payload, options },
+        args.values["pay-in-lz-token"] === true
+      );
+
+      const hash = await client.routeCall({ selector, payload, options, fee });
+      console.log(`  Transaction hash: ${hash}`);
+
+      const { receipt, nonce } = await client.waitForReceipt(hash);
+      console.log("✅ Transaction confirmed!");
+      console.log(`  Block: ${receipt.blockNumber}`);
+      console.log(`  LayerZero nonce: ${nonce}`);
+      console.log(`  LayerZero Scan: ${layerZeroScanUrl(hash, config.stage)}`);
+    },
+  };
+}
+
+export const createAppCommand = createBytesCallCommand(
+  "create-app",
+  "createApp",
+  "Route a createApp(bytes) call to PoCo on the receiver chain"
+);
+
+export const createDatasetCommand = createBytesCallCommand(
+  "create-dataset",
+  "createDataset",
+  "Route a createDataset(bytes) call to PoCo on the receiver chain"
+);
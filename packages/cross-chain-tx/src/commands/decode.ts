@@ -0,0 +1,174 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { readFileSync } from "node:fs";
+import type { Hex } from "viem";
+import { decodeLzOptions, verifierOptionName } from "@iexec/lz-options";
+import {
+  decodeCrossChainCallInitiatedLog,
+  decodeRouteCallTransaction,
+  decodeRoutedMessage,
+  type DecodedRoutedMessage,
+  type UndecodableMessage,
+} from "../decoder.js";
+import {
+  UsageError,
+  optionalString,
+  requireString,
+  type Command,
+  type ParsedArgs,
+} from "./command.js";
+import { createSourceContext, jsonOption, parseHex, sourceOption, toJson } from "./shared.js";
+
+/**
+ * Decode the message given with --tx, --log or --message
+ */
+async function decodeMessageInput(
+  args: ParsedArgs
+): Promise<DecodedRoutedMessage | UndecodableMessage> {
+  const tx = optionalString(args, "tx");
+  if (tx !== undefined) {
+    const hash = parseHex(tx, "--tx");
+    const { publicClient } = createSourceContext(requireString(args, "source"));
+    return decodeRouteCallTransaction(publicClient, hash);
+  }
+
+  const log = optionalString(args, "log");
+  if (log !== undefined) {
+    // Inline JSON or a file holding the log as returned by eth_getLogs
+    const json = log.trimStart().startsWith("{") ? log : readFileSync(log, "utf8");
+    const { topics, data } = JSON.parse(json);
+    if (!Array.isArray(topics) || topics.length === 0 || typeof data !== "string") {
+      throw new UsageError("--log must be a log object with topics and data");
+    }
+    return decodeCrossChainCallInitiatedLog({
+      topics: topics.map((topic: string) => parseHex(topic, "--log topic")) as [Hex, ...Hex[]],
+      data: parseHex(data, "--log data"),
+    });
+  }
+
+  const message = parseHex(requireString(args, "message"), "--message");
+  try {
+    return decodeRoutedMessage(message);
+  } catch (error: any) {
+    return { message, decodeError: error.shortMessage ?? error.message };
+  }
+}
+
+/**
+ * Print a decoded value, one field per line, nesting structs
+ */
+function printValue(name: string, value: unknown, indent: string): void {
+  if (typeof value === "object" && value !== null) {
+    console.log(`${indent}${name}:`);
+    for (const [key, field] of Object.entries(value)) {
+      printValue(key, field, `${indent}  `);
+    }
+    return;
+  }
+  console.log(`${indent}${name}: ${String(value)}`);
+}
+
+/**
+ * Print a decoded routed message and its PoCo call
+ */
+export function printRoutedMessage(message: DecodedRoutedMessage | UndecodableMessage): void {
+  console.log("📨 PoCo message");
+  if (message.guid) {
+    console.log(`  GUID:            ${message.guid}`);
+    console.log(`  LayerZero nonce: ${message.nonce}`);
+  }
+  if (!("call" in message)) {
+    console.log(`  Message:         ${message.message}`);
+    console.log(`  Decode error:    ${message.decodeError}`);
+    return;
+  }
+  const { call } = message;
+  console.log(`  Source chain ID: ${message.sourceChainId}`);
+  console.log(`  Caller:          ${message.caller}`);
+  console.log(
+    `  Function:        ${call.functionName ?? "unknown PoCo function"} (${call.selector})`
+  );
+  if (!call.args) {
+    console.log(`  Payload:         ${message.payload}`);
+    if (call.decodeError) {
+      console.log(`  Decode error:    ${call.decodeError}`);
+    }
+    return;
+  }
+  for (const [name, value] of Object.entries(call.args)) {
+    printValue(name, value, "  ");
+  }
+}
+
+export const decodeCommand: Command = {
+  name: "decode",
+  summary: "Decode LayerZero Type-3 options or a routed PoCo message",
+  arguments: "[<options>]",
+  options: {
+    tx: {
+      type: "string",
+      valueName: "hash",
+      description: "Decode the message of a routeCall transaction (needs --source)",
+    },
+    source: sourceOption,
+    log: {
+      type: "string",
+      valueName: "json|file",
+      description: "Decode a CrossChainCallInitiated log ({ topics, data })",
+    },
+    message: {
+      type: "string",
+      valueName: "hex",
+      description: "Decode a raw LayerZero message or PacketSent packet",
+    },
+    json: jsonOption,
+  },
+  async run(args) {
+    const [value] = args.positionals;
+    const inputs = [value, args.values.tx, args.values.log, args.values.message].filter(
+      (input) => input !== undefined
+    );
+    if (inputs.length !== 1) {
+      throw new UsageError("Pass exactly one of <options>, --tx, --log or --message");
+    }
+
+    if (!value) {
+      const message = await decodeMessageInput(args);
+      if (args.values.json) {
+        console.log(toJson(message));
+      } else {
+        printRoutedMessage(message);
+      }
+      return;
+    }
+
+    const decoded = decodeLzOptions(parseHex(value, "options"));
+
+    if (args.values.json) {
+      console.log(toJson(decoded));
+      return;
+    }
+
+    console.log(`🔎 LayerZero options (type ${decoded.type})`);
+    if (decoded.lzReceive) {
+      console.log(`  lzReceive:          gas=${decoded.lzReceive.gas} value=${decoded.lzReceive.value}`);
+    }
+    for (const drop of decoded.nativeDrops) {
+      console.log(`  nativeDrop:         amount=${drop.amount} receiver=${drop.receiver}`);
+    }
+    for (const compose of decoded.compose) {
+      console.log(
+        `  lzCompose:          index=${compose.index} gas=${compose.gas} value=${compose.value}`
+      );
+    }
+    if (decoded.orderedExecution) {
+      console.log("  orderedExecution:   enabled");
+    }
+    for (const option of decoded.verifier) {
+      console.log(
+        `  verifier:           dvn=${option.dvnIdx} ${verifierOptionName(option.optionType)} ${option.option}`
+      );
+    }
+  },
+};
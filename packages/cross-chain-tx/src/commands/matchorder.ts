@@ -0,0 +1,669 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Cross-chain matchOrders command
+ *
+ * Creates and signs iExec orders, then sends them cross-chain from any source
+ * chain (Sepolia, Base Sepolia, etc.) to its configured destination chain using LayerZero OApp contracts.
+ */
+
+import { writeFileSync } from "node:fs";
+import { recoverAddress, zeroAddress, type Address } from "viem";
+import { LzOptions } from "@iexec/lz-options";
+import { getExplorerTxUrl } from "../chains.js";
+import { loadConfig, getChainConfig } from "@iexec/poco-lz-config";
+import { resolveAppOrder } from "../app.js";
+import {
+  DEFAULT_BUNDLE_TTL_SECONDS,
+  createOrderBundle,
+  serializeOrderBundle,
+} from "../bundle.js";
+import { EMPTY_DATASET_ORDER, fetchDatasetOrder, signDatasetOrder } from "../dataset.js";
+import {
+  buildRequestParams,
+  loadJobFile,
+  resolveJob,
+  type Job,
+  type JobSpec,
+} from "../job.js";
+import { toMatchOrdersArgs } from "../orders.js";
+import { encodePocoCall } from "../poco.js";
+import { checkSponsorship } from "../sponsor.js";
+import { WORKERPOOL_STRATEGIES, selectWorkerpoolOrder } from "../workerpool.js";
+import { CrossChainTracker } from "../tracker.js";
+import type { DatasetOrder } from "../types.js";
+import {
+  UsageError,
+  requireString,
+  optionalString,
+  optionalStrings,
+  type Command,
+  type ParsedArgs,
+} from "./command.js";
+import {
+  createIExec,
+  dealExitCode,
+  followDeal,
+  outputOption,
+  taskTimeoutOption,
+} from "./results.js";
+import {
+  createSourceContext,
+  formatGasLimit,
+  gasMarginOption,
+  gasOption,
+  layerZeroScanUrl,
+  loadAccount,
+  loadPrivateKey,
+  payInLzTokenOption,
+  resolveGasLimit,
+  selectFee,
+  sourceOption,
+} from "./shared.js";
+import {
+  deliveryExitCode,
+  followDelivery,
+  intervalOption,
+  parseWaitOptions,
+  timeoutOption,
+} from "./track.js";
+
+/**
+ * Job from the job file (--job or POCO_LZ_JOB), then env, then command line
+ * flags, each overriding the previous one
+ */
+function loadJob(args: ParsedArgs): Job {
+  const jobFile = optionalString(args, "job") ?? process.env.POCO_LZ_JOB;
+  const fileSpec = jobFile ? loadJobFile(jobFile) : {};
+
+  const secrets: Record<string, string> = {};
+  for (const secret of optionalStrings(args, "secret")) {
+    const [index, name] = secret.split("=", 2);
+    if (!name) {
+      throw new UsageError(`--secret must be <index>=<name>, got "${secret}"`);
+    }
+    secrets[index] = name;
+  }
+  const tag = optionalString(args, "tag");
+  const allowlist = optionalString(args, "workerpool-allowlist");
+  const inputFiles = optionalStrings(args, "input-file");
+  const cliSpec: JobSpec = {
+    app: optionalString(args, "app"),
+    appMaxPrice: optionalString(args, "app-max-price"),
+    dataset: optionalString(args, "dataset"),
+    datasetMaxPrice: optionalString(args, "dataset-max-price"),
+    workerpoolMaxPrice: optionalString(args, "workerpool-max-price"),
+    workerpoolStrategy: optionalString(args, "workerpool-strategy"),
+    workerpool: optionalString(args, "workerpool"),
+    workerpoolAllowlist: allowlist === undefined ? undefined : allowlist.split(",").filter(Boolean),
+    args: optionalString(args, "args"),
+    inputFiles: inputFiles.length > 0 ? inputFiles : undefined,
+    secrets: Object.keys(secrets).length > 0 ? secrets : undefined,
+    beneficiary: optionalString(args, "beneficiary"),
+    callback: optionalString(args, "callback"),
+    tag: tag === undefined ? undefined : tag.split(",").filter(Boolean),
+    volume: optionalString(args, "volume"),
+    category: optionalString(args, "category"),
+    trust: optionalString(args, "trust"),
+  };
+
+  try {
+    return resolveJob(fileSpec, { app: process.env.APP_ADDRESS || undefined }, cliSpec);
+  } catch (error: any) {
+    throw new UsageError(error.message);
+  }
+}
+
+export const matchorderCommand: Command = {
+  name: "matchorder",
+  summary: "Create, sign and route iExec matchOrders to the receiver chain",
+  options: {
+    source: sourceOption,
+    gas: gasOption,
+    "gas-margin": gasMarginOption,
+    "pay-in-lz-token": payInLzTokenOption,
+    job: {
+      type: "string",
+      valueName: "file",
+      description: "JSON or YAML job file; flags override its fields (default: POCO_LZ_JOB)",
+    },
+    app: {
+      type: "string",
+      valueName: "address",
+      description: "iExec app to run on the receiver chain (default: APP_ADDRESS or the demo app)",
+    },
+    args: {
+      type: "string",
+      valueName: "args",
+      description: "Command line arguments of the app",
+    },
+    "input-file": {
+      type: "string",
+      valueName: "url",
+      description: "File downloaded into the task input folder",
+      multiple: true,
+    },
+    secret: {
+      type: "string",
+      valueName: "index=name",
+      description: "Requester secret provided to the app at this index",
+      multiple: true,
+    },
+    beneficiary: {
+      type: "string",
+      valueName: "address",
+      description: "Receiver of the results (default: your wallet)",
+    },
+    callback: {
+      type: "string",
+      valueName: "address",
+      description: "Contract called with the task result",
+    },
+    tag: {
+      type: "string",
+      valueName: "tags",
+      description: "Comma-separated requested tags (default: tee,scone)",
+    },
+    volume: {
+      type: "string",
+      valueName: "count",
+      description: "Number of tasks (default: 1)",
+    },
+    category: {
+      type: "string",
+      valueName: "id",
+      description: "Workerpool category (default: 0)",
+    },
+    trust: {
+      type: "string",
+      valueName: "level",
+      description: "Minimum trust level (default: 0)",
+    },
+    "app-max-price": {
+      type: "string",
+      valueName: "nRLC",
+      description: "Highest app price accepted (default: 0)",
+    },
+    "workerpool-max-price": {
+      type: "string",
+      valueName: "nRLC",
+      description: "Highest workerpool price accepted (default: any)",
+    },
+    "workerpool-strategy": {
+      type: "string",
+      valueName: "strategy",
+      description: `Workerpool order selection: ${WORKERPOOL_STRATEGIES.join(", ")} (default: cheapest)`,
+    },
+    workerpool: {
+      type: "string",
+      valueName: "address",
+      description: "Pin this workerpool (selects the pinned strategy)",
+    },
+    "workerpool-allowlist": {
+      type: "string",
+      valueName: "addresses",
+      description: "Comma-separated trusted workerpools (selects the allowlist strategy)",
+    },
+    dataset: {
+      type: "string",
+      valueName: "address",
+      description: "iExec dataset to process; its order is fetched from the orderbook",
+    },
+    "dataset-max-price": {
+      type: "string",
+      valueName: "nRLC",
+      description: "Highest dataset price accepted (default: 0)",
+    },
+    "sign-dataset-order": {
+      type: "boolean",
+      description:
+        "Sign the dataset order with DATASET_OWNER_PRIVATE_KEY (or PRIVATE_KEY) instead of fetching it",
+    },
+    sponsored: {
+      type: "boolean",
+      description:
+        "Route sponsorMatchOrders: your sponsor pays the deal from the sponsor vault (see `sponsor`)",
+    },
+    export: {
+      type: "string",
+      valueName: "file",
+      description: "Write the signed orders to an order bundle for `submit` instead of routing them",
+    },
+    "bundle-ttl": {
+      type: "string",
+      valueName: "seconds",
+      description: "Validity of the exported order bundle",
+      default: String(DEFAULT_BUNDLE_TTL_SECONDS),
+    },
+    "no-wait": {
+      type: "boolean",
+      description: "Exit once the source transaction is confirmed",
+    },
+    timeout: timeoutOption,
+    output: outputOption,
+    "task-timeout": taskTimeoutOption,
+    interval: intervalOption,
+  },
+  async run(args) {
+    const sourceChain = requireString(args, "source");
+    const job = loadJob(args);
+    if (!job.dataset && args.values["sign-dataset-order"]) {
+      throw new UsageError("--sign-dataset-order requires a dataset");
+    }
+    const waitOptions = parseWaitOptions(args);
+    const dealWaitOptions = parseWaitOptions(args, "task-timeout");
+    const outputDir = optionalString(args, "output");
+    if (outputDir && args.values["no-wait"]) {
+      throw new UsageError("--output cannot be combined with --no-wait");
+    }
+    const exportPath = optionalString(args, "export");
+    if (exportPath && outputDir) {
+      throw new UsageError("--output cannot be combined with --export");
+    }
+    const bundleTtl = Number(optionalString(args, "bundle-ttl") ?? DEFAULT_BUNDLE_TTL_SECONDS);
+    if (!Number.isInteger(bundleTtl) || bundleTtl <= 0) {
+      throw new UsageError("Option --bundle-ttl must be a positive number of seconds");
+    }
+
+    // ==================================================================
+    // STEP 1: Load configuration
+    // ==================================================================
+    const config = loadConfig();
+    const sourceChainConfig = getChainConfig(sourceChain, config);
+
+    if (sourceChainConfig.mode !== "Router") {
+      throw new Error(`Chain ${sourceChain} is not configured as a Router`);
+    }
+
+    const destinationChain = sourceChainConfig.destinationChain;
+    if (!destinationChain) {
+      throw new Error(`Destination chain not configured for router ${sourceChain}`);
+    }
+    const destinationConfig = getChainConfig(destinationChain, config);
+
+    if (destinationConfig.mode !== "Receiver") {
+      throw new Error(`${destinationChain} is not configured as a Receiver`);
+    }
+
+    const sponsored = args.values.sponsored === true;
+    const functionName = sponsored ? "sponsorMatchOrders" : "matchOrders";
+
+    console.log(
+      `\n🚀 Starting cross-chain ${functionName} from ${sourceChain} to ${destinationChain}...\n`
+    );
+    console.log("📋 Loading configuration...");
+    console.log(`  Profile:           ${config.profile} (${config.stage})`);
+    console.log(`  Source chain:      ${sourceChain} (Router)`);
+    console.log(`  Destination chain: ${destinationChain} (Receiver)`);
+    console.log(`  Source PocoOApp:   ${sourceChainConfig.pocoOAppAddress}`);
+    console.log(`  Dest PocoOApp:     ${destinationConfig.pocoOAppAddress}`);
+    console.log(`  PoCo contract:     ${destinationConfig.pocoAddress}\n`);
+
+    // ==================================================================
+    // STEP 2: Setup wallets and clients
+    // ==================================================================
+    console.log("🔐 Setting up wallets and clients...");
+
+    const account = loadAccount();
+    const { client } = createSourceContext(sourceChain, account);
+    console.log(`  Account: ${account.address}`);
+
+    // Setup iExec SDK for the destination chain (where orders are executed)
+    const iexec = createIExec(destinationConfig, loadPrivateKey());
+
+    console.log(`🔑 iExec SDK initialized with wallet: ${account.address}`);
+
+    // Verify iExec SDK is using the correct PoCo contract
+    console.log("\n🔍 Verifying iExec configuration...");
+    const iexecDomain = await iexec.config.resolveContractsClient();
+    console.log(`  PoCo Hub Address: ${iexecDomain.hubAddress}`);
+
+    const expectedPocoAddress = destinationConfig.pocoAddress || "";
+    if (
+      iexecDomain.hubAddress.toLowerCase() !== expectedPocoAddress.toLowerCase()
+    ) {
+      throw new Error(
+        `❌ iExec SDK is using wrong PoCo contract!\n` +
+          `  SDK expects: ${iexecDomain.hubAddress}\n` +
+          `  Config has:  ${expectedPocoAddress}\n\n` +
+          `💡 The iExec SDK will automatically use the correct EIP712 domain for this contract.`
+      );
+    }
+
+    console.log(
+      `  ✅ iExec SDK will sign orders with correct PoCo contract (chain ${destinationConfig.chainId})`
+    );
+    console.log(
+      `  📝 EIP712 domain separator will be automatically computed by iExec SDK\n`
+    );
+
+    // ==================================================================
+    // STEP 3: Create and sign iExec orders
+    // ==================================================================
+    console.log("📝 Creating and signing iExec orders...");
+    console.log(
+      "⚠️  WARNING: This may take a while if using public RPC endpoints...\n"
+    );
+
+    console.log("📱 Fetching app order from marketplace...");
+    const resolvedApporder = await resolveAppOrder(iexec, {
+      app: job.app,
+      requester: account.address,
+      dataset: job.dataset,
+      tag: job.tag,
+      volume: job.volume,
+      maxPrice: job.appMaxPrice,
+    });
+    const signedApporder = resolvedApporder.order;
+    if (resolvedApporder.selfSigned) {
+      console.log(`✓ No published order within the max price, signed one as the app owner\n`);
+    } else {
+      console.log(`✓ App order found: ${signedApporder.app}`);
+      console.log(`  Price: ${signedApporder.appprice} nRLC`);
+      console.log(`  Remaining volume: ${resolvedApporder.remaining}\n`);
+    }
+
+    let signedDatasetorder: DatasetOrder = { ...EMPTY_DATASET_ORDER, volume: job.volume };
+    if (!job.dataset) {
+      console.log("✓ No dataset, using an empty dataset order\n");
+    } else if (args.values["sign-dataset-order"]) {
+      console.log("Signing dataset order with the dataset owner key...");
+      const ownerIexec = createIExec(
+        destinationConfig,
+        process.env.DATASET_OWNER_PRIVATE_KEY || loadPrivateKey()
+      );
+      signedDatasetorder = await signDatasetOrder(ownerIexec, {
+        dataset: job.dataset,
+        app: job.app,
+        requester: account.address,
+        tag: job.tag,
+        volume: job.volume,
+      });
+      console.log(`✓ Dataset order signed for ${job.dataset}\n`);
+    } else {
+      console.log("📂 Fetching dataset order from marketplace...");
+      const published = await fetchDatasetOrder(iexec, {
+        dataset: job.dataset,
+        app: job.app,
+        requester: account.address,
+        tag: job.tag,
+        volume: job.volume,
+        maxPrice: job.datasetMaxPrice,
+      });
+      signedDatasetorder = published.order;
+      console.log(`✓ Dataset order found: ${signedDatasetorder.dataset}`);
+      console.log(`  Price: ${signedDatasetorder.datasetprice} nRLC`);
+      console.log(`  Remaining volume: ${published.remaining}\n`);
+    }
+    const datasetWorkerpool =
+      signedDatasetorder.workerpoolrestrict !== zeroAddress
+        ? (signedDatasetorder.workerpoolrestrict as Address)
+        : undefined;
+
+    // Fetch workerpool order from marketplace
+    console.log("🏊 Selecting workerpool order from marketplace...");
+    const publishedWorkerpoolorder = await selectWorkerpoolOrder(
+      iexec,
+      {
+        app: job.app,
+        dataset: job.dataset,
+        requester: account.address,
+        tag: job.tag,
+        category: job.category,
+        trust: job.trust,
+        volume: job.volume,
+        datasetWorkerpool,
+      },
+      {
+        strategy: job.workerpoolStrategy,
+        maxPrice: job.workerpoolMaxPrice,
+        workerpool: job.workerpool,
+        allowlist: job.workerpoolAllowlist,
+      }
+    );
+    const workerpoolorder = publishedWorkerpoolorder.order;
+    console.log(`✓ Workerpool order found: ${workerpoolorder.workerpool}`);
+    console.log(`  Price: ${workerpoolorder.workerpoolprice} nRLC`);
+    console.log(`  Remaining volume: ${publishedWorkerpoolorder.remaining}`);
+    console.log(`  Category: ${workerpoolorder.category}`);
+    console.log(`  Tag: ${workerpoolorder.tag}`);
+    console.log(`  Selected: ${publishedWorkerpoolorder.explanation}\n`);
+
+    console.log("📝 Creating and signing request order...");
+    const requestorder = await iexec.order.createRequestorder({
+      app: job.app,
+      appmaxprice: job.appMaxPrice.toString(),
+      dataset: signedDatasetorder.dataset as Address,
+      datasetmaxprice: signedDatasetorder.datasetprice.toString(),
+      workerpool: workerpoolorder.workerpool,
+      workerpoolmaxprice: workerpoolorder.workerpoolprice.toString(),
+      requester: account.address,
+      volume: job.volume,
+      tag: job.tag,
+      category: Number(workerpoolorder.category),
+      trust: job.trust,
+      beneficiary: job.beneficiary ?? account.address,
+      callback: job.callback,
+      params: JSON.stringify(buildRequestParams(job)),
+    });
+    console.log(`  Requester set to: ${account.address}`);
+    const signedRequestorder = await iexec.order.signRequestorder(requestorder);
+    console.log("✓ Request order signed\n");
+
+    // Hash the request order after signing (salt is added during signing)
+    const requestorderHash = await iexec.order.hashRequestorder(
+      signedRequestorder
+    );
+
+    // Log all order details for debugging
+    const allOrders = {
+      apporder: signedApporder,
+      datasetorder: signedDatasetorder,
+      workerpoolorder: workerpoolorder,
+      requestorder: signedRequestorder,
+    };
+
+    console.log("\n📊 Order Details:");
+    console.log(`  App:              ${allOrders.apporder.app}`);
+    console.log(
+      `  Dataset:          ${allOrders.datasetorder.dataset}${
+        job.dataset ? "" : " (empty - no dataset)"
+      }`
+    );
+    console.log(
+      `  Workerpool:       ${allOrders.workerpoolorder.workerpool} (from marketplace)`
+    );
+    console.log(`  Request hash:     ${requestorderHash}`);
+    console.log(`  Request requester: ${allOrders.requestorder.requester}\n`);
+
+    // ✅ ECDSA Signature Verification
+    console.log("\n🔐 Verifying ECDSA signature...");
+    try {
+      // Recover signer address from signature
+      const recoveredAddress = await recoverAddress({
+        hash: requestorderHash as `0x${string}`,
+        signature: signedRequestorder.sign as `0x${string}`,
+      });
+
+      console.log(`  Order hash:         ${requestorderHash}`);
+      console.log(`  Signature:          ${signedRequestorder.sign}`);
+      console.log(`  Expected requester: ${signedRequestorder.requester}`);
+      console.log(`  Recovered signer:   ${recoveredAddress}`);
+      console.log(`  Account address:    ${account.address}`);
+
+      if (
+        recoveredAddress.toLowerCase() ===
+        signedRequestorder.requester.toLowerCase()
+      ) {
+        console.log(`  ✅ Signature is VALID - matches requester!`);
+      } else {
+        throw new Error(
+          `❌ Signature verification FAILED!\n` +
+            `  Expected requester: ${signedRequestorder.requester}\n` +
+            `  Recovered signer:   ${recoveredAddress}\n` +
+            `  Account address:    ${account.address}\n\n` +
+            `🔍 This means the order was signed by ${recoveredAddress} but the requester field is ${signedRequestorder.requester}.\n` +
+            `   The signature is valid, but for the WRONG address!`
+        );
+      }
+    } catch (error: any) {
+      console.error(`  ❌ ECDSA verification failed: ${error.message}`);
+      throw error;
+    }
+
+    // ==================================================================
+    // STEP 4: Encode matchOrders payload
+    // ==================================================================
+    console.log(`\n🔐 Encoding ${functionName} payload for cross-chain call...`);
+
+    const matchOrdersArgs = toMatchOrdersArgs(allOrders);
+    const matchOrdersCall = encodePocoCall(functionName, matchOrdersArgs);
+
+    console.log("✓ Payload encoded\n");
+
+    // The sponsor pays on delivery; check it before simulating the call
+    if (sponsored) {
+      console.log("🤝 Checking the sponsor balance...");
+      const sponsorship = await checkSponsorship({
+        sourceChain,
+        config,
+        caller: account.address,
+        orders: allOrders,
+      });
+      console.log(`  Vault:     ${sponsorship.vault}`);
+      console.log(`  Sponsor:   ${sponsorship.sponsor ?? "none"} (of ${account.address})`);
+      console.log(`  Deal cost: ${sponsorship.cost} nRLC`);
+      console.log(`  Balance:   ${sponsorship.balance} nRLC\n`);
+      if (!sponsorship.sponsor) {
+        throw new Error(
+          `No sponsor pays for the sponsored deals of ${account.address}\n` +
+            `💡 A sponsor offers with: poco-lz sponsor --source ${sourceChain} ` +
+            `--offer ${account.address}\n` +
+            `   then accept it with: poco-lz sponsor --source ${sourceChain} --accept <sponsor>`
+        );
+      }
+      if (!sponsorship.sufficient) {
+        throw new Error(
+          `Sponsor balance ${sponsorship.balance} nRLC does not cover the deal cost ` +
+            `${sponsorship.cost} nRLC\n` +
+            `💡 The sponsor funds it with: poco-lz sponsor --source ${sourceChain} ` +
+            `--deposit ${sponsorship.cost - sponsorship.balance}`
+        );
+      }
+    }
+
+    // ==================================================================
+    // STEP 5: Quote the cross-chain call
+    // ==================================================================
+    console.log("💰 Quoting cross-chain call...");
+
+    // Simulate the call on the destination chain unless --gas is given
+    const gas = await resolveGasLimit(args, {
+      sourceChain,
+      config,
+      ...matchOrdersCall,
+      caller: account.address,
+    });
+    console.log(`  Destination gas limit: ${formatGasLimit(gas)}`);
+
+    // Build LayerZero options with gas limit for destination execution
+    const lzOptions = LzOptions.newOptions()
+      .addExecutorLzReceiveOption(gas.gasLimit)
+      .toHex();
+
+    if (exportPath) {
+      const bundle = createOrderBundle({
+        sourceChain,
+        config,
+        orders: allOrders,
+        options: lzOptions,
+        ttlSeconds: bundleTtl,
+        sponsored,
+      });
+      writeFileSync(exportPath, serializeOrderBundle(bundle));
+      console.log(`\n📦 Order bundle written to ${exportPath}`);
+      console.log(`  Valid until: ${bundle.expiresAt}`);
+      console.log(`💡 Route it with: poco-lz submit ${exportPath}\n`);
+      return;
+    }
+
+    const fee = await selectFee(
+      client,
+      { ...matchOrdersCall, options: lzOptions },
+      args.values["pay-in-lz-token"] === true
+    );
+    console.log("");
+
+    // ==================================================================
+    // STEP 6: Send the cross-chain transaction
+    // ==================================================================
+    console.log(`🚀 Sending cross-chain ${functionName} transaction...`);
+
+    const hash = await client.routePocoCall(functionName, matchOrdersArgs, {
+      options: lzOptions,
+      fee,
+    });
+
+    console.log(`  Transaction hash: ${hash}`);
+    console.log(`  Waiting for confirmation...\n`);
+
+    const { receipt, guid, nonce } = await client.waitForReceipt(hash);
+
+    console.log("✅ Transaction confirmed!");
+    console.log(`  Block: ${receipt.blockNumber}`);
+    console.log(`  Gas used: ${receipt.gasUsed}`);
+    console.log(`  LayerZero GUID: ${guid}`);
+    console.log(`  LayerZero nonce: ${nonce}\n`);
+
+    console.log("🔗 View transaction:");
+    console.log(
+      `  Source chain (${sourceChain}): ${getExplorerTxUrl(sourceChain, hash, config)}`
+    );
+    console.log(
+      `  LayerZero Scan: ${layerZeroScanUrl(hash, config.stage)}\n`
+    );
+
+    if (args.values["no-wait"]) {
+      console.log(`💡 Follow the delivery with: poco-lz track ${hash} --source ${sourceChain}\n`);
+      return;
+    }
+
+    // ==================================================================
+    // STEP 7: Track the message until it executes on the destination
+    // ==================================================================
+    const tracker = new CrossChainTracker({ sourceChain, config });
+    const message = await tracker.getSourceMessage(hash);
+    const status = await followDelivery(tracker, message, waitOptions, config);
+    console.log("");
+    if (status.status !== "dealCreated" || !outputDir) {
+      return deliveryExitCode(status);
+    }
+
+    // ==================================================================
+    // STEP 8: Follow the deal tasks and download their results
+    // ==================================================================
+    const { progress } = await followDeal(iexec, status.dealId, {
+      ...dealWaitOptions,
+      outputDir,
+    });
+    console.log("");
+    return dealExitCode(progress);
+  },
+};
+
+// run always routes, so it cannot export a bundle
+const { export: _export, "bundle-ttl": _bundleTtl, ...runOptions } = matchorderCommand.options;
+
+/**
+ * matchorder, then wait for the deal tasks and download their results
+ */
+export const runCommand: Command = {
+  ...matchorderCommand,
+  name: "run",
+  summary: "Run an iExec app from a source chain and download its results",
+  options: {
+    ...runOptions,
+    output: { ...outputOption, default: "results" },
+  },
+};
@@ -0,0 +1,73 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { zeroAddress } from "viem";
+import { LzOptions } from "@iexec/lz-options";
+import { MATCH_ORDERS_SELECTOR } from "../orders.js";
+import { requireString, type Command } from "./command.js";
+import {
+  createSourceContext,
+  formatGasLimit,
+  gasMarginOption,
+  gasOption,
+  jsonOption,
+  loadAccount,
+  parseHex,
+  payInLzTokenOption,
+  printFeeQuotes,
+  resolveGasLimit,
+  sourceOption,
+  toJson,
+} from "./shared.js";
+
+export const quoteCommand: Command = {
+  name: "quote",
+  summary: "Quote the LayerZero fee for routing a PoCo call",
+  options: {
+    source: sourceOption,
+    selector: {
+      type: "string",
+      valueName: "bytes4",
+      description: "PoCo function selector",
+      default: MATCH_ORDERS_SELECTOR,
+    },
+    payload: {
+      type: "string",
+      valueName: "hex",
+      description: "ABI-encoded arguments (without selector)",
+      default: "0x",
+    },
+    gas: gasOption,
+    "gas-margin": gasMarginOption,
+    "pay-in-lz-token": payInLzTokenOption,
+    json: jsonOption,
+  },
+  async run(args) {
+    const sourceChain = requireString(args, "source");
+    const selector = parseHex(requireString(args, "selector"), "--selector");
+    const payload = parseHex(requireString(args, "payload"), "--payload");
+    const payInLzToken = args.values["pay-in-lz-token"] === true;
+
+    const { config, client } = createSourceContext(sourceChain);
+    // The caller only appears in the message; fall back to the zero address
+    const caller = process.env.PRIVATE_KEY ? loadAccount().address : zeroAddress;
+    const gas = await resolveGasLimit(args, { sourceChain, config, selector, payload, caller });
+    const options = LzOptions.newOptions().addExecutorLzReceiveOption(gas.gasLimit).toHex();
+    const quotes = await client.quoteFees({ selector, payload, options });
+    const fee = payInLzToken ? quotes.lzToken : quotes.native;
+    if (!fee) {
+      throw new Error("The source endpoint has no lzToken, pay the fee in native tokens");
+    }
+
+    if (args.values.json) {
+      console.log(toJson({ sourceChain, selector, ...gas, options, ...fee, quotes }));
+      return;
+    }
+
+    console.log(`💰 Quote from ${sourceChain}`);
+    console.log(`  Selector:      ${selector}`);
+    console.log(`  Gas limit:     ${formatGasLimit(gas)}`);
+    console.log(`  Options:       ${options}`);
+    printFeeQuotes(quotes);
+  },
+};
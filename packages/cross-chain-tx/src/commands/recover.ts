@@ -0,0 +1,261 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { createWalletClient, http, type Hash } from "viem";
+import { getDestinationChain, loadConfig } from "@iexec/poco-lz-config";
+import { getExplorerTxUrl, getRpcUrl, getViemChain } from "../chains.js";
+import { DEFAULT_GAS_MARGIN_PERCENT } from "../gas.js";
+import { CrossChainRecovery, type StuckMessage } from "../recovery.js";
+import {
+  ExitCode,
+  UsageError,
+  optionalBigInt,
+  optionalString,
+  requireString,
+  type Command,
+  type CommandOption,
+  type ParsedArgs,
+} from "./command.js";
+import { printRoutedMessage } from "./decode.js";
+import {
+  confirm,
+  jsonOption,
+  loadAccount,
+  parseHex,
+  sourceOption,
+  toJson,
+  yesOption,
+} from "./shared.js";
+
+const fromBlockOption: CommandOption = {
+  type: "string",
+  valueName: "block",
+  description: "First destination block to scan for failed deliveries (default: recent blocks)",
+};
+
+/**
+ * Recovery helper for --source, signing with PRIVATE_KEY when needed
+ */
+function createRecovery(args: ParsedArgs, { signer }: { signer: boolean }) {
+  const sourceChain = requireString(args, "source");
+  const config = loadConfig();
+  const [destinationChain] = getDestinationChain(config, sourceChain);
+  const destinationWalletClient = signer
+    ? createWalletClient({
+        account: loadAccount(),
+        chain: getViemChain(destinationChain, config),
+        transport: http(getRpcUrl(destinationChain, config)),
+      })
+    : undefined;
+  return {
+    config,
+    recovery: new CrossChainRecovery({ sourceChain, config, destinationWalletClient }),
+  };
+}
+
+/**
+ * Read the <guid> positional
+ */
+function parseGuid(value: string | undefined): Hash {
+  if (!value) {
+    throw new UsageError("Missing required argument <guid>");
+  }
+  const guid = parseHex(value, "guid");
+  if (guid.length !== 66) {
+    throw new UsageError(`guid must be 32 bytes, got "${value}"`);
+  }
+  return guid;
+}
+
+/**
+ * Look up the stuck message of the <guid> positional
+ */
+async function findStuckMessage(
+  recovery: CrossChainRecovery,
+  args: ParsedArgs
+): Promise<StuckMessage> {
+  const guid = parseGuid(args.positionals[0]);
+  console.log(`🔎 Looking for message ${guid} on ${recovery.destinationChain}...`);
+  return recovery.getStuckMessage(guid, { fromBlock: optionalBigInt(args, "from-block") });
+}
+
+function printStuckMessage(stuck: StuckMessage, explorerUrl: string): void {
+  printRoutedMessage(stuck.decoded);
+  console.log("💥 Last attempt");
+  console.log(`  Reason:      ${stuck.reason}`);
+  console.log(`  Gas:         ${stuck.gas}`);
+  console.log(`  Transaction: ${explorerUrl}`);
+}
+
+export const stuckCommand: Command = {
+  name: "stuck",
+  summary: "List messages whose execution failed on the receiver, or show one in detail",
+  arguments: "[<guid>]",
+  options: {
+    source: sourceOption,
+    "from-block": fromBlockOption,
+    json: jsonOption,
+  },
+  async run(args) {
+    const { config, recovery } = createRecovery(args, { signer: false });
+    const [value] = args.positionals;
+    const fromBlock = optionalBigInt(args, "from-block");
+
+    if (value !== undefined) {
+      const stuck = await recovery.getStuckMessage(parseGuid(value), { fromBlock });
+      if (args.values.json) {
+        console.log(toJson(stuck));
+        return;
+      }
+      printStuckMessage(
+        stuck,
+        getExplorerTxUrl(recovery.destinationChain, stuck.transactionHash, config)
+      );
+      return;
+    }
+
+    const messages = await recovery.findStuckMessages({ fromBlock });
+    if (args.values.json) {
+      console.log(toJson(messages));
+      return;
+    }
+    console.log(
+      `🧯 ${messages.length} stuck message(s) from ${recovery.sourceChain} ` +
+        `on ${recovery.destinationChain} (receiver ${recovery.receiver})`
+    );
+    for (const { guid, origin, message, decoded, reason } of messages) {
+      if (!("call" in decoded)) {
+        console.log(`  ${guid} nonce ${origin.nonce} undecodable message: ${decoded.decodeError}`);
+        console.log(`    Reason:      ${reason}`);
+        console.log(`    Raw message: ${message}`);
+        continue;
+      }
+      const functionName = decoded.call.functionName ?? decoded.call.selector;
+      console.log(`  ${guid} nonce ${origin.nonce} ${functionName}: ${reason}`);
+    }
+    if (messages.length > 0) {
+      console.log("\n  Show one with `stuck <guid>`, then `retry` or `clear` it");
+    }
+  },
+};
+
+export const retryCommand: Command = {
+  name: "retry",
+  summary: "Execute a failed message again through the destination endpoint (lzReceive)",
+  arguments: "<guid>",
+  options: {
+    source: sourceOption,
+    gas: {
+      type: "string",
+      valueName: "gas",
+      description: "Gas limit of the retry transaction (default: simulated)",
+    },
+    "gas-margin": {
+      type: "string",
+      valueName: "percent",
+      description: "Safety margin added to the simulated gas",
+      default: String(DEFAULT_GAS_MARGIN_PERCENT),
+    },
+    "from-block": fromBlockOption,
+    yes: yesOption,
+  },
+  async run(args) {
+    const { config, recovery } = createRecovery(args, { signer: true });
+    const stuck = await findStuckMessage(recovery, args);
+    printStuckMessage(
+      stuck,
+      getExplorerTxUrl(recovery.destinationChain, stuck.transactionHash, config)
+    );
+
+    let gas = optionalBigInt(args, "gas");
+    if (gas === undefined) {
+      const marginPercent = Number(optionalString(args, "gas-margin"));
+      if (!Number.isInteger(marginPercent) || marginPercent < 0) {
+        throw new UsageError("Option --gas-margin must be a non-negative integer");
+      }
+      let simulatedGas: bigint;
+      try {
+        simulatedGas = await recovery.estimateRetryGas(stuck);
+      } catch (error: any) {
+        throw new Error(
+          `Retry simulation failed: ${error.shortMessage ?? error.message}\n` +
+            "   Pass --gas to send the retry without simulating"
+        );
+      }
+      gas = (simulatedGas * BigInt(100 + marginPercent)) / 100n;
+      console.log(`\n⛽ Retry gas: ${gas} (simulated ${simulatedGas} + ${marginPercent}%)`);
+    } else {
+      console.log(`\n⛽ Retry gas: ${gas} (--gas)`);
+    }
+
+    if (!(await confirm(args, `Retry message ${stuck.guid} on ${recovery.destinationChain}?`))) {
+      console.log("Aborted");
+      return ExitCode.Failure;
+    }
+    const hash = await recovery.retry(stuck, gas);
+    console.log(`✅ Message executed: ${getExplorerTxUrl(recovery.destinationChain, hash, config)}`);
+  },
+};
+
+export const clearCommand: Command = {
+  name: "clear",
+  summary: "Drop a failed message without executing it (receiver delegate only)",
+  arguments: "<guid>",
+  options: {
+    source: sourceOption,
+    "from-block": fromBlockOption,
+    yes: yesOption,
+  },
+  async run(args) {
+    const { config, recovery } = createRecovery(args, { signer: true });
+    const stuck = await findStuckMessage(recovery, args);
+    printStuckMessage(
+      stuck,
+      getExplorerTxUrl(recovery.destinationChain, stuck.transactionHash, config)
+    );
+
+    const question = `\nClear message ${stuck.guid}? It can never be executed afterwards.`;
+    if (!(await confirm(args, question))) {
+      console.log("Aborted");
+      return ExitCode.Failure;
+    }
+    const hash = await recovery.clear(stuck);
+    console.log(`🧹 Message cleared: ${getExplorerTxUrl(recovery.destinationChain, hash, config)}`);
+  },
+};
+
+export const skipCommand: Command = {
+  name: "skip",
+  summary: "Skip the next inbound nonce before it is verified (receiver delegate only)",
+  arguments: "<nonce>",
+  options: {
+    source: sourceOption,
+    yes: yesOption,
+  },
+  async run(args) {
+    const [value] = args.positionals;
+    if (!value || !/^\d+$/.test(value)) {
+      throw new UsageError("Missing or invalid argument <nonce>");
+    }
+    const nonce = BigInt(value);
+
+    const { config, recovery } = createRecovery(args, { signer: true });
+    const next = await recovery.getNextSkippableNonce();
+    console.log(
+      `⏭️  Next nonce from ${recovery.sourceChain} on ${recovery.destinationChain}: ${next}`
+    );
+    if (nonce !== next) {
+      throw new Error(
+        `Only nonce ${next} can be skipped; verified messages that failed are cleared with \`clear\``
+      );
+    }
+
+    const question = `Skip nonce ${nonce}? Its message can never be executed afterwards.`;
+    if (!(await confirm(args, question))) {
+      console.log("Aborted");
+      return ExitCode.Failure;
+    }
+    const hash = await recovery.skip(nonce);
+    console.log(`⏭️  Nonce skipped: ${getExplorerTxUrl(recovery.destinationChain, hash, config)}`);
+  },
+};
@@ -0,0 +1,164 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { IExec, utils } from "iexec";
+import { getDestinationChain, loadConfig, type ChainConfig } from "@iexec/poco-lz-config";
+import {
+  downloadTaskResult,
+  waitForDeal,
+  type DealProgress,
+  type TaskProgress,
+  type TaskStatusName,
+} from "../deal.js";
+import {
+  ExitCode,
+  UsageError,
+  optionalString,
+  requireString,
+  type Command,
+  type CommandOption,
+} from "./command.js";
+import { jsonOption, parseHex, sourceOption, toJson } from "./shared.js";
+import { intervalOption, parseWaitOptions } from "./track.js";
+
+export const outputOption: CommandOption = {
+  type: "string",
+  short: "o",
+  valueName: "dir",
+  description: "Download the result archive of every completed task to this directory",
+};
+
+export const taskTimeoutOption: CommandOption = {
+  type: "string",
+  valueName: "seconds",
+  description: "Stop waiting for the deal tasks after this delay",
+  default: "3600",
+};
+
+/**
+ * iExec SDK connected to a receiver chain
+ * @param privateKey Signer for orders (0x prefix optional); omit for read-only use
+ */
+export function createIExec(chainConfig: ChainConfig, privateKey?: string): IExec {
+  // iExec SDK requires private key WITHOUT 0x prefix and chain ID as string
+  const chainId = String(chainConfig.chainId);
+  const ethProvider = privateKey
+    ? utils.getSignerFromPrivateKey(chainId, privateKey.replace(/^0x/, ""))
+    : chainId;
+  return new IExec({ ethProvider });
+}
+
+/**
+ * Exit code for the final progress of a deal
+ */
+export function dealExitCode(progress: DealProgress): number {
+  if (!progress.finished) {
+    return ExitCode.DeliveryPending;
+  }
+  return progress.tasks.every((task) => task.status === "COMPLETED")
+    ? ExitCode.Success
+    : ExitCode.TaskFailed;
+}
+
+export interface FollowDealResult {
+  progress: DealProgress;
+  /** Downloaded archives by task ID */
+  results: Record<string, string>;
+}
+
+/**
+ * Wait for the tasks of a deal, printing every status change, then download
+ * the results of the completed ones
+ */
+export async function followDeal(
+  iexec: IExec,
+  dealId: string,
+  options: { timeoutMs: number; intervalMs: number; outputDir?: string; quiet?: boolean }
+): Promise<FollowDealResult> {
+  const log = options.quiet ? () => {} : console.log;
+  const last = new Map<string, TaskStatusName>();
+
+  log(`⚙️  Following deal ${dealId}...`);
+  const progress = await waitForDeal(iexec, dealId, {
+    ...options,
+    onProgress: ({ tasks }) => {
+      for (const task of tasks) {
+        if (last.get(task.taskId) !== task.status) {
+          log(`  Task #${task.index} ${task.taskId}: ${describeTask(task)}`);
+          last.set(task.taskId, task.status);
+        }
+      }
+    },
+  });
+  if (!progress.finished) {
+    log(`  Tasks still running after ${options.timeoutMs / 1000}s`);
+  }
+
+  const results: Record<string, string> = {};
+  if (options.outputDir) {
+    for (const task of progress.tasks.filter((task) => task.status === "COMPLETED")) {
+      results[task.taskId] = await downloadTaskResult(iexec, task.taskId, options.outputDir);
+      log(`  📥 Result of task #${task.index}: ${results[task.taskId]}`);
+    }
+  }
+  return { progress, results };
+}
+
+function describeTask(task: TaskProgress): string {
+  switch (task.status) {
+    case "UNSET":
+      return "⏳ waiting for a worker";
+    case "ACTIVE":
+      return "🔄 running";
+    case "REVEALING":
+      return "🔏 revealing results";
+    case "COMPLETED":
+      return "✅ completed";
+    case "FAILED":
+      return "❌ failed";
+    case "TIMEOUT":
+      return "⌛ timed out";
+  }
+}
+
+export const resultsCommand: Command = {
+  name: "results",
+  summary: "Follow the tasks of a cross-chain deal and download their results",
+  arguments: "<dealId>",
+  options: {
+    source: sourceOption,
+    output: { ...outputOption, default: "results" },
+    "task-timeout": taskTimeoutOption,
+    interval: intervalOption,
+    json: jsonOption,
+  },
+  async run(args) {
+    const [dealIdArg] = args.positionals;
+    if (!dealIdArg) {
+      throw new UsageError("Missing required argument <dealId>");
+    }
+    const dealId = parseHex(dealIdArg, "dealId");
+    if (dealId.length !== 66) {
+      throw new UsageError(`dealId must be 32 bytes, got "${dealIdArg}"`);
+    }
+    const sourceChain = requireString(args, "source");
+    const outputDir = optionalString(args, "output");
+    const waitOptions = parseWaitOptions(args, "task-timeout");
+
+    const [destinationChain, destinationConfig] = getDestinationChain(loadConfig(), sourceChain);
+    const iexec = createIExec(destinationConfig);
+
+    if (!args.values.json) {
+      console.log(`📦 Deal ${dealId} on ${destinationChain}\n`);
+    }
+    const { progress, results } = await followDeal(iexec, dealId, {
+      ...waitOptions,
+      outputDir,
+      quiet: args.values.json === true,
+    });
+    if (args.values.json) {
+      console.log(toJson({ destinationChain, ...progress, results }));
+    }
+    return dealExitCode(progress);
+  },
+};
@@ -0,0 +1,285 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { createInterface } from "node:readline/promises";
+import {
+  createPublicClient,
+  createWalletClient,
+  formatEther,
+  getAddress,
+  http,
+  isAddress,
+  isHex,
+  type Address,
+  type Chain,
+  type Hash,
+  type Hex,
+  type PrivateKeyAccount,
+  type PublicClient,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { getChainConfig, loadConfig, type Config, type ProfileStage } from "@iexec/poco-lz-config";
+import { getViemChain, getRpcUrl } from "../chains.js";
+import { CrossChainPocoClient, type FeeQuotes } from "../client.js";
+import { DEFAULT_GAS_MARGIN_PERCENT, estimateLzReceiveGas } from "../gas.js";
+import type { MessagingFee } from "../types.js";
+import {
+  UsageError,
+  optionalBigInt,
+  optionalString,
+  type CommandOption,
+  type ParsedArgs,
+} from "./command.js";
+
+export const sourceOption: CommandOption = {
+  type: "string",
+  short: "s",
+  valueName: "chain",
+  description: "Source (Router) chain name from config.json",
+};
+
+export const gasOption: CommandOption = {
+  type: "string",
+  valueName: "gas",
+  description:
+    "Gas limit for _lzReceive on the destination chain, on top of the Router enforced gas " +
+    "(default: simulated on the destination chain)",
+};
+
+export const gasMarginOption: CommandOption = {
+  type: "string",
+  valueName: "percent",
+  description: "Safety margin added to the simulated _lzReceive gas",
+  default: String(DEFAULT_GAS_MARGIN_PERCENT),
+};
+
+export const payInLzTokenOption: CommandOption = {
+  type: "boolean",
+  description: "Pay the LayerZero fee partly in the LayerZero token (ZRO)",
+};
+
+export const jsonOption: CommandOption = {
+  type: "boolean",
+  description: "Print machine-readable JSON",
+};
+
+export const yesOption: CommandOption = {
+  type: "boolean",
+  short: "y",
+  description: "Skip the confirmation prompt",
+};
+
+/**
+ * Ask for confirmation on the terminal, unless --yes was given
+ *
+ * Without a terminal to prompt on, --yes is required.
+ */
+export async function confirm(args: ParsedArgs, question: string): Promise<boolean> {
+  if (args.values.yes) {
+    return true;
+  }
+  if (!process.stdin.isTTY) {
+    throw new UsageError("No terminal to confirm on, pass --yes to proceed");
+  }
+  const readline = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await readline.question(`${question} [y/N] `);
+    return ["y", "yes"].includes(answer.trim().toLowerCase());
+  } finally {
+    readline.close();
+  }
+}
+
+/**
+ * Read PRIVATE_KEY from the environment (0x prefix optional)
+ */
+export function loadPrivateKey(): Hex {
+  const privateKey = process.env.PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error("PRIVATE_KEY environment variable is required");
+  }
+  return (privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`) as Hex;
+}
+
+/**
+ * Account derived from PRIVATE_KEY
+ */
+export function loadAccount(): PrivateKeyAccount {
+  return privateKeyToAccount(loadPrivateKey());
+}
+
+export interface SourceContext {
+  /** Active config.json profile */
+  config: Config;
+  sourceChain: string;
+  viemChain: Chain;
+  publicClient: PublicClient;
+  client: CrossChainPocoClient;
+}
+
+/**
+ * Build clients for a source (Router) chain
+ * @param account Signer for routeCall; omit for read-only commands
+ */
+export function createSourceContext(
+  sourceChain: string,
+  account?: PrivateKeyAccount
+): SourceContext {
+  const config = loadConfig();
+  const chainConfig = getChainConfig(sourceChain, config);
+  const viemChain = getViemChain(sourceChain, config);
+  const transport = http(getRpcUrl(sourceChain, config));
+
+  const publicClient: PublicClient = createPublicClient({ chain: viemChain, transport });
+  const walletClient = createWalletClient({ account, chain: viemChain, transport });
+  const client = new CrossChainPocoClient({
+    sourceChain: chainConfig,
+    walletClient,
+    publicClient,
+  });
+
+  return { config, sourceChain, viemChain, publicClient, client };
+}
+
+/**
+ * Read a hex option or positional, rejecting malformed values
+ */
+export function parseHex(value: string, name: string): Hex {
+  if (!isHex(value, { strict: true })) {
+    throw new UsageError(`${name} must be a 0x-prefixed hex string, got "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * Read an address option, rejecting malformed values
+ */
+export function parseAddress(value: string, name: string): Address {
+  if (!isAddress(value, { strict: false })) {
+    throw new UsageError(`${name} must be an address, got "${value}"`);
+  }
+  return getAddress(value);
+}
+
+/**
+ * Read a transaction hash positional
+ */
+export function parseTxHash(args: ParsedArgs): Hash {
+  const [txHash] = args.positionals;
+  if (!txHash) {
+    throw new UsageError("Missing required argument <txHash>");
+  }
+  const hash = parseHex(txHash, "txHash");
+  if (hash.length !== 66) {
+    throw new UsageError(`txHash must be 32 bytes, got "${txHash}"`);
+  }
+  return hash;
+}
+
+/**
+ * JSON.stringify with bigint support
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_, v) => (typeof v === "bigint" ? v.toString() : v),
+    2
+  );
+}
+
+/**
+ * LayerZero Scan link for a source transaction
+ */
+export function layerZeroScanUrl(hash: Hash, stage: ProfileStage): string {
+  const host = stage === "mainnet" ? "layerzeroscan.com" : "testnet.layerzeroscan.com";
+  return `https://${host}/tx/${hash}`;
+}
+
+export interface GasLimit {
+  gasLimit: bigint;
+  /** Set when the limit comes from a simulation rather than --gas */
+  simulatedGas?: bigint;
+  marginPercent?: number;
+  enforcedGas?: bigint;
+}
+
+/**
+ * Resolve the _lzReceive gas limit: --gas when given, otherwise simulated on
+ * the destination chain plus --gas-margin, less the gas the Router enforces
+ */
+export async function resolveGasLimit(
+  args: ParsedArgs,
+  params: { sourceChain: string; config: Config; selector: Hex; payload: Hex; caller: Address }
+): Promise<GasLimit> {
+  const gasLimit = optionalBigInt(args, "gas");
+  if (gasLimit !== undefined) {
+    return { gasLimit };
+  }
+
+  const marginPercent = Number(optionalString(args, "gas-margin") ?? DEFAULT_GAS_MARGIN_PERCENT);
+  if (!Number.isInteger(marginPercent) || marginPercent < 0) {
+    throw new UsageError("Option --gas-margin must be a non-negative integer");
+  }
+  try {
+    return await estimateLzReceiveGas({ ...params, marginPercent });
+  } catch (error: any) {
+    throw new Error(
+      `_lzReceive simulation failed: ${error.shortMessage ?? error.message}\n` +
+        "   Pass --gas to set the gas limit without simulating"
+    );
+  }
+}
+
+/**
+ * One-line description of a resolved gas limit
+ */
+export function formatGasLimit({
+  gasLimit,
+  simulatedGas,
+  marginPercent,
+  enforcedGas,
+}: GasLimit): string {
+  return simulatedGas === undefined
+    ? `${gasLimit} (--gas)`
+    : `${gasLimit} (simulated ${simulatedGas} + ${marginPercent}% - ${enforcedGas} enforced)`;
+}
+
+/**
+ * Print both fee quotes, one per line
+ */
+export function printFeeQuotes({ native, lzToken }: FeeQuotes): void {
+  console.log(`  Fee in native: ${native.nativeFee} wei (${formatEther(native.nativeFee)})`);
+  console.log(
+    lzToken
+      ? `  Fee in ZRO:    ${lzToken.nativeFee} wei + ${formatEther(lzToken.lzTokenFee)} ZRO`
+      : "  Fee in ZRO:    unavailable (no lzToken on the source endpoint)"
+  );
+}
+
+/**
+ * Quote both currencies and pick the one chosen with --pay-in-lz-token,
+ * approving the lzToken fee when needed
+ */
+export async function selectFee(
+  client: CrossChainPocoClient,
+  params: { selector: Hex; payload: Hex; options: Hex },
+  payInLzToken: boolean
+): Promise<MessagingFee> {
+  const quotes = await client.quoteFees(params);
+  printFeeQuotes(quotes);
+
+  if (!payInLzToken) {
+    return quotes.native;
+  }
+  if (!quotes.lzToken) {
+    throw new Error("The source endpoint has no lzToken, pay the fee in native tokens");
+  }
+
+  const approval = await client.approveLzToken(quotes.lzToken.lzTokenFee);
+  console.log(
+    approval
+      ? `  ✓ Approved ${formatEther(quotes.lzToken.lzTokenFee)} ZRO for the PocoOApp: ${approval}`
+      : "  ✓ ZRO allowance already covers the fee"
+  );
+  return quotes.lzToken;
+}
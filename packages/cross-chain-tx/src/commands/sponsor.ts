@@ -0,0 +1,233 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  type Hash,
+  type PublicClient,
+} from "viem";
+import { LzOptions } from "@iexec/lz-options";
+import { getDestinationChain, loadConfig } from "@iexec/poco-lz-config";
+import { getExplorerTxUrl, getRpcUrl, getViemChain } from "../chains.js";
+import {
+  depositSponsorFunds,
+  encodeAcceptSponsorCall,
+  getCallerSponsor,
+  getPocoStake,
+  getSponsorBalance,
+  getSponsorVault,
+  isSponsorshipOffered,
+  offerSponsorship,
+  withdrawSponsorFunds,
+} from "../sponsor.js";
+import {
+  UsageError,
+  optionalBigInt,
+  optionalString,
+  requireString,
+  type Command,
+} from "./command.js";
+import { createIExec } from "./results.js";
+import {
+  createSourceContext,
+  formatGasLimit,
+  gasMarginOption,
+  gasOption,
+  jsonOption,
+  layerZeroScanUrl,
+  loadAccount,
+  loadPrivateKey,
+  parseAddress,
+  payInLzTokenOption,
+  resolveGasLimit,
+  selectFee,
+  sourceOption,
+  toJson,
+} from "./shared.js";
+
+export const sponsorCommand: Command = {
+  name: "sponsor",
+  summary: "Show or manage your sponsor balance and sponsorships in the vault paying sponsored deals",
+  options: {
+    source: sourceOption,
+    deposit: {
+      type: "string",
+      valueName: "nRLC",
+      description:
+        "Move this amount from your PoCo account to your sponsor balance, depositing the missing part",
+    },
+    withdraw: {
+      type: "string",
+      valueName: "nRLC",
+      description: "Move this amount from your sponsor balance back to your PoCo account",
+    },
+    offer: {
+      type: "string",
+      valueName: "address",
+      description:
+        "Offer to pay for the sponsorMatchOrders routed by this caller, once it accepts",
+    },
+    revoke: {
+      type: "string",
+      valueName: "address",
+      description: "Withdraw your offer to this caller, ending the sponsorship if accepted",
+    },
+    accept: {
+      type: "string",
+      valueName: "address",
+      description:
+        "Route an acceptSponsor making this sponsor pay for your sponsorMatchOrders " +
+        "(zero address to drop yours)",
+    },
+    caller: {
+      type: "string",
+      valueName: "address",
+      description: "Also show the sponsor paying for this caller",
+    },
+    gas: gasOption,
+    "gas-margin": gasMarginOption,
+    "pay-in-lz-token": payInLzTokenOption,
+    json: jsonOption,
+  },
+  async run(args) {
+    const sourceChain = requireString(args, "source");
+    const depositAmount = optionalBigInt(args, "deposit");
+    const withdrawAmount = optionalBigInt(args, "withdraw");
+    const offer = optionalString(args, "offer");
+    const revoke = optionalString(args, "revoke");
+    const acceptOption = optionalString(args, "accept");
+    const callerOption = optionalString(args, "caller");
+    if (depositAmount !== undefined && withdrawAmount !== undefined) {
+      throw new UsageError("Options --deposit and --withdraw cannot be combined");
+    }
+    if (offer !== undefined && revoke !== undefined) {
+      throw new UsageError("Options --offer and --revoke cannot be combined");
+    }
+    const caller = callerOption === undefined ? undefined : parseAddress(callerOption, "--caller");
+    const offerUpdate =
+      offer !== undefined
+        ? { caller: parseAddress(offer, "--offer"), offered: true }
+        : revoke !== undefined
+          ? { caller: parseAddress(revoke, "--revoke"), offered: false }
+          : undefined;
+    const accept = acceptOption === undefined ? undefined : parseAddress(acceptOption, "--accept");
+    const signing =
+      depositAmount !== undefined ||
+      withdrawAmount !== undefined ||
+      offerUpdate !== undefined ||
+      accept !== undefined;
+
+    const config = loadConfig();
+    const [destinationChain, destinationConfig] = getDestinationChain(config, sourceChain);
+    const viemChain = getViemChain(destinationChain, config);
+    const transport = http(getRpcUrl(destinationChain, config));
+    const publicClient: PublicClient = createPublicClient({ chain: viemChain, transport });
+    const vault = await getSponsorVault(sourceChain, config, publicClient);
+
+    // Read-only without PRIVATE_KEY: the vault alone, or the --caller sponsor
+    const account = signing || process.env.PRIVATE_KEY ? loadAccount() : undefined;
+    const walletClient = account && createWalletClient({ account, chain: viemChain, transport });
+    const hashes: Hash[] = [];
+    const printTx = (hash: Hash) => {
+      hashes.push(hash);
+      console.log(`  ${getExplorerTxUrl(destinationChain, hash, config)}\n`);
+    };
+
+    if (account && walletClient && depositAmount !== undefined) {
+      const stake = await getPocoStake(publicClient, vault.pocoAddress, account.address);
+      if (stake < depositAmount) {
+        const iexec = createIExec(destinationConfig, loadPrivateKey());
+        console.log(`🏦 Depositing ${depositAmount - stake} nRLC into your PoCo account...`);
+        await iexec.account.deposit((depositAmount - stake).toString());
+      }
+      console.log(`💸 Depositing ${depositAmount} nRLC into the sponsor vault...`);
+      printTx(await depositSponsorFunds(walletClient, publicClient, vault, depositAmount));
+    }
+    if (walletClient && withdrawAmount !== undefined) {
+      console.log(`💸 Withdrawing ${withdrawAmount} nRLC from the sponsor vault...`);
+      printTx(await withdrawSponsorFunds(walletClient, publicClient, vault, withdrawAmount));
+    }
+    if (walletClient && offerUpdate) {
+      console.log(
+        offerUpdate.offered
+          ? `🤝 Offering to pay for the sponsored deals of ${offerUpdate.caller}...`
+          : `✋ Withdrawing the offer to ${offerUpdate.caller}...`
+      );
+      printTx(
+        await offerSponsorship(
+          walletClient,
+          publicClient,
+          vault,
+          offerUpdate.caller,
+          offerUpdate.offered
+        )
+      );
+    }
+
+    // The caller consents from the source chain: the receiver takes the caller
+    // and source chain ID from the message, so no one can accept on its behalf
+    let acceptHash: Hash | undefined;
+    if (account && accept !== undefined) {
+      const { config: sourceConfig, client } = createSourceContext(sourceChain, account);
+      const { selector, payload } = encodeAcceptSponsorCall(accept);
+      console.log(`🚀 Routing acceptSponsor(${accept}) from ${sourceChain}...`);
+      const gas = await resolveGasLimit(args, {
+        sourceChain,
+        config: sourceConfig,
+        selector,
+        payload,
+        caller: account.address,
+      });
+      console.log(`  Gas limit: ${formatGasLimit(gas)}`);
+      const options = LzOptions.newOptions().addExecutorLzReceiveOption(gas.gasLimit).toHex();
+      const fee = await selectFee(
+        client,
+        { selector, payload, options },
+        args.values["pay-in-lz-token"] === true
+      );
+      acceptHash = await client.routeCall({ selector, payload, options, fee });
+      const { receipt } = await client.waitForReceipt(acceptHash);
+      console.log(`  Block: ${receipt.blockNumber}`);
+      console.log(`  LayerZero Scan: ${layerZeroScanUrl(acceptHash, sourceConfig.stage)}`);
+      console.log(
+        `💡 The sponsor changes once delivered: poco-lz track ${acceptHash} --source ${sourceChain}\n`
+      );
+    }
+
+    const balance = account && (await getSponsorBalance(publicClient, vault, account.address));
+    const callerSponsor = caller && (await getCallerSponsor(publicClient, vault, caller));
+    const offered =
+      account && caller && (await isSponsorshipOffered(publicClient, vault, caller, account.address));
+    if (args.values.json) {
+      console.log(
+        toJson({
+          sourceChain,
+          ...vault,
+          sponsor: account?.address,
+          balance,
+          caller,
+          callerSponsor,
+          offered,
+          hashes,
+          acceptHash,
+        })
+      );
+      return;
+    }
+    console.log(`🤝 Sponsor vault of calls routed from ${sourceChain} (chain ID ${vault.sourceChainId})`);
+    console.log(`  Vault:             ${vault.vault} (${vault.destinationChain})`);
+    console.log(`  Receiver PocoOApp: ${vault.receiver}`);
+    console.log(`  PoCo contract:     ${vault.pocoAddress}`);
+    if (account) {
+      console.log(`  Your balance:      ${balance} nRLC (${account.address})`);
+    }
+    if (caller) {
+      console.log(`  Sponsor of caller: ${callerSponsor ?? "none"} (${caller})`);
+    }
+    if (offered !== undefined) {
+      console.log(`  Your offer:        ${offered ? "open" : "none"}`);
+    }
+  },
+};
@@ -0,0 +1,73 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { parseEventLogs } from "viem";
+import { pocoOAppAbi } from "../abi.js";
+import { ExitCode, requireString, type Command } from "./command.js";
+import {
+  createSourceContext,
+  jsonOption,
+  layerZeroScanUrl,
+  parseTxHash,
+  sourceOption,
+  toJson,
+} from "./shared.js";
+
+export const statusCommand: Command = {
+  name: "status",
+  summary: "Show the status of a routeCall transaction on the source chain",
+  arguments: "<txHash>",
+  options: {
+    source: sourceOption,
+    json: jsonOption,
+  },
+  async run(args) {
+    const hash = parseTxHash(args);
+    const sourceChain = requireString(args, "source");
+
+    const { config, publicClient } = createSourceContext(sourceChain);
+    const receipt = await publicClient.getTransactionReceipt({ hash });
+
+    const [initiated] = parseEventLogs({
+      abi: pocoOAppAbi,
+      eventName: "CrossChainCallInitiated",
+      logs: receipt.logs,
+    });
+
+    const status = {
+      hash,
+      sourceChain,
+      status: receipt.status,
+      blockNumber: receipt.blockNumber,
+      caller: initiated?.args.caller,
+      targetFunction: initiated?.args.targetFunction,
+      guid: initiated?.args.guid,
+      nonce: initiated?.args.nonce,
+      layerZeroScan: layerZeroScanUrl(hash, config.stage),
+    };
+
+    if (args.values.json) {
+      console.log(toJson(status));
+    } else {
+      console.log(`📦 Transaction ${hash} on ${sourceChain}`);
+      console.log(`  Status:          ${receipt.status}`);
+      console.log(`  Block:           ${receipt.blockNumber}`);
+      if (initiated) {
+        console.log(`  Caller:          ${initiated.args.caller}`);
+        console.log(`  Target function: ${initiated.args.targetFunction}`);
+        console.log(`  LayerZero GUID:  ${initiated.args.guid}`);
+        console.log(`  LayerZero nonce: ${initiated.args.nonce}`);
+      } else {
+        console.log("  No CrossChainCallInitiated event in this transaction");
+      }
+      console.log(`  LayerZero Scan:  ${status.layerZeroScan}`);
+    }
+
+    if (receipt.status !== "success") {
+      return ExitCode.TxReverted;
+    }
+    if (!initiated) {
+      return ExitCode.Failure;
+    }
+  },
+};
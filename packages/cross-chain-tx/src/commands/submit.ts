@@ -0,0 +1,164 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { readFileSync } from "node:fs";
+import { LzOptions } from "@iexec/lz-options";
+import { getChainConfig } from "@iexec/poco-lz-config";
+import { encodePocoBatch } from "../batch.js";
+import { parseOrderBundle, validateOrderBundle } from "../bundle.js";
+import { BATCH_MODES, type BatchMode } from "../message.js";
+import { SPONSOR_MATCH_ORDERS_SELECTOR } from "../orders.js";
+import { CrossChainTracker } from "../tracker.js";
+import { ExitCode, UsageError, requireString, type Command } from "./command.js";
+import { createIExec } from "./results.js";
+import {
+  createSourceContext,
+  formatGasLimit,
+  gasMarginOption,
+  gasOption,
+  layerZeroScanUrl,
+  loadAccount,
+  payInLzTokenOption,
+  resolveGasLimit,
+  selectFee,
+} from "./shared.js";
+import {
+  deliveryExitCode,
+  followDelivery,
+  intervalOption,
+  parseWaitOptions,
+  timeoutOption,
+} from "./track.js";
+
+export const submitCommand: Command = {
+  name: "submit",
+  summary: "Validate order bundles exported by matchorder --export and route them",
+  arguments: "<bundle...>",
+  options: {
+    "check-only": {
+      type: "boolean",
+      description: "Validate the bundles without routing them",
+    },
+    "batch-mode": {
+      type: "string",
+      valueName: "mode",
+      description:
+        `Several bundles are routed as one batch: ${BATCH_MODES.join(", ")} ` +
+        "when one of its calls fails",
+      default: "all-or-nothing",
+    },
+    gas: { ...gasOption, description: `${gasOption.description} (batches only)` },
+    "gas-margin": gasMarginOption,
+    "pay-in-lz-token": payInLzTokenOption,
+    "no-wait": {
+      type: "boolean",
+      description: "Exit once the source transaction is confirmed",
+    },
+    timeout: timeoutOption,
+    interval: intervalOption,
+  },
+  async run(args) {
+    const bundlePaths = args.positionals;
+    if (bundlePaths.length === 0) {
+      throw new UsageError("Missing required argument <bundle>");
+    }
+    const batchMode = requireString(args, "batch-mode") as BatchMode;
+    if (!BATCH_MODES.includes(batchMode)) {
+      throw new UsageError(`Option --batch-mode must be one of ${BATCH_MODES.join(", ")}`);
+    }
+    const waitOptions = parseWaitOptions(args);
+
+    const bundles = bundlePaths.map((path) => parseOrderBundle(readFileSync(path, "utf8")));
+    const { sourceChain, destinationChain } = bundles[0];
+    if (bundles.some((bundle) => bundle.sourceChain !== sourceChain)) {
+      throw new UsageError("All bundles must be routed from the same source chain");
+    }
+    const functionNames = bundles.map((bundle) =>
+      bundle.selector === SPONSOR_MATCH_ORDERS_SELECTOR ? "sponsorMatchOrders" : "matchOrders"
+    );
+    bundles.forEach((bundle, index) => {
+      console.log(`📦 Order bundle v${bundle.version} from ${bundlePaths[index]}`);
+      console.log(`  Route:   ${bundle.sourceChain} → ${bundle.destinationChain}`);
+      console.log(`  Created: ${bundle.createdAt}`);
+      console.log(`  App:     ${bundle.orders.apporder.app}`);
+      console.log(`  Dataset: ${bundle.orders.datasetorder.dataset}`);
+      console.log(`  Workerpool: ${bundle.orders.workerpoolorder.workerpool}`);
+      console.log(`  Call:    ${functionNames[index]}\n`);
+    });
+
+    // ==================================================================
+    // Validate against the receiver chain
+    // ==================================================================
+    const account = loadAccount();
+    const { config, client } = createSourceContext(sourceChain, account);
+    const iexec = createIExec(getChainConfig(destinationChain, config));
+    let valid = true;
+    for (const [index, bundle] of bundles.entries()) {
+      console.log(`🔍 Validating ${bundlePaths[index]}...`);
+      const validation = await validateOrderBundle(bundle, {
+        iexec,
+        config,
+        caller: account.address,
+      });
+      for (const check of validation.checks) {
+        console.log(`  ${check.ok ? "✅" : "❌"} ${check.name}: ${check.detail}`);
+      }
+      console.log("");
+      valid &&= validation.valid;
+    }
+    if (!valid) {
+      console.error(
+        `❌ ${bundles.length > 1 ? "Some bundles are" : "Bundle is"} not valid, not routing`
+      );
+      return ExitCode.Failure;
+    }
+    if (args.values["check-only"]) {
+      return ExitCode.Success;
+    }
+
+    // ==================================================================
+    // Pay the fee and route the call from the submitter's wallet
+    // ==================================================================
+    const [{ selector, payload, options }] = bundles;
+    let call = { selector, payload, options };
+    let description = functionNames[0];
+    if (bundles.length > 1) {
+      // One message for every bundle, its gas sized for the whole batch
+      const batch = encodePocoBatch(batchMode, bundles);
+      console.log(`📚 Batching ${bundles.length} calls (${batchMode})...`);
+      const gas = await resolveGasLimit(args, {
+        sourceChain,
+        config,
+        ...batch,
+        caller: account.address,
+      });
+      console.log(`  Destination gas limit: ${formatGasLimit(gas)}\n`);
+      const options = LzOptions.newOptions().addExecutorLzReceiveOption(gas.gasLimit).toHex();
+      call = { ...batch, options };
+      description = `a batch of ${bundles.length} calls`;
+    }
+
+    console.log("💰 Quoting cross-chain call...");
+    const fee = await selectFee(client, call, args.values["pay-in-lz-token"] === true);
+
+    console.log(`\n🚀 Routing ${description}...`);
+    const hash = await client.routeCall({ ...call, fee });
+    console.log(`  Transaction hash: ${hash}`);
+
+    const { receipt, guid } = await client.waitForReceipt(hash);
+    console.log("✅ Transaction confirmed!");
+    console.log(`  Block: ${receipt.blockNumber}`);
+    console.log(`  LayerZero GUID: ${guid}`);
+    console.log(`  LayerZero Scan: ${layerZeroScanUrl(hash, config.stage)}\n`);
+
+    if (args.values["no-wait"]) {
+      console.log(
+        `💡 Follow the delivery with: poco-lz track ${hash} --source ${sourceChain}\n`
+      );
+      return;
+    }
+    const tracker = new CrossChainTracker({ sourceChain, config });
+    const message = await tracker.getSourceMessage(hash);
+    return deliveryExitCode(await followDelivery(tracker, message, waitOptions, config));
+  },
+};
@@ -0,0 +1,167 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { loadConfig, type Config } from "@iexec/poco-lz-config";
+import { getExplorerTxUrl } from "../chains.js";
+import {
+  CrossChainTracker,
+  type DeliveryStatus,
+  type SourceMessage,
+} from "../tracker.js";
+import {
+  ExitCode,
+  UsageError,
+  optionalString,
+  requireString,
+  type CommandOption,
+  type ParsedArgs,
+  type Command,
+} from "./command.js";
+import { jsonOption, parseTxHash, sourceOption, toJson } from "./shared.js";
+
+export const timeoutOption: CommandOption = {
+  type: "string",
+  valueName: "seconds",
+  description: "Stop waiting for the destination execution after this delay",
+  default: "900",
+};
+
+export const intervalOption: CommandOption = {
+  type: "string",
+  valueName: "seconds",
+  description: "Delay between two destination chain polls",
+  default: "10",
+};
+
+/**
+ * Read --timeout (or another timeout option) and --interval as milliseconds
+ */
+export function parseWaitOptions(
+  args: ParsedArgs,
+  timeoutName = "timeout"
+): { timeoutMs: number; intervalMs: number } {
+  const seconds = (name: string) => {
+    const value = Number(optionalString(args, name));
+    if (!Number.isFinite(value) || value < 0) {
+      throw new UsageError(`Option --${name} must be a number of seconds`);
+    }
+    return value * 1000;
+  };
+  return { timeoutMs: seconds(timeoutName), intervalMs: seconds("interval") };
+}
+
+/**
+ * Exit code for a final delivery status
+ */
+export function deliveryExitCode(status: DeliveryStatus): number {
+  switch (status.status) {
+    case "failed":
+      return ExitCode.DeliveryFailed;
+    case "pending":
+      return ExitCode.DeliveryPending;
+    default:
+      // A best-effort batch is delivered even when some of its calls failed
+      return status.calls?.some((call) => !call.success)
+        ? ExitCode.DeliveryFailed
+        : ExitCode.Success;
+  }
+}
+
+/**
+ * Wait for a message, printing every status change
+ */
+export async function followDelivery(
+  tracker: CrossChainTracker,
+  message: SourceMessage,
+  options: { timeoutMs: number; intervalMs: number },
+  config: Config
+): Promise<DeliveryStatus> {
+  console.log(`⏳ Waiting for execution on ${tracker.destinationChain}...`);
+  let last = "";
+  const status = await tracker.waitForDelivery(message, {
+    ...options,
+    onStatus: (update) => {
+      const line = describeStatus(update);
+      if (line !== last) {
+        console.log(`  ${line}`);
+        last = line;
+      }
+    },
+  });
+
+  if (status.status !== "pending") {
+    if (status.status !== "failed") {
+      for (const call of status.calls ?? []) {
+        console.log(
+          `  ${call.success ? "✅" : "❌"} Batch call #${call.index} ${call.targetFunction}: ` +
+            (call.success ? "executed" : call.reason)
+        );
+      }
+    }
+    console.log(
+      `  Destination tx: ${getExplorerTxUrl(tracker.destinationChain, status.transactionHash, config)}`
+    );
+    if (status.status === "failed") {
+      console.log(
+        `  Inspect it with \`stuck ${message.guid} --source ${tracker.sourceChain}\`, ` +
+          "then `retry` or `clear` it"
+      );
+    }
+  } else {
+    console.log(`  Still pending after ${options.timeoutMs / 1000}s`);
+  }
+  return status;
+}
+
+function describeStatus(status: DeliveryStatus): string {
+  switch (status.status) {
+    case "pending":
+      return status.verified
+        ? "🔏 Verified, waiting for the executor"
+        : "📡 In flight, waiting for DVN verification";
+    case "delivered":
+      return `✅ Delivered in block ${status.blockNumber}`;
+    case "dealCreated":
+      return `✅ Deal ${status.dealId} created in block ${status.blockNumber}`;
+    case "failed":
+      return `❌ Execution reverted in block ${status.blockNumber}: ${status.reason}`;
+  }
+}
+
+export const trackCommand: Command = {
+  name: "track",
+  summary: "Follow a routeCall transaction until it executes on the receiver chain",
+  arguments: "<txHash>",
+  options: {
+    source: sourceOption,
+    timeout: timeoutOption,
+    interval: intervalOption,
+    json: jsonOption,
+  },
+  async run(args) {
+    const hash = parseTxHash(args);
+    const sourceChain = requireString(args, "source");
+    const waitOptions = parseWaitOptions(args);
+
+    const config = loadConfig();
+    const tracker = new CrossChainTracker({ sourceChain, config });
+    const message = await tracker.getSourceMessage(hash);
+
+    if (args.values.json) {
+      const status = await tracker.waitForDelivery(message, waitOptions);
+      console.log(
+        toJson({ sourceChain, destinationChain: tracker.destinationChain, message, ...status })
+      );
+      return deliveryExitCode(status);
+    }
+
+    console.log(`📦 Message from ${sourceChain} to ${tracker.destinationChain}`);
+    console.log(`  Source tx:       ${hash}`);
+    console.log(`  GUID:            ${message.guid}`);
+    console.log(`  LayerZero nonce: ${message.nonce}`);
+    console.log(`  Caller:          ${message.caller}`);
+    console.log(`  Target function: ${message.targetFunction}\n`);
+
+    return deliveryExitCode(await followDelivery(tracker, message, waitOptions, config));
+  },
+};
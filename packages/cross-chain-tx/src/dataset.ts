@@ -0,0 +1,107 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { getAddress, zeroAddress, zeroHash, type Address } from "viem";
+import type { IExec } from "iexec";
+import type { DatasetOrder } from "./types.js";
+
+/**
+ * Dataset order for requests without a dataset, ignored by matchOrders
+ */
+export const EMPTY_DATASET_ORDER: DatasetOrder = {
+  dataset: zeroAddress,
+  datasetprice: 0,
+  volume: 1,
+  tag: zeroHash,
+  apprestrict: zeroAddress,
+  workerpoolrestrict: zeroAddress,
+  requesterrestrict: zeroAddress,
+  salt: zeroHash,
+  sign: "0x",
+};
+
+export interface DatasetOrderQuery {
+  dataset: Address;
+  /** App the dataset order must accept */
+  app: Address;
+  /** Requester the dataset order must accept */
+  requester: Address;
+  /** Tags of the request; the dataset order tag must be included */
+  tag: string[];
+  /** Volume of the request (default 1) */
+  volume?: number;
+  /** Highest dataset price accepted, in nRLC (default 0) */
+  maxPrice?: bigint;
+}
+
+export interface PublishedDatasetOrder {
+  order: DatasetOrder;
+  /** Volume left on the published order */
+  remaining: number;
+}
+
+/**
+ * Cheapest published order of a dataset usable by the request
+ *
+ * Orders restricted to another app or requester, with a tag the request does
+ * not carry, or priced above maxPrice are skipped.
+ */
+export async function fetchDatasetOrder(
+  iexec: IExec,
+  { dataset, app, requester, tag, volume = 1, maxPrice = 0n }: DatasetOrderQuery
+): Promise<PublishedDatasetOrder> {
+  const { orders } = await iexec.orderbook.fetchDatasetOrderbook(dataset, {
+    app,
+    requester,
+    maxTag: tag,
+    minVolume: volume,
+  });
+
+  const published = orders.find(
+    ({ order }: { order: DatasetOrder }) => BigInt(order.datasetprice) <= maxPrice
+  );
+  if (!published) {
+    throw new Error(
+      orders.length === 0
+        ? `No published order of dataset ${dataset} for app ${app} and requester ${requester}. ` +
+            "Ask the dataset owner to publish one, or sign one with the owner key."
+        : `Dataset ${dataset} is only offered above ${maxPrice} nRLC ` +
+            `(cheapest: ${orders[0].order.datasetprice} nRLC). Raise the maximum dataset price.`
+    );
+  }
+  return { order: published.order, remaining: published.remaining };
+}
+
+/**
+ * Sign a dataset order restricted to the request's app and requester
+ * @param ownerIexec iExec SDK signing with the dataset owner wallet
+ */
+export async function signDatasetOrder(
+  ownerIexec: IExec,
+  {
+    dataset,
+    app,
+    requester,
+    tag,
+    volume = 1,
+    price = 0n,
+  }: Omit<DatasetOrderQuery, "maxPrice"> & { price?: bigint }
+): Promise<DatasetOrder> {
+  const [{ dataset: details }, signer] = await Promise.all([
+    ownerIexec.dataset.showDataset(dataset),
+    ownerIexec.wallet.getAddress(),
+  ]);
+  if (getAddress(details.owner) !== getAddress(signer)) {
+    throw new Error(`Dataset ${dataset} is owned by ${details.owner}, not by ${signer}`);
+  }
+
+  const order = await ownerIexec.order.createDatasetorder({
+    dataset,
+    datasetprice: price.toString(),
+    volume,
+    tag,
+    apprestrict: app,
+    requesterrestrict: requester,
+  });
+  return ownerIexec.order.signDatasetorder(order);
+}
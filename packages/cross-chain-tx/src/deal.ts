@@ -0,0 +1,114 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { errors, type IExec } from "iexec";
+
+/**
+ * PoCo task status, plus TIMEOUT for tasks past the deal deadline
+ */
+export type TaskStatusName =
+  | "UNSET"
+  | "ACTIVE"
+  | "REVEALING"
+  | "COMPLETED"
+  | "FAILED"
+  | "TIMEOUT";
+
+export interface TaskProgress {
+  taskId: string;
+  index: number;
+  status: TaskStatusName;
+}
+
+export interface DealProgress {
+  dealId: string;
+  tasks: TaskProgress[];
+  /** Every task is COMPLETED, FAILED or TIMEOUT */
+  finished: boolean;
+}
+
+export interface WaitForDealOptions {
+  /** Delay between two polls (default 10 s) */
+  intervalMs?: number;
+  /** Give up and return the current progress after this delay (default 1 h) */
+  timeoutMs?: number;
+  /** Called after every poll */
+  onProgress?: (progress: DealProgress) => void;
+}
+
+const FINAL_STATUSES: TaskStatusName[] = ["COMPLETED", "FAILED", "TIMEOUT"];
+
+/**
+ * Status of every task of a deal, read through the iExec SDK
+ *
+ * Tasks that no worker initialized yet are UNSET.
+ */
+export async function getDealProgress(iexec: IExec, dealId: string): Promise<DealProgress> {
+  const deal = await iexec.deal.show(dealId);
+
+  const tasks = await Promise.all(
+    Object.entries<string>(deal.tasks).map(async ([index, taskId]): Promise<TaskProgress> => {
+      try {
+        const task = await iexec.task.show(taskId);
+        const status =
+          task.taskTimedOut && task.statusName !== "COMPLETED"
+            ? "TIMEOUT"
+            : (task.statusName as TaskStatusName);
+        return { taskId, index: Number(index), status };
+      } catch (error) {
+        if (!(error instanceof errors.ObjectNotFoundError)) {
+          throw error;
+        }
+        const status = deal.deadlineReached ? "TIMEOUT" : "UNSET";
+        return { taskId, index: Number(index), status };
+      }
+    })
+  );
+
+  return {
+    dealId,
+    tasks,
+    finished: tasks.every((task) => FINAL_STATUSES.includes(task.status)),
+  };
+}
+
+/**
+ * Poll a deal until all its tasks reach a final status
+ *
+ * Resolves with the unfinished progress when timeoutMs elapses first.
+ */
+export async function waitForDeal(
+  iexec: IExec,
+  dealId: string,
+  { intervalMs = 10_000, timeoutMs = 60 * 60_000, onProgress }: WaitForDealOptions = {}
+): Promise<DealProgress> {
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    const progress = await getDealProgress(iexec, dealId);
+    onProgress?.(progress);
+    if (progress.finished || Date.now() + intervalMs > deadline) {
+      return progress;
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+/**
+ * Download the result archive of a completed task to <outputDir>/<taskId>.zip
+ * @returns The archive path
+ */
+export async function downloadTaskResult(
+  iexec: IExec,
+  taskId: string,
+  outputDir: string
+): Promise<string> {
+  const response = await iexec.task.fetchResults(taskId);
+  const path = join(outputDir, `${taskId}.zip`);
+
+  await mkdir(outputDir, { recursive: true });
+  await writeFile(path, Buffer.from(await response.arrayBuffer()));
+  return path;
+}
@@ -0,0 +1,191 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  decodeAbiParameters,
+  decodeEventLog,
+  parseEventLogs,
+  sliceHex,
+  toFunctionSelector,
+  toFunctionSignature,
+  type Hash,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import { acceptSponsorAbi, pocoAbi, pocoOAppAbi } from "./abi.js";
+import {
+  BATCH_SELECTOR,
+  decodeBatchPayload,
+  decodePocoMessage,
+  type PocoMessage,
+} from "./message.js";
+import { decodePacketHeader } from "./tracker.js";
+
+/**
+ * A PoCo call, with its arguments decoded when the selector is known
+ */
+export interface DecodedPocoCall {
+  selector: Hex;
+  /** Unset when the selector is not a known PoCo function */
+  functionName?: string;
+  signature?: string;
+  /** Arguments by name; orders are decoded into named structs */
+  args?: Record<string, unknown>;
+  /** Why the payload does not decode against the function inputs; args are then unset */
+  decodeError?: string;
+}
+
+/**
+ * A routeCall message with its decoded PoCo call
+ */
+export interface DecodedRoutedMessage extends PocoMessage {
+  /** Known when decoded from a transaction, a log or a full packet */
+  guid?: Hash;
+  nonce?: bigint;
+  call: DecodedPocoCall;
+}
+
+/**
+ * A message that is neither a PocoMessageLib envelope nor a packet carrying
+ * one, reported raw by the tools listing messages
+ */
+export interface UndecodableMessage {
+  message: Hex;
+  guid?: Hash;
+  nonce?: bigint;
+  decodeError: string;
+}
+
+/** First byte of an encoded LayerZero V2 packet (PacketV1Codec) */
+const PACKET_VERSION = "0x01";
+
+/**
+ * Resolve a selector against the PoCo ABI and decode its payload
+ *
+ * Batches decode into their mode and the decoded call of each item, and
+ * acceptSponsor, handled by the receiver itself, like a PoCo call. A payload
+ * that does not match the function inputs is reported in decodeError rather
+ * than thrown, so that malformed or foreign messages can still be listed.
+ */
+export function decodePocoCall(selector: Hex, payload: Hex): DecodedPocoCall {
+  if (selector === BATCH_SELECTOR) {
+    const call = {
+      selector,
+      functionName: "batch",
+      signature: "batch(uint8,(bytes4,bytes)[])",
+    };
+    try {
+      const { mode, calls } = decodeBatchPayload(payload);
+      return {
+        ...call,
+        args: {
+          mode,
+          calls: calls.map(({ targetFunction, payload }) =>
+            decodePocoCall(targetFunction, payload)
+          ),
+        },
+      };
+    } catch (error: any) {
+      return { ...call, decodeError: error.shortMessage ?? error.message };
+    }
+  }
+
+  const item = [...pocoAbi, ...acceptSponsorAbi]
+    .filter((candidate) => candidate.type === "function")
+    .find((candidate) => toFunctionSelector(candidate) === selector);
+  if (!item) {
+    return { selector };
+  }
+
+  const call = { selector, functionName: item.name, signature: toFunctionSignature(item) };
+  try {
+    const values = decodeAbiParameters(item.inputs, payload);
+    return {
+      ...call,
+      args: Object.fromEntries(
+        item.inputs.map((input, index) => [argumentName(input, index), values[index]])
+      ),
+    };
+  } catch (error: any) {
+    return { ...call, decodeError: error.shortMessage ?? error.message };
+  }
+}
+
+/**
+ * Name of a decoded argument: PoCo leaves some inputs unnamed, orders are
+ * then named after their struct (apporder, requestorder, ...)
+ */
+function argumentName(input: { name?: string; internalType?: string }, index: number): string {
+  if (input.name) {
+    return input.name;
+  }
+  const struct = input.internalType?.match(/^struct (?:\w+\.)?(\w+)$/);
+  return struct ? struct[1].toLowerCase() : `arg${index}`;
+}
+
+/**
+ * Decode a routeCall message, either the PocoMessageLib envelope or a full
+ * LayerZero packet as emitted in PacketSent
+ *
+ * Throws when the message is neither; see UndecodableMessage to report it.
+ */
+export function decodeRoutedMessage(message: Hex): DecodedRoutedMessage {
+  if (sliceHex(message, 0, 1) === PACKET_VERSION) {
+    const { guid, nonce } = decodePacketHeader(message);
+    return { ...decodeRoutedMessage(sliceHex(message, 113)), guid, nonce };
+  }
+
+  const envelope = decodePocoMessage(message);
+  return { ...envelope, call: decodePocoCall(envelope.targetFunction, envelope.payload) };
+}
+
+/**
+ * Decode a CrossChainCallInitiated log emitted by the source PocoOApp
+ */
+export function decodeCrossChainCallInitiatedLog(log: {
+  topics: [Hex, ...Hex[]];
+  data: Hex;
+}): DecodedRoutedMessage {
+  const { args } = decodeEventLog({
+    abi: pocoOAppAbi,
+    eventName: "CrossChainCallInitiated",
+    topics: log.topics,
+    data: log.data,
+  });
+  return fromInitiatedEvent(args);
+}
+
+/**
+ * Decode the message sent by a routeCall transaction
+ * @param publicClient Client for the source chain
+ */
+export async function decodeRouteCallTransaction(
+  publicClient: PublicClient,
+  hash: Hash
+): Promise<DecodedRoutedMessage> {
+  const receipt = await publicClient.getTransactionReceipt({ hash });
+  const [initiated] = parseEventLogs({
+    abi: pocoOAppAbi,
+    eventName: "CrossChainCallInitiated",
+    logs: receipt.logs,
+  });
+  if (!initiated) {
+    throw new Error(`No CrossChainCallInitiated event found in transaction ${hash}`);
+  }
+  return fromInitiatedEvent(initiated.args);
+}
+
+function fromInitiatedEvent(
+  args: PocoMessage & { guid: Hash; nonce: bigint }
+): DecodedRoutedMessage {
+  const { guid, nonce, sourceChainId, caller, targetFunction, payload } = args;
+  return {
+    sourceChainId,
+    caller,
+    targetFunction,
+    payload,
+    guid,
+    nonce,
+    call: decodePocoCall(targetFunction, payload),
+  };
+}
@@ -0,0 +1,14 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import type { Hash } from "viem";
+
+/**
+ * Thrown when a transaction is mined but reverted
+ */
+export class TransactionRevertedError extends Error {
+  constructor(readonly hash: Hash) {
+    super(`Transaction ${hash} reverted`);
+    this.name = "TransactionRevertedError";
+  }
+}
@@ -0,0 +1,141 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  createPublicClient,
+  encodeFunctionData,
+  getAddress,
+  http,
+  maxUint128,
+  pad,
+  zeroAddress,
+  zeroHash,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import { decodeLzOptions } from "@iexec/lz-options";
+import { getDestinationChain, loadConfig, type Config } from "@iexec/poco-lz-config";
+import { pocoOAppAbi } from "./abi.js";
+import { getViemChain, getRpcUrl } from "./chains.js";
+import { encodePocoMessage } from "./message.js";
+
+export const DEFAULT_GAS_MARGIN_PERCENT = 20;
+
+/** Message type of routed calls (`PocoOApp.SEND`), whose enforced options the Router adds */
+export const SEND_MSG_TYPE = 1;
+
+export interface EstimateLzReceiveGasParams {
+  /** Source (Router) chain name in config.json */
+  sourceChain: string;
+  /** Active profile; loaded with loadConfig() when omitted */
+  config?: Config;
+  /** Client for the receiver chain; defaults to its RPC from config.json */
+  destinationPublicClient?: PublicClient;
+  /** Client for the source chain, to read the enforced options; defaults to its RPC */
+  sourcePublicClient?: PublicClient;
+  selector: Hex;
+  payload: Hex;
+  /** Account calling routeCall on the source chain */
+  caller: Address;
+  /** Gas added on top of the simulation, in percent (default 20) */
+  marginPercent?: number;
+}
+
+export interface LzReceiveGasEstimate {
+  /** Gas used by the simulated lzReceive */
+  simulatedGas: bigint;
+  marginPercent: number;
+  /** lzReceive gas the Router enforces, added by the endpoint to the caller options */
+  enforcedGas: bigint;
+  /** Gas limit to put in the lzReceive executor option, on top of enforcedGas */
+  gasLimit: bigint;
+}
+
+/**
+ * Estimate the gas the receiver's lzReceive needs for a routed call
+ *
+ * Simulates lzReceive on the receiver chain exactly as the endpoint delivers
+ * it (sender = endpoint, origin = the source Router peer), so the PoCo call
+ * runs with the receiver PocoOApp as msg.sender. A state override funds the
+ * endpoint, which never holds native tokens. Reverts of the PoCo call surface
+ * here, before any fee is paid.
+ *
+ * The Router combines the caller options with its enforced options, whose
+ * lzReceive gas the executor adds up: the returned gasLimit is only the part
+ * of the simulated gas and margin above the enforced gas.
+ */
+export async function estimateLzReceiveGas({
+  sourceChain,
+  config = loadConfig(),
+  destinationPublicClient,
+  sourcePublicClient,
+  selector,
+  payload,
+  caller,
+  marginPercent = DEFAULT_GAS_MARGIN_PERCENT,
+}: EstimateLzReceiveGasParams): Promise<LzReceiveGasEstimate> {
+  const sourceConfig = config.chains[sourceChain];
+  const [destinationChain, destinationConfig] = getDestinationChain(config, sourceChain);
+  if (!sourceConfig.pocoOAppAddress) {
+    throw new Error(`pocoOAppAddress is not configured for ${sourceChain}`);
+  }
+  if (!destinationConfig.pocoOAppAddress) {
+    throw new Error(`pocoOAppAddress is not configured for ${destinationChain}`);
+  }
+  if (!Number.isInteger(marginPercent) || marginPercent < 0) {
+    throw new Error(`Gas margin must be a non-negative integer percentage, got ${marginPercent}`);
+  }
+
+  const client =
+    destinationPublicClient ??
+    createPublicClient({
+      chain: getViemChain(destinationChain, config),
+      transport: http(getRpcUrl(destinationChain, config)),
+    });
+  const sourceClient =
+    sourcePublicClient ??
+    createPublicClient({
+      chain: getViemChain(sourceChain, config),
+      transport: http(getRpcUrl(sourceChain, config)),
+    });
+  const endpoint = getAddress(destinationConfig.lzEndpointAddress);
+
+  const simulatedGas = await client.estimateGas({
+    account: endpoint,
+    to: getAddress(destinationConfig.pocoOAppAddress),
+    data: encodeFunctionData({
+      abi: pocoOAppAbi,
+      functionName: "lzReceive",
+      args: [
+        {
+          srcEid: sourceConfig.lzEndpointId,
+          sender: pad(getAddress(sourceConfig.pocoOAppAddress)),
+          nonce: 1n,
+        },
+        zeroHash,
+        encodePocoMessage(sourceConfig.chainId, caller, selector, payload),
+        zeroAddress,
+        "0x",
+      ],
+    }),
+    stateOverride: [{ address: endpoint, balance: maxUint128 }],
+  });
+
+  const enforcedOptions = await sourceClient.readContract({
+    address: getAddress(sourceConfig.pocoOAppAddress),
+    abi: pocoOAppAbi,
+    functionName: "enforcedOptions",
+    args: [destinationConfig.lzEndpointId, SEND_MSG_TYPE],
+  });
+  const enforcedGas =
+    enforcedOptions === "0x" ? 0n : (decodeLzOptions(enforcedOptions).lzReceive?.gas ?? 0n);
+
+  const neededGas = (simulatedGas * BigInt(100 + marginPercent)) / 100n;
+  return {
+    simulatedGas,
+    marginPercent,
+    enforcedGas,
+    gasLimit: neededGas > enforcedGas ? neededGas - enforcedGas : 0n,
+  };
+}
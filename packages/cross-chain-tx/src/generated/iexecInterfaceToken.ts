@@ -0,0 +1,1751 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+// Generated from @iexec/poco@6.1.0 abis/contracts/IexecInterfaceToken.json, the ABI
+// of the PoCo diamond on token chains. Do not edit: run `npm run generate:abi` after
+// bumping the @iexec/poco devDependency.
+
+export const iexecInterfaceTokenAbi = [
+  {
+    inputs: [{ internalType: "string", name: "reason", type: "string" }],
+    name: "IncompatibleDatasetOrder",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "worker", type: "address" },
+      { indexed: true, internalType: "bytes32", name: "taskid", type: "bytes32" },
+    ],
+    name: "AccurateContribution",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "owner", type: "address" },
+      { indexed: true, internalType: "address", name: "spender", type: "address" },
+      { indexed: false, internalType: "uint256", name: "value", type: "uint256" },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "app", type: "address" },
+          { internalType: "uint256", name: "appprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "address", name: "datasetrestrict", type: "address" },
+          { internalType: "address", name: "workerpoolrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        indexed: false,
+        internalType: "struct IexecLibOrders_v5.AppOrder",
+        name: "apporder",
+        type: "tuple",
+      },
+    ],
+    name: "BroadcastAppOrder",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "dataset", type: "address" },
+          { internalType: "uint256", name: "datasetprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "address", name: "apprestrict", type: "address" },
+          { internalType: "address", name: "workerpoolrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        indexed: false,
+        internalType: "struct IexecLibOrders_v5.DatasetOrder",
+        name: "datasetorder",
+        type: "tuple",
+      },
+    ],
+    name: "BroadcastDatasetOrder",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "app", type: "address" },
+          { internalType: "uint256", name: "appmaxprice", type: "uint256" },
+          { internalType: "address", name: "dataset", type: "address" },
+          { internalType: "uint256", name: "datasetmaxprice", type: "uint256" },
+          { internalType: "address", name: "workerpool", type: "address" },
+          { internalType: "uint256", name: "workerpoolmaxprice", type: "uint256" },
+          { internalType: "address", name: "requester", type: "address" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "uint256", name: "category", type: "uint256" },
+          { internalType: "uint256", name: "trust", type: "uint256" },
+          { internalType: "address", name: "beneficiary", type: "address" },
+          { internalType: "address", name: "callback", type: "address" },
+          { internalType: "string", name: "params", type: "string" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        indexed: false,
+        internalType: "struct IexecLibOrders_v5.RequestOrder",
+        name: "requestorder",
+        type: "tuple",
+      },
+    ],
+    name: "BroadcastRequestOrder",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "workerpool", type: "address" },
+          { internalType: "uint256", name: "workerpoolprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "uint256", name: "category", type: "uint256" },
+          { internalType: "uint256", name: "trust", type: "uint256" },
+          { internalType: "address", name: "apprestrict", type: "address" },
+          { internalType: "address", name: "datasetrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        indexed: false,
+        internalType: "struct IexecLibOrders_v5.WorkerpoolOrder",
+        name: "workerpoolorder",
+        type: "tuple",
+      },
+    ],
+    name: "BroadcastWorkerpoolOrder",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, internalType: "bytes32", name: "appHash", type: "bytes32" }],
+    name: "ClosedAppOrder",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, internalType: "bytes32", name: "datasetHash", type: "bytes32" }],
+    name: "ClosedDatasetOrder",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, internalType: "bytes32", name: "requestHash", type: "bytes32" }],
+    name: "ClosedRequestOrder",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, internalType: "bytes32", name: "workerpoolHash", type: "bytes32" }],
+    name: "ClosedWorkerpoolOrder",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, internalType: "uint256", name: "catid", type: "uint256" },
+      { indexed: false, internalType: "string", name: "name", type: "string" },
+      { indexed: false, internalType: "string", name: "description", type: "string" },
+      { indexed: false, internalType: "uint256", name: "workClockTimeRef", type: "uint256" },
+    ],
+    name: "CreateCategory",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, internalType: "bytes32", name: "dealId", type: "bytes32" },
+      { indexed: false, internalType: "address", name: "sponsor", type: "address" },
+    ],
+    name: "DealSponsored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "worker", type: "address" },
+      { indexed: true, internalType: "bytes32", name: "taskid", type: "bytes32" },
+    ],
+    name: "FaultyContribution",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, internalType: "address", name: "owner", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" },
+    ],
+    name: "Lock",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, internalType: "bytes32", name: "dealid", type: "bytes32" },
+      { indexed: false, internalType: "bytes32", name: "appHash", type: "bytes32" },
+      { indexed: false, internalType: "bytes32", name: "datasetHash", type: "bytes32" },
+      { indexed: false, internalType: "bytes32", name: "workerpoolHash", type: "bytes32" },
+      { indexed: false, internalType: "bytes32", name: "requestHash", type: "bytes32" },
+      { indexed: false, internalType: "uint256", name: "volume", type: "uint256" },
+    ],
+    name: "OrdersMatched",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "previousOwner", type: "address" },
+      { indexed: true, internalType: "address", name: "newOwner", type: "address" },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, internalType: "address", name: "owner", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" },
+      { indexed: false, internalType: "bytes32", name: "ref", type: "bytes32" },
+    ],
+    name: "Reward",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "workerpool", type: "address" },
+      { indexed: false, internalType: "bytes32", name: "dealid", type: "bytes32" },
+    ],
+    name: "SchedulerNotice",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, internalType: "address", name: "owner", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" },
+      { indexed: false, internalType: "bytes32", name: "ref", type: "bytes32" },
+    ],
+    name: "Seize",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, internalType: "bytes32", name: "appHash", type: "bytes32" }],
+    name: "SignedAppOrder",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, internalType: "bytes32", name: "datasetHash", type: "bytes32" }],
+    name: "SignedDatasetOrder",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, internalType: "bytes32", name: "requestHash", type: "bytes32" }],
+    name: "SignedRequestOrder",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, internalType: "bytes32", name: "workerpoolHash", type: "bytes32" }],
+    name: "SignedWorkerpoolOrder",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, internalType: "bytes32", name: "taskid", type: "bytes32" }],
+    name: "TaskClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "bytes32", name: "taskid", type: "bytes32" },
+      { indexed: false, internalType: "bytes32", name: "consensus", type: "bytes32" },
+    ],
+    name: "TaskConsensus",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "bytes32", name: "taskid", type: "bytes32" },
+      { indexed: true, internalType: "address", name: "worker", type: "address" },
+      { indexed: false, internalType: "bytes32", name: "hash", type: "bytes32" },
+    ],
+    name: "TaskContribute",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "bytes32", name: "taskid", type: "bytes32" },
+      { indexed: false, internalType: "bytes", name: "results", type: "bytes" },
+    ],
+    name: "TaskFinalize",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "bytes32", name: "taskid", type: "bytes32" },
+      { indexed: true, internalType: "address", name: "workerpool", type: "address" },
+    ],
+    name: "TaskInitialize",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, internalType: "bytes32", name: "taskid", type: "bytes32" }],
+    name: "TaskReopen",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "bytes32", name: "taskid", type: "bytes32" },
+      { indexed: true, internalType: "address", name: "worker", type: "address" },
+      { indexed: false, internalType: "bytes32", name: "digest", type: "bytes32" },
+    ],
+    name: "TaskReveal",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "from", type: "address" },
+      { indexed: true, internalType: "address", name: "to", type: "address" },
+      { indexed: false, internalType: "uint256", name: "value", type: "uint256" },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, internalType: "address", name: "owner", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" },
+    ],
+    name: "Unlock",
+    type: "event",
+  },
+  { stateMutability: "payable", type: "fallback" },
+  {
+    inputs: [
+      { internalType: "address", name: "account", type: "address" },
+      { internalType: "address", name: "spender", type: "address" },
+    ],
+    name: "allowance",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "appregistry",
+    outputs: [{ internalType: "contract IRegistry", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "uint256", name: "", type: "uint256" },
+    ],
+    name: "approve",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "bytes", name: "", type: "bytes" },
+    ],
+    name: "approveAndCall",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "dataset", type: "address" },
+          { internalType: "uint256", name: "datasetprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "address", name: "apprestrict", type: "address" },
+          { internalType: "address", name: "workerpoolrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.DatasetOrder",
+        name: "datasetOrder",
+        type: "tuple",
+      },
+      { internalType: "bytes32", name: "dealId", type: "bytes32" },
+    ],
+    name: "assertDatasetDealCompatibility",
+    outputs: [],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "account", type: "address" }],
+    name: "balanceOf",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "app", type: "address" },
+          { internalType: "uint256", name: "appprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "address", name: "datasetrestrict", type: "address" },
+          { internalType: "address", name: "workerpoolrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.AppOrder",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    name: "broadcastAppOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "dataset", type: "address" },
+          { internalType: "uint256", name: "datasetprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "address", name: "apprestrict", type: "address" },
+          { internalType: "address", name: "workerpoolrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.DatasetOrder",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    name: "broadcastDatasetOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "app", type: "address" },
+          { internalType: "uint256", name: "appmaxprice", type: "uint256" },
+          { internalType: "address", name: "dataset", type: "address" },
+          { internalType: "uint256", name: "datasetmaxprice", type: "uint256" },
+          { internalType: "address", name: "workerpool", type: "address" },
+          { internalType: "uint256", name: "workerpoolmaxprice", type: "uint256" },
+          { internalType: "address", name: "requester", type: "address" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "uint256", name: "category", type: "uint256" },
+          { internalType: "uint256", name: "trust", type: "uint256" },
+          { internalType: "address", name: "beneficiary", type: "address" },
+          { internalType: "address", name: "callback", type: "address" },
+          { internalType: "string", name: "params", type: "string" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.RequestOrder",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    name: "broadcastRequestOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "workerpool", type: "address" },
+          { internalType: "uint256", name: "workerpoolprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "uint256", name: "category", type: "uint256" },
+          { internalType: "uint256", name: "trust", type: "uint256" },
+          { internalType: "address", name: "apprestrict", type: "address" },
+          { internalType: "address", name: "datasetrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.WorkerpoolOrder",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    name: "broadcastWorkerpoolOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "callbackgas",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "address", name: "", type: "address" },
+    ],
+    name: "changeRegistries",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "taskId", type: "bytes32" }],
+    name: "claim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32[]", name: "taskIds", type: "bytes32[]" }],
+    name: "claimArray",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "app", type: "address" },
+          { internalType: "uint256", name: "appprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "address", name: "datasetrestrict", type: "address" },
+          { internalType: "address", name: "workerpoolrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.AppOrder",
+        name: "appOrder",
+        type: "tuple",
+      },
+      {
+        components: [
+          { internalType: "address", name: "dataset", type: "address" },
+          { internalType: "uint256", name: "datasetprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "address", name: "apprestrict", type: "address" },
+          { internalType: "address", name: "workerpoolrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.DatasetOrder",
+        name: "datasetOrder",
+        type: "tuple",
+      },
+      {
+        components: [
+          { internalType: "address", name: "workerpool", type: "address" },
+          { internalType: "uint256", name: "workerpoolprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "uint256", name: "category", type: "uint256" },
+          { internalType: "uint256", name: "trust", type: "uint256" },
+          { internalType: "address", name: "apprestrict", type: "address" },
+          { internalType: "address", name: "datasetrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.WorkerpoolOrder",
+        name: "workerpoolOrder",
+        type: "tuple",
+      },
+      {
+        components: [
+          { internalType: "address", name: "app", type: "address" },
+          { internalType: "uint256", name: "appmaxprice", type: "uint256" },
+          { internalType: "address", name: "dataset", type: "address" },
+          { internalType: "uint256", name: "datasetmaxprice", type: "uint256" },
+          { internalType: "address", name: "workerpool", type: "address" },
+          { internalType: "uint256", name: "workerpoolmaxprice", type: "uint256" },
+          { internalType: "address", name: "requester", type: "address" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "uint256", name: "category", type: "uint256" },
+          { internalType: "uint256", name: "trust", type: "uint256" },
+          { internalType: "address", name: "beneficiary", type: "address" },
+          { internalType: "address", name: "callback", type: "address" },
+          { internalType: "string", name: "params", type: "string" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.RequestOrder",
+        name: "requestOrder",
+        type: "tuple",
+      },
+    ],
+    name: "computeDealVolume",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "string", name: "", type: "string" },
+      { internalType: "string", name: "", type: "string" },
+      { internalType: "uint8", name: "", type: "uint8" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "address", name: "", type: "address" },
+    ],
+    name: "configure",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32", name: "taskId", type: "bytes32" },
+      { internalType: "bytes32", name: "resultHash", type: "bytes32" },
+      { internalType: "bytes32", name: "resultSeal", type: "bytes32" },
+      { internalType: "address", name: "enclaveChallenge", type: "address" },
+      { internalType: "bytes", name: "enclaveSign", type: "bytes" },
+      { internalType: "bytes", name: "authorizationSign", type: "bytes" },
+    ],
+    name: "contribute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32", name: "taskId", type: "bytes32" },
+      { internalType: "bytes32", name: "resultDigest", type: "bytes32" },
+      { internalType: "bytes", name: "results", type: "bytes" },
+      { internalType: "bytes", name: "resultsCallback", type: "bytes" },
+      { internalType: "address", name: "enclaveChallenge", type: "address" },
+      { internalType: "bytes", name: "enclaveSign", type: "bytes" },
+      { internalType: "bytes", name: "authorizationSign", type: "bytes" },
+    ],
+    name: "contributeAndFinalize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "contribution_deadline_ratio",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "countCategory",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "string", name: "", type: "string" },
+      { internalType: "string", name: "", type: "string" },
+      { internalType: "uint256", name: "", type: "uint256" },
+    ],
+    name: "createCategory",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "datasetregistry",
+    outputs: [{ internalType: "contract IRegistry", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [{ internalType: "uint8", name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "uint256", name: "", type: "uint256" },
+    ],
+    name: "decreaseAllowance",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    name: "deposit",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "address", name: "", type: "address" },
+    ],
+    name: "depositFor",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256[]", name: "", type: "uint256[]" },
+      { internalType: "address[]", name: "", type: "address[]" },
+    ],
+    name: "depositForArray",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "domain",
+    outputs: [
+      {
+        components: [
+          { internalType: "string", name: "name", type: "string" },
+          { internalType: "string", name: "version", type: "string" },
+          { internalType: "uint256", name: "chainId", type: "uint256" },
+          { internalType: "address", name: "verifyingContract", type: "address" },
+        ],
+        internalType: "struct IexecLibOrders_v5.EIP712Domain",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712domain_separator",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "final_deadline_ratio",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32", name: "taskId", type: "bytes32" },
+      { internalType: "bytes", name: "results", type: "bytes" },
+      { internalType: "bytes", name: "resultsCallback", type: "bytes" },
+    ],
+    name: "finalize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "account", type: "address" }],
+    name: "frozenOf",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "groupmember_purpose",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "", type: "address" }],
+    name: "importScore",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "uint256", name: "", type: "uint256" },
+    ],
+    name: "increaseAllowance",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32", name: "dealId", type: "bytes32" },
+      { internalType: "uint256", name: "index", type: "uint256" },
+    ],
+    name: "initialize",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32[]", name: "dealIds", type: "bytes32[]" },
+      { internalType: "uint256[]", name: "indexes", type: "uint256[]" },
+    ],
+    name: "initializeAndClaimArray",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32[]", name: "dealIds", type: "bytes32[]" },
+      { internalType: "uint256[]", name: "indexes", type: "uint256[]" },
+    ],
+    name: "initializeArray",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "kitty_address",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "kitty_min",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "kitty_ratio",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            components: [
+              { internalType: "address", name: "app", type: "address" },
+              { internalType: "uint256", name: "appprice", type: "uint256" },
+              { internalType: "uint256", name: "volume", type: "uint256" },
+              { internalType: "bytes32", name: "tag", type: "bytes32" },
+              { internalType: "address", name: "datasetrestrict", type: "address" },
+              { internalType: "address", name: "workerpoolrestrict", type: "address" },
+              { internalType: "address", name: "requesterrestrict", type: "address" },
+              { internalType: "bytes32", name: "salt", type: "bytes32" },
+              { internalType: "bytes", name: "sign", type: "bytes" },
+            ],
+            internalType: "struct IexecLibOrders_v5.AppOrder",
+            name: "order",
+            type: "tuple",
+          },
+          {
+            internalType: "enum IexecLibOrders_v5.OrderOperationEnum",
+            name: "operation",
+            type: "uint8",
+          },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.AppOrderOperation",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    name: "manageAppOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            components: [
+              { internalType: "address", name: "dataset", type: "address" },
+              { internalType: "uint256", name: "datasetprice", type: "uint256" },
+              { internalType: "uint256", name: "volume", type: "uint256" },
+              { internalType: "bytes32", name: "tag", type: "bytes32" },
+              { internalType: "address", name: "apprestrict", type: "address" },
+              { internalType: "address", name: "workerpoolrestrict", type: "address" },
+              { internalType: "address", name: "requesterrestrict", type: "address" },
+              { internalType: "bytes32", name: "salt", type: "bytes32" },
+              { internalType: "bytes", name: "sign", type: "bytes" },
+            ],
+            internalType: "struct IexecLibOrders_v5.DatasetOrder",
+            name: "order",
+            type: "tuple",
+          },
+          {
+            internalType: "enum IexecLibOrders_v5.OrderOperationEnum",
+            name: "operation",
+            type: "uint8",
+          },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.DatasetOrderOperation",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    name: "manageDatasetOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            components: [
+              { internalType: "address", name: "app", type: "address" },
+              { internalType: "uint256", name: "appmaxprice", type: "uint256" },
+              { internalType: "address", name: "dataset", type: "address" },
+              { internalType: "uint256", name: "datasetmaxprice", type: "uint256" },
+              { internalType: "address", name: "workerpool", type: "address" },
+              { internalType: "uint256", name: "workerpoolmaxprice", type: "uint256" },
+              { internalType: "address", name: "requester", type: "address" },
+              { internalType: "uint256", name: "volume", type: "uint256" },
+              { internalType: "bytes32", name: "tag", type: "bytes32" },
+              { internalType: "uint256", name: "category", type: "uint256" },
+              { internalType: "uint256", name: "trust", type: "uint256" },
+              { internalType: "address", name: "beneficiary", type: "address" },
+              { internalType: "address", name: "callback", type: "address" },
+              { internalType: "string", name: "params", type: "string" },
+              { internalType: "bytes32", name: "salt", type: "bytes32" },
+              { internalType: "bytes", name: "sign", type: "bytes" },
+            ],
+            internalType: "struct IexecLibOrders_v5.RequestOrder",
+            name: "order",
+            type: "tuple",
+          },
+          {
+            internalType: "enum IexecLibOrders_v5.OrderOperationEnum",
+            name: "operation",
+            type: "uint8",
+          },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.RequestOrderOperation",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    name: "manageRequestOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            components: [
+              { internalType: "address", name: "workerpool", type: "address" },
+              { internalType: "uint256", name: "workerpoolprice", type: "uint256" },
+              { internalType: "uint256", name: "volume", type: "uint256" },
+              { internalType: "bytes32", name: "tag", type: "bytes32" },
+              { internalType: "uint256", name: "category", type: "uint256" },
+              { internalType: "uint256", name: "trust", type: "uint256" },
+              { internalType: "address", name: "apprestrict", type: "address" },
+              { internalType: "address", name: "datasetrestrict", type: "address" },
+              { internalType: "address", name: "requesterrestrict", type: "address" },
+              { internalType: "bytes32", name: "salt", type: "bytes32" },
+              { internalType: "bytes", name: "sign", type: "bytes" },
+            ],
+            internalType: "struct IexecLibOrders_v5.WorkerpoolOrder",
+            name: "order",
+            type: "tuple",
+          },
+          {
+            internalType: "enum IexecLibOrders_v5.OrderOperationEnum",
+            name: "operation",
+            type: "uint8",
+          },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.WorkerpoolOrderOperation",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    name: "manageWorkerpoolOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "app", type: "address" },
+          { internalType: "uint256", name: "appprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "address", name: "datasetrestrict", type: "address" },
+          { internalType: "address", name: "workerpoolrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.AppOrder",
+        name: "",
+        type: "tuple",
+      },
+      {
+        components: [
+          { internalType: "address", name: "dataset", type: "address" },
+          { internalType: "uint256", name: "datasetprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "address", name: "apprestrict", type: "address" },
+          { internalType: "address", name: "workerpoolrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.DatasetOrder",
+        name: "",
+        type: "tuple",
+      },
+      {
+        components: [
+          { internalType: "address", name: "workerpool", type: "address" },
+          { internalType: "uint256", name: "workerpoolprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "uint256", name: "category", type: "uint256" },
+          { internalType: "uint256", name: "trust", type: "uint256" },
+          { internalType: "address", name: "apprestrict", type: "address" },
+          { internalType: "address", name: "datasetrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.WorkerpoolOrder",
+        name: "",
+        type: "tuple",
+      },
+      {
+        components: [
+          { internalType: "address", name: "app", type: "address" },
+          { internalType: "uint256", name: "appmaxprice", type: "uint256" },
+          { internalType: "address", name: "dataset", type: "address" },
+          { internalType: "uint256", name: "datasetmaxprice", type: "uint256" },
+          { internalType: "address", name: "workerpool", type: "address" },
+          { internalType: "uint256", name: "workerpoolmaxprice", type: "uint256" },
+          { internalType: "address", name: "requester", type: "address" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "uint256", name: "category", type: "uint256" },
+          { internalType: "uint256", name: "trust", type: "uint256" },
+          { internalType: "address", name: "beneficiary", type: "address" },
+          { internalType: "address", name: "callback", type: "address" },
+          { internalType: "string", name: "params", type: "string" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.RequestOrder",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    name: "matchOrders",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [{ internalType: "string", name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "bytes", name: "", type: "bytes" },
+    ],
+    name: "receiveApproval",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "recover",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "taskId", type: "bytes32" }],
+    name: "reopen",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "id", type: "bytes32" }],
+    name: "resultFor",
+    outputs: [{ internalType: "bytes", name: "", type: "bytes" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32", name: "taskId", type: "bytes32" },
+      { internalType: "bytes32", name: "resultDigest", type: "bytes32" },
+    ],
+    name: "reveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reveal_deadline_ratio",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    name: "setCallbackGas",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "", type: "address" }],
+    name: "setTeeBroker",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "app", type: "address" },
+          { internalType: "uint256", name: "appprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "address", name: "datasetrestrict", type: "address" },
+          { internalType: "address", name: "workerpoolrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.AppOrder",
+        name: "",
+        type: "tuple",
+      },
+      {
+        components: [
+          { internalType: "address", name: "dataset", type: "address" },
+          { internalType: "uint256", name: "datasetprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "address", name: "apprestrict", type: "address" },
+          { internalType: "address", name: "workerpoolrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.DatasetOrder",
+        name: "",
+        type: "tuple",
+      },
+      {
+        components: [
+          { internalType: "address", name: "workerpool", type: "address" },
+          { internalType: "uint256", name: "workerpoolprice", type: "uint256" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "uint256", name: "category", type: "uint256" },
+          { internalType: "uint256", name: "trust", type: "uint256" },
+          { internalType: "address", name: "apprestrict", type: "address" },
+          { internalType: "address", name: "datasetrestrict", type: "address" },
+          { internalType: "address", name: "requesterrestrict", type: "address" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.WorkerpoolOrder",
+        name: "",
+        type: "tuple",
+      },
+      {
+        components: [
+          { internalType: "address", name: "app", type: "address" },
+          { internalType: "uint256", name: "appmaxprice", type: "uint256" },
+          { internalType: "address", name: "dataset", type: "address" },
+          { internalType: "uint256", name: "datasetmaxprice", type: "uint256" },
+          { internalType: "address", name: "workerpool", type: "address" },
+          { internalType: "uint256", name: "workerpoolmaxprice", type: "uint256" },
+          { internalType: "address", name: "requester", type: "address" },
+          { internalType: "uint256", name: "volume", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "uint256", name: "category", type: "uint256" },
+          { internalType: "uint256", name: "trust", type: "uint256" },
+          { internalType: "address", name: "beneficiary", type: "address" },
+          { internalType: "address", name: "callback", type: "address" },
+          { internalType: "string", name: "params", type: "string" },
+          { internalType: "bytes32", name: "salt", type: "bytes32" },
+          { internalType: "bytes", name: "sign", type: "bytes" },
+        ],
+        internalType: "struct IexecLibOrders_v5.RequestOrder",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    name: "sponsorMatchOrders",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [{ internalType: "string", name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "teebroker",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "uint256", name: "", type: "uint256" },
+    ],
+    name: "transfer",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "uint256", name: "", type: "uint256" },
+    ],
+    name: "transferFrom",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "", type: "address" }],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "updateDomainSeparator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "bytes32", name: "", type: "bytes32" },
+    ],
+    name: "verifyPresignature",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "bytes32", name: "", type: "bytes32" },
+      { internalType: "bytes", name: "", type: "bytes" },
+    ],
+    name: "verifyPresignatureOrSignature",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "bytes32", name: "", type: "bytes32" },
+      { internalType: "bytes", name: "", type: "bytes" },
+    ],
+    name: "verifySignature",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "account", type: "address" }],
+    name: "viewAccount",
+    outputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "stake", type: "uint256" },
+          { internalType: "uint256", name: "locked", type: "uint256" },
+        ],
+        internalType: "struct IexecLibCore_v5.Account",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "_user", type: "address" }],
+    name: "viewAccountABILegacy",
+    outputs: [
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "uint256", name: "", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "app", type: "address" }],
+    name: "viewApp",
+    outputs: [
+      {
+        components: [
+          { internalType: "address", name: "owner", type: "address" },
+          { internalType: "string", name: "m_appName", type: "string" },
+          { internalType: "string", name: "m_appType", type: "string" },
+          { internalType: "bytes", name: "m_appMultiaddr", type: "bytes" },
+          { internalType: "bytes32", name: "m_appChecksum", type: "bytes32" },
+          { internalType: "bytes", name: "m_appMREnclave", type: "bytes" },
+        ],
+        internalType: "struct IexecLibCore_v5.AppInfo",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "_catid", type: "uint256" }],
+    name: "viewCategory",
+    outputs: [
+      {
+        components: [
+          { internalType: "string", name: "name", type: "string" },
+          { internalType: "string", name: "description", type: "string" },
+          { internalType: "uint256", name: "workClockTimeRef", type: "uint256" },
+        ],
+        internalType: "struct IexecLibCore_v5.Category",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "_catid", type: "uint256" }],
+    name: "viewCategoryABILegacy",
+    outputs: [
+      { internalType: "string", name: "", type: "string" },
+      { internalType: "string", name: "", type: "string" },
+      { internalType: "uint256", name: "", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "_id", type: "bytes32" }],
+    name: "viewConfigABILegacy",
+    outputs: [
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "uint256", name: "", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "_id", type: "bytes32" }],
+    name: "viewConsumed",
+    outputs: [{ internalType: "uint256", name: "consumed", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32", name: "_taskid", type: "bytes32" },
+      { internalType: "address", name: "_worker", type: "address" },
+    ],
+    name: "viewContribution",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "enum IexecLibCore_v5.ContributionStatusEnum",
+            name: "status",
+            type: "uint8",
+          },
+          { internalType: "bytes32", name: "resultHash", type: "bytes32" },
+          { internalType: "bytes32", name: "resultSeal", type: "bytes32" },
+          { internalType: "address", name: "enclaveChallenge", type: "address" },
+          { internalType: "uint256", name: "weight", type: "uint256" },
+        ],
+        internalType: "struct IexecLibCore_v5.Contribution",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32", name: "_taskid", type: "bytes32" },
+      { internalType: "address", name: "_worker", type: "address" },
+    ],
+    name: "viewContributionABILegacy",
+    outputs: [
+      { internalType: "enum IexecLibCore_v5.ContributionStatusEnum", name: "", type: "uint8" },
+      { internalType: "bytes32", name: "", type: "bytes32" },
+      { internalType: "bytes32", name: "", type: "bytes32" },
+      { internalType: "address", name: "", type: "address" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "dataset", type: "address" }],
+    name: "viewDataset",
+    outputs: [
+      {
+        components: [
+          { internalType: "address", name: "owner", type: "address" },
+          { internalType: "string", name: "m_datasetName", type: "string" },
+          { internalType: "bytes", name: "m_datasetMultiaddr", type: "bytes" },
+          { internalType: "bytes32", name: "m_datasetChecksum", type: "bytes32" },
+        ],
+        internalType: "struct IexecLibCore_v5.DatasetInfo",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "id", type: "bytes32" }],
+    name: "viewDeal",
+    outputs: [
+      {
+        components: [
+          {
+            components: [
+              { internalType: "address", name: "pointer", type: "address" },
+              { internalType: "address", name: "owner", type: "address" },
+              { internalType: "uint256", name: "price", type: "uint256" },
+            ],
+            internalType: "struct IexecLibCore_v5.Resource",
+            name: "app",
+            type: "tuple",
+          },
+          {
+            components: [
+              { internalType: "address", name: "pointer", type: "address" },
+              { internalType: "address", name: "owner", type: "address" },
+              { internalType: "uint256", name: "price", type: "uint256" },
+            ],
+            internalType: "struct IexecLibCore_v5.Resource",
+            name: "dataset",
+            type: "tuple",
+          },
+          {
+            components: [
+              { internalType: "address", name: "pointer", type: "address" },
+              { internalType: "address", name: "owner", type: "address" },
+              { internalType: "uint256", name: "price", type: "uint256" },
+            ],
+            internalType: "struct IexecLibCore_v5.Resource",
+            name: "workerpool",
+            type: "tuple",
+          },
+          { internalType: "uint256", name: "trust", type: "uint256" },
+          { internalType: "uint256", name: "category", type: "uint256" },
+          { internalType: "bytes32", name: "tag", type: "bytes32" },
+          { internalType: "address", name: "requester", type: "address" },
+          { internalType: "address", name: "beneficiary", type: "address" },
+          { internalType: "address", name: "callback", type: "address" },
+          { internalType: "string", name: "params", type: "string" },
+          { internalType: "uint256", name: "startTime", type: "uint256" },
+          { internalType: "uint256", name: "botFirst", type: "uint256" },
+          { internalType: "uint256", name: "botSize", type: "uint256" },
+          { internalType: "uint256", name: "workerStake", type: "uint256" },
+          { internalType: "uint256", name: "schedulerRewardRatio", type: "uint256" },
+          { internalType: "address", name: "sponsor", type: "address" },
+        ],
+        internalType: "struct IexecLibCore_v5.Deal",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "_id", type: "bytes32" }],
+    name: "viewDealABILegacy_pt1",
+    outputs: [
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "uint256", name: "", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "_id", type: "bytes32" }],
+    name: "viewDealABILegacy_pt2",
+    outputs: [
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "bytes32", name: "", type: "bytes32" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "address", name: "", type: "address" },
+      { internalType: "string", name: "", type: "string" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "_id", type: "bytes32" }],
+    name: "viewPresigned",
+    outputs: [{ internalType: "address", name: "signer", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "_worker", type: "address" }],
+    name: "viewScore",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "id", type: "bytes32" }],
+    name: "viewTask",
+    outputs: [
+      {
+        components: [
+          { internalType: "enum IexecLibCore_v5.TaskStatusEnum", name: "status", type: "uint8" },
+          { internalType: "bytes32", name: "dealid", type: "bytes32" },
+          { internalType: "uint256", name: "idx", type: "uint256" },
+          { internalType: "uint256", name: "timeref", type: "uint256" },
+          { internalType: "uint256", name: "contributionDeadline", type: "uint256" },
+          { internalType: "uint256", name: "revealDeadline", type: "uint256" },
+          { internalType: "uint256", name: "finalDeadline", type: "uint256" },
+          { internalType: "bytes32", name: "consensusValue", type: "bytes32" },
+          { internalType: "uint256", name: "revealCounter", type: "uint256" },
+          { internalType: "uint256", name: "winnerCounter", type: "uint256" },
+          { internalType: "address[]", name: "contributors", type: "address[]" },
+          { internalType: "bytes32", name: "resultDigest", type: "bytes32" },
+          { internalType: "bytes", name: "results", type: "bytes" },
+          { internalType: "uint256", name: "resultsTimestamp", type: "uint256" },
+          { internalType: "bytes", name: "resultsCallback", type: "bytes" },
+        ],
+        internalType: "struct IexecLibCore_v5.Task",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "_taskid", type: "bytes32" }],
+    name: "viewTaskABILegacy",
+    outputs: [
+      { internalType: "enum IexecLibCore_v5.TaskStatusEnum", name: "", type: "uint8" },
+      { internalType: "bytes32", name: "", type: "bytes32" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "bytes32", name: "", type: "bytes32" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "address[]", name: "", type: "address[]" },
+      { internalType: "bytes", name: "", type: "bytes" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "workerpool", type: "address" }],
+    name: "viewWorkerpool",
+    outputs: [
+      {
+        components: [
+          { internalType: "address", name: "owner", type: "address" },
+          { internalType: "string", name: "m_workerpoolDescription", type: "string" },
+          { internalType: "uint256", name: "m_workerStakeRatioPolicy", type: "uint256" },
+          { internalType: "uint256", name: "m_schedulerRewardRatioPolicy", type: "uint256" },
+        ],
+        internalType: "struct IexecLibCore_v5.WorkerpoolInfo",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    name: "withdraw",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "address", name: "", type: "address" },
+    ],
+    name: "withdrawTo",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "workerpool_stake_ratio",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "workerpoolregistry",
+    outputs: [{ internalType: "contract IRegistry", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  { stateMutability: "payable", type: "receive" },
+] as const;
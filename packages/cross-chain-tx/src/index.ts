@@ -0,0 +1,110 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+export { CrossChainPocoClient } from "./client.js";
+export type {
+  CrossChainPocoClientOptions,
+  FeeQuotes,
+  LzTokenAllowance,
+  QuoteCallParams,
+  RouteCallParams,
+  RouteCallReceipt,
+} from "./client.js";
+export { CrossChainTracker, decodePacketHeader, decodeRevertReason } from "./tracker.js";
+export type {
+  BatchCallResult,
+  CrossChainTrackerOptions,
+  DeliveryStatus,
+  PacketHeader,
+  SourceMessage,
+  WaitForDeliveryOptions,
+} from "./tracker.js";
+export { CrossChainRecovery, DEFAULT_RECOVERY_LOOKBACK_BLOCKS } from "./recovery.js";
+export type { CrossChainRecoveryOptions, MessageOrigin, StuckMessage } from "./recovery.js";
+export { estimateLzReceiveGas, DEFAULT_GAS_MARGIN_PERCENT, SEND_MSG_TYPE } from "./gas.js";
+export type { EstimateLzReceiveGasParams, LzReceiveGasEstimate } from "./gas.js";
+export {
+  ACCEPT_SPONSOR_SELECTOR,
+  BATCH_MODES,
+  BATCH_SELECTOR,
+  decodeBatchPayload,
+  decodePocoMessage,
+  encodeAcceptSponsorPayload,
+  encodeBatchPayload,
+  encodePocoMessage,
+} from "./message.js";
+export type { BatchCall, BatchMode, PocoMessage } from "./message.js";
+export { buildMatchOrdersBatch, encodePocoBatch } from "./batch.js";
+export {
+  decodeCrossChainCallInitiatedLog,
+  decodePocoCall,
+  decodeRouteCallTransaction,
+  decodeRoutedMessage,
+} from "./decoder.js";
+export type { DecodedPocoCall, DecodedRoutedMessage, UndecodableMessage } from "./decoder.js";
+export { resolveAppOrder } from "./app.js";
+export type { AppOrderQuery, ResolvedAppOrder } from "./app.js";
+export { EMPTY_DATASET_ORDER, fetchDatasetOrder, signDatasetOrder } from "./dataset.js";
+export type { DatasetOrderQuery, PublishedDatasetOrder } from "./dataset.js";
+export { DEFAULT_APP_ADDRESS, buildRequestParams, loadJobFile, resolveJob } from "./job.js";
+export type { Job, JobSpec } from "./job.js";
+export { WORKERPOOL_STRATEGIES, selectWorkerpoolOrder } from "./workerpool.js";
+export type {
+  SelectWorkerpoolOrderOptions,
+  SelectedWorkerpoolOrder,
+  WorkerpoolOrderQuery,
+  WorkerpoolSelection,
+  WorkerpoolStrategy,
+} from "./workerpool.js";
+export {
+  DEFAULT_BUNDLE_TTL_SECONDS,
+  ORDER_BUNDLE_VERSION,
+  createOrderBundle,
+  parseOrderBundle,
+  serializeOrderBundle,
+  validateOrderBundle,
+} from "./bundle.js";
+export type {
+  BundleCheck,
+  BundleValidation,
+  CreateOrderBundleParams,
+  OrderBundle,
+} from "./bundle.js";
+export {
+  checkSponsorship,
+  computeDealCost,
+  depositSponsorFunds,
+  encodeAcceptSponsorCall,
+  getCallerSponsor,
+  getPocoStake,
+  getSponsorBalance,
+  getSponsorVault,
+  isSponsorshipOffered,
+  offerSponsorship,
+  withdrawSponsorFunds,
+} from "./sponsor.js";
+export type { SponsorVault, SponsorshipCheck } from "./sponsor.js";
+export { getDealProgress, waitForDeal, downloadTaskResult } from "./deal.js";
+export type { DealProgress, TaskProgress, TaskStatusName, WaitForDealOptions } from "./deal.js";
+export {
+  acceptSponsorAbi,
+  pocoOAppAbi,
+  pocoSponsorVaultAbi,
+  lzEndpointAbi,
+  pocoAbi,
+} from "./abi.js";
+export { TransactionRevertedError } from "./errors.js";
+export { loadConfig, getChainConfig } from "@iexec/poco-lz-config";
+export { getViemChain, getRpcUrl, getExplorerTxUrl } from "./chains.js";
+export {
+  MATCH_ORDERS_SELECTOR,
+  SPONSOR_MATCH_ORDERS_SELECTOR,
+  encodeMatchOrdersPayload,
+  toMatchOrdersArgs,
+} from "./orders.js";
+export { encodePocoCall, getPocoSelector } from "./poco.js";
+export type { PocoCall, PocoFunctionArgs, PocoFunctionName } from "./poco.js";
+export { LzOptions, decodeLzOptions } from "@iexec/lz-options";
+export type { DecodedLzOptions } from "@iexec/lz-options";
+export type { ChainConfig, Config, NativeCurrency } from "@iexec/poco-lz-config";
+export type * from "./types.js";
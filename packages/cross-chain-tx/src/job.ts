@@ -0,0 +1,231 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { getAddress, isAddress, zeroAddress, type Address } from "viem";
+import { parse as parseYaml } from "yaml";
+import { WORKERPOOL_STRATEGIES, type WorkerpoolStrategy } from "./workerpool.js";
+
+export const DEFAULT_APP_ADDRESS: Address = "0x0117a9955f868a81aa7ba54cb440edee993accab";
+
+/**
+ * A job as written in a job file, in env or on the command line; every field
+ * is optional and validated by resolveJob
+ */
+export interface JobSpec {
+  app?: string;
+  /** Highest app price accepted, in nRLC */
+  appMaxPrice?: string | number;
+  dataset?: string;
+  datasetMaxPrice?: string | number;
+  /** Highest workerpool price accepted, in nRLC; any price when unset */
+  workerpoolMaxPrice?: string | number;
+  /** Defaults to pinned with workerpool, allowlist with workerpoolAllowlist, else cheapest */
+  workerpoolStrategy?: string;
+  /** Pinned workerpool */
+  workerpool?: string;
+  /** Trusted workerpools */
+  workerpoolAllowlist?: string[];
+  /** Command line arguments of the app (iexec_args) */
+  args?: string;
+  /** URLs downloaded into the task input folder (iexec_input_files) */
+  inputFiles?: string[];
+  /** Requester secret names by app secret index (iexec_secrets) */
+  secrets?: Record<string, string>;
+  /** Receives the results; defaults to the requester */
+  beneficiary?: string;
+  /** Contract called with the task result */
+  callback?: string;
+  tag?: string[];
+  volume?: string | number;
+  category?: string | number;
+  trust?: string | number;
+}
+
+/**
+ * A validated job, ready to build the request order
+ */
+export interface Job {
+  app: Address;
+  appMaxPrice: bigint;
+  dataset?: Address;
+  datasetMaxPrice: bigint;
+  workerpoolMaxPrice?: bigint;
+  workerpoolStrategy: WorkerpoolStrategy;
+  workerpool?: Address;
+  workerpoolAllowlist: Address[];
+  args: string;
+  inputFiles: string[];
+  secrets: Record<number, string>;
+  beneficiary?: Address;
+  callback: Address;
+  tag: string[];
+  volume: number;
+  category: number;
+  trust: number;
+}
+
+const JOB_FIELDS: (keyof JobSpec)[] = [
+  "app",
+  "appMaxPrice",
+  "dataset",
+  "datasetMaxPrice",
+  "workerpoolMaxPrice",
+  "workerpoolStrategy",
+  "workerpool",
+  "workerpoolAllowlist",
+  "args",
+  "inputFiles",
+  "secrets",
+  "beneficiary",
+  "callback",
+  "tag",
+  "volume",
+  "category",
+  "trust",
+];
+
+/**
+ * Read a JSON or YAML (.yaml, .yml) job file
+ */
+export function loadJobFile(path: string): JobSpec {
+  const content = readFileSync(path, "utf8");
+  const spec: unknown = [".yaml", ".yml"].includes(extname(path).toLowerCase())
+    ? parseYaml(content)
+    : JSON.parse(content);
+  if (typeof spec !== "object" || spec === null || Array.isArray(spec)) {
+    throw new Error(`Job file ${path} must contain an object`);
+  }
+
+  const unknown = Object.keys(spec).filter((key) => !JOB_FIELDS.includes(key as keyof JobSpec));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown field(s) in job file ${path}: ${unknown.join(", ")}`);
+  }
+  return spec as JobSpec;
+}
+
+/**
+ * Merge job specs, later ones overriding earlier ones, and validate the result
+ *
+ * Unset fields take the defaults of the original matchorder flow: the demo
+ * app, TEE tags, volume 1, category 0 and trust 0.
+ */
+export function resolveJob(...specs: JobSpec[]): Job {
+  const spec: JobSpec = {};
+  for (const layer of specs) {
+    for (const field of JOB_FIELDS) {
+      if (layer[field] !== undefined) {
+        Object.assign(spec, { [field]: layer[field] });
+      }
+    }
+  }
+
+  const workerpool =
+    spec.workerpool === undefined ? undefined : toAddress(spec.workerpool, "workerpool");
+  const workerpoolAllowlist = toStringArray(
+    spec.workerpoolAllowlist ?? [],
+    "workerpoolAllowlist"
+  ).map((address, index) => toAddress(address, `workerpoolAllowlist.${index}`));
+  const workerpoolStrategy = (spec.workerpoolStrategy ??
+    (workerpool ? "pinned" : workerpoolAllowlist.length > 0 ? "allowlist" : "cheapest")) as
+    WorkerpoolStrategy;
+  if (!WORKERPOOL_STRATEGIES.includes(workerpoolStrategy)) {
+    throw new Error(
+      `Job field workerpoolStrategy must be one of ${WORKERPOOL_STRATEGIES.join(", ")}, ` +
+        `got ${JSON.stringify(workerpoolStrategy)}`
+    );
+  }
+  if (workerpoolStrategy === "pinned" && !workerpool) {
+    throw new Error("Job field workerpool is required by the pinned workerpool strategy");
+  }
+  if (workerpoolStrategy === "allowlist" && workerpoolAllowlist.length === 0) {
+    throw new Error(
+      "Job field workerpoolAllowlist is required by the allowlist workerpool strategy"
+    );
+  }
+
+  return {
+    app: toAddress(spec.app ?? DEFAULT_APP_ADDRESS, "app"),
+    appMaxPrice: toBigInt(spec.appMaxPrice ?? 0, "appMaxPrice"),
+    dataset: spec.dataset === undefined ? undefined : toAddress(spec.dataset, "dataset"),
+    datasetMaxPrice: toBigInt(spec.datasetMaxPrice ?? 0, "datasetMaxPrice"),
+    workerpoolMaxPrice:
+      spec.workerpoolMaxPrice === undefined
+        ? undefined
+        : toBigInt(spec.workerpoolMaxPrice, "workerpoolMaxPrice"),
+    workerpoolStrategy,
+    workerpool,
+    workerpoolAllowlist,
+    args: spec.args ?? "",
+    inputFiles: toStringArray(spec.inputFiles ?? [], "inputFiles"),
+    secrets: toSecrets(spec.secrets ?? {}),
+    beneficiary:
+      spec.beneficiary === undefined ? undefined : toAddress(spec.beneficiary, "beneficiary"),
+    callback: toAddress(spec.callback ?? zeroAddress, "callback"),
+    tag: toStringArray(spec.tag ?? ["tee", "scone"], "tag"),
+    volume: toInteger(spec.volume ?? 1, "volume", 1),
+    category: toInteger(spec.category ?? 0, "category", 0),
+    trust: toInteger(spec.trust ?? 0, "trust", 0),
+  };
+}
+
+/**
+ * Request order params (iexec_args, iexec_input_files, iexec_secrets)
+ */
+export function buildRequestParams(job: Job): Record<string, unknown> {
+  return {
+    iexec_args: job.args,
+    ...(job.inputFiles.length > 0 && { iexec_input_files: job.inputFiles }),
+    ...(Object.keys(job.secrets).length > 0 && { iexec_secrets: job.secrets }),
+  };
+}
+
+function toAddress(value: unknown, field: string): Address {
+  if (typeof value !== "string" || !isAddress(value, { strict: false })) {
+    throw new Error(`Job field ${field} must be an address, got ${JSON.stringify(value)}`);
+  }
+  return getAddress(value);
+}
+
+function toBigInt(value: unknown, field: string): bigint {
+  try {
+    const result = BigInt(value as string | number);
+    if (result >= 0n) {
+      return result;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Job field ${field} must be a non-negative integer, got ${JSON.stringify(value)}`);
+}
+
+function toInteger(value: unknown, field: string, min: number): number {
+  const result = Number(value);
+  if (!Number.isSafeInteger(result) || result < min) {
+    throw new Error(`Job field ${field} must be an integer >= ${min}, got ${JSON.stringify(value)}`);
+  }
+  return result;
+}
+
+function toStringArray(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+    throw new Error(`Job field ${field} must be a list of strings`);
+  }
+  return value;
+}
+
+function toSecrets(value: unknown): Record<number, string> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("Job field secrets must map secret indexes to secret names");
+  }
+  const secrets: Record<number, string> = {};
+  for (const [index, name] of Object.entries(value)) {
+    const key = toInteger(index, `secrets.${index}`, 1);
+    if (typeof name !== "string" || name === "") {
+      throw new Error(`Job field secrets.${index} must be a secret name`);
+    }
+    secrets[key] = name;
+  }
+  return secrets;
+}
@@ -0,0 +1,123 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  decodeAbiParameters,
+  encodeAbiParameters,
+  parseAbiParameters,
+  toFunctionSelector,
+  type Address,
+  type Hex,
+} from "viem";
+
+const pocoMessageParameters = parseAbiParameters(
+  "uint64 sourceChainId, address caller, bytes4 targetFunction, bytes payload"
+);
+
+/**
+ * Encode the LayerZero message sent by routeCall
+ *
+ * Mirrors `PocoMessageLib.encodeMessage` in the layerzero package.
+ */
+export function encodePocoMessage(
+  sourceChainId: bigint | number,
+  caller: Address,
+  targetFunction: Hex,
+  payload: Hex
+): Hex {
+  return encodeAbiParameters(pocoMessageParameters, [
+    BigInt(sourceChainId),
+    caller,
+    targetFunction,
+    payload,
+  ]);
+}
+
+/**
+ * Envelope of a routeCall message
+ */
+export interface PocoMessage {
+  sourceChainId: bigint;
+  caller: Address;
+  targetFunction: Hex;
+  payload: Hex;
+}
+
+/**
+ * Decode a LayerZero message sent by routeCall
+ *
+ * Mirrors `PocoMessageLib.decodeMessage` in the layerzero package.
+ */
+export function decodePocoMessage(message: Hex): PocoMessage {
+  const [sourceChainId, caller, targetFunction, payload] = decodeAbiParameters(
+    pocoMessageParameters,
+    message
+  );
+  return { sourceChainId, caller, targetFunction, payload };
+}
+
+/**
+ * targetFunction of a batch message (`PocoMessageLib.BATCH_SELECTOR`); not a
+ * PoCo function, the receiver executes each call of the batch instead
+ */
+export const BATCH_SELECTOR: Hex = toFunctionSelector("batch(uint8,(bytes4,bytes)[])");
+
+/**
+ * targetFunction of a message accepting a sponsor
+ * (`PocoMessageLib.ACCEPT_SPONSOR_SELECTOR`); not a PoCo function, the
+ * receiver makes its sponsor vault pay the caller's sponsorMatchOrders
+ */
+export const ACCEPT_SPONSOR_SELECTOR: Hex = toFunctionSelector("acceptSponsor(address)");
+
+/**
+ * Encode the payload of an acceptSponsor message
+ * @param sponsor Sponsor that offered to pay for the caller, zeroAddress to drop the current one
+ */
+export function encodeAcceptSponsorPayload(sponsor: Address): Hex {
+  return encodeAbiParameters([{ type: "address" }], [sponsor]);
+}
+
+/**
+ * How the receiver handles a failing call of a batch
+ *
+ * - all-or-nothing: the message reverts and stays retryable
+ * - best-effort: the failure is reported and the next calls still run
+ */
+export type BatchMode = "all-or-nothing" | "best-effort";
+
+/** Order of `PocoMessageLib.BatchMode` */
+export const BATCH_MODES: BatchMode[] = ["all-or-nothing", "best-effort"];
+
+/**
+ * One PoCo call of a batch
+ */
+export interface BatchCall {
+  targetFunction: Hex;
+  payload: Hex;
+}
+
+const batchParameters = parseAbiParameters(
+  "uint8 mode, (bytes4 targetFunction, bytes payload)[] calls"
+);
+
+/**
+ * Encode the payload of a batch message
+ *
+ * Mirrors `PocoMessageLib.encodeBatch` in the layerzero package.
+ */
+export function encodeBatchPayload(mode: BatchMode, calls: readonly BatchCall[]): Hex {
+  return encodeAbiParameters(batchParameters, [BATCH_MODES.indexOf(mode), calls]);
+}
+
+/**
+ * Decode the payload of a batch message
+ *
+ * Mirrors `PocoMessageLib.decodeBatch` in the layerzero package.
+ */
+export function decodeBatchPayload(payload: Hex): { mode: BatchMode; calls: BatchCall[] } {
+  const [mode, calls] = decodeAbiParameters(batchParameters, payload);
+  if (!BATCH_MODES[mode]) {
+    throw new Error(`Unknown batch mode ${mode}`);
+  }
+  return { mode: BATCH_MODES[mode], calls: [...calls] };
+}
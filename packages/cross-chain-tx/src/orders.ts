@@ -0,0 +1,89 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import type { Address, Hex } from "viem";
+import { encodePocoCall, getPocoSelector, type PocoFunctionArgs } from "./poco.js";
+import type { MatchOrdersOrders } from "./types.js";
+
+/**
+ * matchOrders(IexecLibOrders_v5.AppOrder,IexecLibOrders_v5.DatasetOrder,IexecLibOrders_v5.WorkerpoolOrder,IexecLibOrders_v5.RequestOrder)
+ */
+export const MATCH_ORDERS_SELECTOR: Hex = getPocoSelector("matchOrders");
+
+/**
+ * sponsorMatchOrders, same arguments as matchOrders; the caller pays the deal
+ */
+export const SPONSOR_MATCH_ORDERS_SELECTOR: Hex = getPocoSelector("sponsorMatchOrders");
+
+/**
+ * Signed orders as the typed matchOrders (or sponsorMatchOrders) arguments
+ */
+export function toMatchOrdersArgs({
+  apporder,
+  datasetorder,
+  workerpoolorder,
+  requestorder,
+}: MatchOrdersOrders): PocoFunctionArgs<"matchOrders"> {
+  return [
+    {
+      app: apporder.app as Address,
+      appprice: BigInt(apporder.appprice),
+      volume: BigInt(apporder.volume),
+      tag: apporder.tag as Hex,
+      datasetrestrict: apporder.datasetrestrict as Address,
+      workerpoolrestrict: apporder.workerpoolrestrict as Address,
+      requesterrestrict: apporder.requesterrestrict as Address,
+      salt: apporder.salt as Hex,
+      sign: apporder.sign as Hex,
+    },
+    {
+      dataset: datasetorder.dataset as Address,
+      datasetprice: BigInt(datasetorder.datasetprice),
+      volume: BigInt(datasetorder.volume),
+      tag: datasetorder.tag as Hex,
+      apprestrict: datasetorder.apprestrict as Address,
+      workerpoolrestrict: datasetorder.workerpoolrestrict as Address,
+      requesterrestrict: datasetorder.requesterrestrict as Address,
+      salt: datasetorder.salt as Hex,
+      sign: datasetorder.sign as Hex,
+    },
+    {
+      workerpool: workerpoolorder.workerpool as Address,
+      workerpoolprice: BigInt(workerpoolorder.workerpoolprice),
+      volume: BigInt(workerpoolorder.volume),
+      tag: workerpoolorder.tag as Hex,
+      category: BigInt(workerpoolorder.category),
+      trust: BigInt(workerpoolorder.trust),
+      apprestrict: workerpoolorder.apprestrict as Address,
+      datasetrestrict: workerpoolorder.datasetrestrict as Address,
+      requesterrestrict: workerpoolorder.requesterrestrict as Address,
+      salt: workerpoolorder.salt as Hex,
+      sign: workerpoolorder.sign as Hex,
+    },
+    {
+      app: requestorder.app as Address,
+      appmaxprice: BigInt(requestorder.appmaxprice),
+      dataset: requestorder.dataset as Address,
+      datasetmaxprice: BigInt(requestorder.datasetmaxprice),
+      workerpool: requestorder.workerpool as Address,
+      workerpoolmaxprice: BigInt(requestorder.workerpoolmaxprice),
+      requester: requestorder.requester as Address,
+      volume: BigInt(requestorder.volume),
+      tag: requestorder.tag as Hex,
+      category: BigInt(requestorder.category),
+      trust: BigInt(requestorder.trust),
+      beneficiary: requestorder.beneficiary as Address,
+      callback: requestorder.callback as Address,
+      params: requestorder.params,
+      salt: requestorder.salt as Hex,
+      sign: requestorder.sign as Hex,
+    },
+  ];
+}
+
+/**
+ * Encode the matchOrders arguments (without selector) for routeCall
+ */
+export function encodeMatchOrdersPayload(orders: MatchOrdersOrders): Hex {
+  return encodePocoCall("matchOrders", toMatchOrdersArgs(orders)).payload;
+}
@@ -0,0 +1,59 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  encodeFunctionData,
+  getAbiItem,
+  toFunctionSelector,
+  type Abi,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type Hex,
+} from "viem";
+import { pocoAbi } from "./abi.js";
+
+/**
+ * PoCo functions that can be routed (state-changing entries of pocoAbi)
+ */
+export type PocoFunctionName = ContractFunctionName<typeof pocoAbi, "nonpayable" | "payable">;
+
+/**
+ * Arguments of a PoCo function, type-checked against pocoAbi
+ */
+export type PocoFunctionArgs<F extends PocoFunctionName> = ContractFunctionArgs<
+  typeof pocoAbi,
+  "nonpayable" | "payable",
+  F
+>;
+
+/**
+ * A PoCo call split the way routeCall expects it
+ */
+export interface PocoCall {
+  selector: Hex;
+  /** ABI-encoded arguments, without selector */
+  payload: Hex;
+}
+
+/**
+ * Encode a PoCo call with encodeFunctionData and split its selector from its
+ * arguments
+ */
+export function encodePocoCall<F extends PocoFunctionName>(
+  functionName: F,
+  args: PocoFunctionArgs<F>
+): PocoCall;
+export function encodePocoCall(functionName: PocoFunctionName, args: readonly unknown[]): PocoCall {
+  // The overload above checks args against pocoAbi; viem cannot resolve them for
+  // a generic function name, so the implementation encodes with the plain ABI
+  const abi: Abi = pocoAbi;
+  const data = encodeFunctionData({ abi, functionName, args });
+  return { selector: data.slice(0, 10) as Hex, payload: `0x${data.slice(10)}` };
+}
+
+/**
+ * Selector of a PoCo function
+ */
+export function getPocoSelector(functionName: PocoFunctionName): Hex {
+  return toFunctionSelector(getAbiItem({ abi: pocoAbi, name: functionName }));
+}
@@ -0,0 +1,379 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  concat,
+  createPublicClient,
+  getAddress,
+  http,
+  keccak256,
+  pad,
+  parseEventLogs,
+  type Account,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+import { getDestinationChain, loadConfig, type ChainConfig, type Config } from "@iexec/poco-lz-config";
+import { lzEndpointAbi } from "./abi.js";
+import { getRpcUrl, getViemChain } from "./chains.js";
+import {
+  decodeRoutedMessage,
+  type DecodedRoutedMessage,
+  type UndecodableMessage,
+} from "./decoder.js";
+import { TransactionRevertedError } from "./errors.js";
+import { decodeRevertReason } from "./tracker.js";
+
+/** Blocks scanned back from the destination head when no start block is given */
+export const DEFAULT_RECOVERY_LOOKBACK_BLOCKS = 200_000n;
+
+/**
+ * LayerZero origin of an inbound message
+ */
+export interface MessageOrigin {
+  srcEid: number;
+  sender: Hex;
+  nonce: bigint;
+}
+
+/**
+ * A message verified on the destination endpoint whose execution failed
+ *
+ * Built from the last LzReceiveAlert the executor emitted for the GUID; the
+ * message stays on the endpoint until it is retried or cleared.
+ */
+export interface StuckMessage {
+  guid: Hash;
+  origin: MessageOrigin;
+  message: Hex;
+  extraData: Hex;
+  /** Decoded revert reason of the last attempt */
+  reason: string;
+  /** Gas and value of the last attempt */
+  gas: bigint;
+  value: bigint;
+  transactionHash: Hash;
+  blockNumber: bigint;
+  /** Raw message with its decodeError when it is not a routeCall message */
+  decoded: DecodedRoutedMessage | UndecodableMessage;
+}
+
+export interface CrossChainRecoveryOptions {
+  /** Source (Router) chain name in config.json */
+  sourceChain: string;
+  /** Active profile; loaded with loadConfig() when omitted */
+  config?: Config;
+  /** Clients for the receiver chain; default to the chain RPC from config.json */
+  destinationPublicClient?: PublicClient;
+  /** Needed to retry, clear or skip messages */
+  destinationWalletClient?: WalletClient;
+  /** Blocks per eth_getLogs request on the destination chain */
+  logBlockRange?: bigint;
+}
+
+/**
+ * Lists and recovers the messages from a source chain whose execution failed
+ * on the receiver PocoOApp
+ *
+ * Anyone may retry a message; clearing or skipping one is reserved to the
+ * receiver's delegate on the endpoint (its owner unless changed with
+ * setDelegate).
+ */
+export class CrossChainRecovery {
+  readonly sourceChain: string;
+  readonly destinationChain: string;
+  readonly destinationConfig: ChainConfig;
+  readonly destinationPublicClient: PublicClient;
+  readonly destinationWalletClient?: WalletClient;
+  readonly logBlockRange: bigint;
+  readonly endpoint: Address;
+  readonly receiver: Address;
+  readonly srcEid: number;
+  /** Router PocoOApp, as a bytes32 LayerZero peer */
+  readonly sender: Hex;
+
+  constructor({
+    sourceChain,
+    config = loadConfig(),
+    destinationPublicClient,
+    destinationWalletClient,
+    logBlockRange = 10_000n,
+  }: CrossChainRecoveryOptions) {
+    const sourceConfig = config.chains[sourceChain];
+    if (!sourceConfig?.pocoOAppAddress) {
+      throw new Error(`pocoOAppAddress is not configured for ${sourceChain}`);
+    }
+    const [destinationChain, destinationConfig] = getDestinationChain(config, sourceChain);
+    if (!destinationConfig.pocoOAppAddress) {
+      throw new Error(`pocoOAppAddress is not configured for ${destinationChain}`);
+    }
+
+    this.sourceChain = sourceChain;
+    this.destinationChain = destinationChain;
+    this.destinationConfig = destinationConfig;
+    this.destinationPublicClient =
+      destinationPublicClient ??
+      createPublicClient({
+        chain: getViemChain(destinationChain, config),
+        transport: http(getRpcUrl(destinationChain, config)),
+      });
+    if (destinationWalletClient && !destinationWalletClient.account) {
+      throw new Error("destinationWalletClient has no account: create it with the signing account");
+    }
+    this.destinationWalletClient = destinationWalletClient;
+    this.logBlockRange = logBlockRange;
+    this.endpoint = getAddress(destinationConfig.lzEndpointAddress);
+    this.receiver = getAddress(destinationConfig.pocoOAppAddress);
+    this.srcEid = sourceConfig.lzEndpointId;
+    this.sender = pad(getAddress(sourceConfig.pocoOAppAddress));
+  }
+
+  /**
+   * Scan the endpoint's LzReceiveAlert logs for messages still stuck
+   *
+   * Only failures reported by an executor are found: a message that was
+   * verified but never attempted emits no alert.
+   * @param fromBlock Defaults to DEFAULT_RECOVERY_LOOKBACK_BLOCKS before toBlock
+   * @param toBlock Defaults to the destination head
+   */
+  async findStuckMessages({
+    fromBlock,
+    toBlock,
+  }: { fromBlock?: bigint; toBlock?: bigint } = {}): Promise<StuckMessage[]> {
+    const end = toBlock ?? (await this.destinationPublicClient.getBlockNumber());
+    const start =
+      fromBlock ??
+      (end > DEFAULT_RECOVERY_LOOKBACK_BLOCKS ? end - DEFAULT_RECOVERY_LOOKBACK_BLOCKS : 0n);
+
+    // Latest alert per GUID: a retry may have failed again with another reason
+    const alerts = new Map<Hash, StuckMessage>();
+    for (let from = start; from <= end; from += this.logBlockRange) {
+      const to = from + this.logBlockRange - 1n < end ? from + this.logBlockRange - 1n : end;
+      const logs = await this.destinationPublicClient.getLogs({
+        address: this.endpoint,
+        fromBlock: from,
+        toBlock: to,
+      });
+      for (const log of parseEventLogs({ abi: lzEndpointAbi, eventName: "LzReceiveAlert", logs })) {
+        const { receiver, origin, guid, gas, value, message, extraData, reason } = log.args;
+        if (
+          getAddress(receiver) !== this.receiver ||
+          origin.srcEid !== this.srcEid ||
+          origin.sender.toLowerCase() !== this.sender.toLowerCase()
+        ) {
+          continue;
+        }
+        alerts.set(guid, {
+          guid,
+          origin: { srcEid: origin.srcEid, sender: origin.sender, nonce: origin.nonce },
+          message,
+          extraData,
+          reason: decodeRevertReason(reason),
+          gas,
+          value,
+          transactionHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+          decoded: decodeStuckMessage(message, guid, origin.nonce),
+        });
+      }
+    }
+
+    const stuck: StuckMessage[] = [];
+    for (const alert of alerts.values()) {
+      if (await this.isStuck(alert)) {
+        stuck.push(alert);
+      }
+    }
+    return stuck;
+  }
+
+  /**
+   * Find one stuck message by GUID
+   */
+  async getStuckMessage(
+    guid: Hash,
+    range: { fromBlock?: bigint; toBlock?: bigint } = {}
+  ): Promise<StuckMessage> {
+    const stuck = (await this.findStuckMessages(range)).find(
+      (candidate) => candidate.guid.toLowerCase() === guid.toLowerCase()
+    );
+    if (!stuck) {
+      throw new Error(
+        `No stuck message ${guid} from ${this.sourceChain} on ${this.destinationChain} ` +
+          "(already executed or cleared, or failed before the scanned blocks)"
+      );
+    }
+    return stuck;
+  }
+
+  /**
+   * Whether the endpoint still holds the payload of the message, i.e. it was
+   * neither executed nor cleared since the alert
+   */
+  async isStuck({ guid, origin, message }: StuckMessage): Promise<boolean> {
+    const payloadHash = await this.destinationPublicClient.readContract({
+      address: this.endpoint,
+      abi: lzEndpointAbi,
+      functionName: "inboundPayloadHash",
+      args: [this.receiver, origin.srcEid, origin.sender, origin.nonce],
+    });
+    return payloadHash === keccak256(concat([guid, message]));
+  }
+
+  /**
+   * Gas a retry currently needs; the simulation throws with the revert reason
+   * when the call would still fail
+   */
+  async estimateRetryGas(stuck: StuckMessage): Promise<bigint> {
+    return this.destinationPublicClient.estimateContractGas({
+      address: this.endpoint,
+      abi: lzEndpointAbi,
+      functionName: "lzReceive",
+      args: [toOriginArg(stuck.origin), this.receiver, stuck.guid, stuck.message, stuck.extraData],
+      value: stuck.value,
+      account: this.destinationWalletClient?.account,
+    });
+  }
+
+  /**
+   * Execute the message again through the endpoint's lzReceive
+   * @param gas Gas limit of the retry transaction
+   */
+  async retry(stuck: StuckMessage, gas: bigint): Promise<Hash> {
+    const { walletClient, account } = this.getSigner();
+    const hash = await walletClient.writeContract({
+      address: this.endpoint,
+      abi: lzEndpointAbi,
+      functionName: "lzReceive",
+      args: [toOriginArg(stuck.origin), this.receiver, stuck.guid, stuck.message, stuck.extraData],
+      value: stuck.value,
+      gas,
+      account,
+      chain: walletClient.chain,
+    });
+    return this.waitForSuccess(hash);
+  }
+
+  /**
+   * Drop the message without executing it (receiver delegate only)
+   */
+  async clear(stuck: StuckMessage): Promise<Hash> {
+    const { walletClient, account } = this.getSigner();
+    await this.assertDelegate(account.address);
+    const hash = await walletClient.writeContract({
+      address: this.endpoint,
+      abi: lzEndpointAbi,
+      functionName: "clear",
+      args: [this.receiver, toOriginArg(stuck.origin), stuck.guid, stuck.message],
+      account,
+      chain: walletClient.chain,
+    });
+    return this.waitForSuccess(hash);
+  }
+
+  /**
+   * Next nonce the endpoint can skip: the first one not verified yet
+   */
+  async getNextSkippableNonce(): Promise<bigint> {
+    const inboundNonce = await this.destinationPublicClient.readContract({
+      address: this.endpoint,
+      abi: lzEndpointAbi,
+      functionName: "inboundNonce",
+      args: [this.receiver, this.srcEid, this.sender],
+    });
+    return inboundNonce + 1n;
+  }
+
+  /**
+   * Skip an inbound nonce that was not verified yet, so that it is never
+   * executed (receiver delegate only)
+   *
+   * The endpoint only skips the next nonce; verified but failed messages are
+   * cleared instead.
+   */
+  async skip(nonce: bigint): Promise<Hash> {
+    const { walletClient, account } = this.getSigner();
+    await this.assertDelegate(account.address);
+    const next = await this.getNextSkippableNonce();
+    if (nonce !== next) {
+      throw new Error(`Only nonce ${next} can be skipped, got ${nonce}`);
+    }
+    const hash = await walletClient.writeContract({
+      address: this.endpoint,
+      abi: lzEndpointAbi,
+      functionName: "skip",
+      args: [this.receiver, this.srcEid, this.sender, nonce],
+      account,
+      chain: walletClient.chain,
+    });
+    return this.waitForSuccess(hash);
+  }
+
+  /**
+   * Account allowed to clear and skip the receiver's messages
+   */
+  async getDelegate(): Promise<Address> {
+    return this.destinationPublicClient.readContract({
+      address: this.endpoint,
+      abi: lzEndpointAbi,
+      functionName: "delegates",
+      args: [this.receiver],
+    });
+  }
+
+  private async assertDelegate(account: Address): Promise<void> {
+    const delegate = await this.getDelegate();
+    if (getAddress(delegate) !== getAddress(account)) {
+      throw new Error(
+        `${account} is not the endpoint delegate of ${this.receiver} (${delegate}); ` +
+          "only the delegate can clear or skip its messages"
+      );
+    }
+  }
+
+  private getSigner(): { walletClient: WalletClient; account: Account } {
+    const walletClient = this.destinationWalletClient;
+    if (!walletClient?.account) {
+      throw new Error(
+        `A destination wallet client with an account on ${this.destinationChain} is required ` +
+          "to retry, clear or skip messages"
+      );
+    }
+    return { walletClient, account: walletClient.account };
+  }
+
+  private async waitForSuccess(hash: Hash): Promise<Hash> {
+    const receipt = await this.destinationPublicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new TransactionRevertedError(hash);
+    }
+    return hash;
+  }
+}
+
+/**
+ * Decode the message of an alert; a malformed one is kept raw so that the
+ * other stuck messages are still listed
+ */
+function decodeStuckMessage(
+  message: Hex,
+  guid: Hash,
+  nonce: bigint
+): DecodedRoutedMessage | UndecodableMessage {
+  try {
+    return { ...decodeRoutedMessage(message), guid, nonce };
+  } catch (error: any) {
+    return { message, guid, nonce, decodeError: error.shortMessage ?? error.message };
+  }
+}
+
+/**
+ * Origin argument of lzReceive and clear; viem infers tuple arguments from
+ * object types, not from the MessageOrigin interface
+ */
+function toOriginArg({ srcEid, sender, nonce }: MessageOrigin) {
+  return { srcEid, sender, nonce };
+}
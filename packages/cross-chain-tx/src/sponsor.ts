@@ -0,0 +1,346 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  createPublicClient,
+  erc20Abi,
+  getAddress,
+  http,
+  zeroAddress,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+import {
+  getChainConfig,
+  getDestinationChain,
+  loadConfig,
+  type Config,
+} from "@iexec/poco-lz-config";
+import { pocoOAppAbi, pocoSponsorVaultAbi } from "./abi.js";
+import { getRpcUrl, getViemChain } from "./chains.js";
+import { TransactionRevertedError } from "./errors.js";
+import { ACCEPT_SPONSOR_SELECTOR, encodeAcceptSponsorPayload } from "./message.js";
+import type { PocoCall } from "./poco.js";
+import type { MatchOrdersOrders } from "./types.js";
+
+/**
+ * Vault paying the sponsored deals routed from a source chain
+ *
+ * The receiver PocoOApp forwards routed sponsorMatchOrders to its
+ * PocoSponsorVault, which debits the deal from the balance of the sponsor of
+ * the routing caller. Sponsors deposit and withdraw their own nRLC there and
+ * offer to pay for callers, who accept with a call routed from the source
+ * chain. Sponsorships are keyed by the source chain ID and the caller.
+ */
+export interface SponsorVault {
+  /** Chain ID of the source chain, as put in the routed messages */
+  sourceChainId: bigint;
+  destinationChain: string;
+  pocoAddress: Address;
+  /** Receiver PocoOApp */
+  receiver: Address;
+  /** PocoSponsorVault set on the receiver */
+  vault: Address;
+}
+
+export interface SponsorshipCheck extends SponsorVault {
+  /** Address routing the call on the source chain */
+  caller: Address;
+  /** Sponsor paying for the caller, undefined when none */
+  sponsor?: Address;
+  /** Deal price for the full order volume, in nRLC */
+  cost: bigint;
+  /** Vault balance of the sponsor, in nRLC */
+  balance: bigint;
+  sufficient: boolean;
+}
+
+/**
+ * Public client for the receiver chain of a source chain
+ */
+function createDestinationClient(sourceChain: string, config: Config): PublicClient {
+  const [destinationChain] = getDestinationChain(config, sourceChain);
+  return createPublicClient({
+    chain: getViemChain(destinationChain, config),
+    transport: http(getRpcUrl(destinationChain, config)),
+  });
+}
+
+/**
+ * Sponsor vault of the calls routed from a source chain, read from the receiver
+ * @param destinationPublicClient Client for the receiver chain; built from config.json when omitted
+ */
+export async function getSponsorVault(
+  sourceChain: string,
+  config: Config = loadConfig(),
+  destinationPublicClient: PublicClient = createDestinationClient(sourceChain, config)
+): Promise<SponsorVault> {
+  const [destinationChain, destinationConfig] = getDestinationChain(config, sourceChain);
+  if (!destinationConfig.pocoAddress) {
+    throw new Error(`pocoAddress is not configured for ${destinationChain}`);
+  }
+  if (!destinationConfig.pocoOAppAddress) {
+    throw new Error(`pocoOAppAddress is not configured for ${destinationChain}`);
+  }
+  const receiver = getAddress(destinationConfig.pocoOAppAddress);
+  const vault = await destinationPublicClient.readContract({
+    address: receiver,
+    abi: pocoOAppAbi,
+    functionName: "sponsorVault",
+  });
+  if (vault === zeroAddress) {
+    throw new Error(
+      `The ${destinationChain} PocoOApp ${receiver} has no sponsor vault: ` +
+        "it rejects sponsorMatchOrders"
+    );
+  }
+  return {
+    sourceChainId: BigInt(getChainConfig(sourceChain, config).chainId),
+    destinationChain,
+    pocoAddress: getAddress(destinationConfig.pocoAddress),
+    receiver,
+    vault: getAddress(vault),
+  };
+}
+
+/**
+ * Highest price of the deal, for the smallest volume of the orders
+ *
+ * The deal may end up smaller when some orders are partly consumed.
+ */
+export function computeDealCost({
+  apporder,
+  datasetorder,
+  workerpoolorder,
+  requestorder,
+}: MatchOrdersOrders): bigint {
+  const hasDataset = getAddress(datasetorder.dataset) !== zeroAddress;
+  const volumes = [apporder, ...(hasDataset ? [datasetorder] : []), workerpoolorder, requestorder]
+    .map((order) => BigInt(order.volume));
+  const volume = volumes.reduce((min, value) => (value < min ? value : min));
+  const price =
+    BigInt(apporder.appprice) +
+    (hasDataset ? BigInt(datasetorder.datasetprice) : 0n) +
+    BigInt(workerpoolorder.workerpoolprice);
+  return price * volume;
+}
+
+/**
+ * Unlocked PoCo balance of an account (PoCo is its own ERC20)
+ */
+export async function getPocoStake(
+  publicClient: PublicClient,
+  pocoAddress: Address,
+  account: Address
+): Promise<bigint> {
+  return publicClient.readContract({
+    address: pocoAddress,
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    args: [account],
+  });
+}
+
+/**
+ * Vault balance of a sponsor, in nRLC
+ */
+export async function getSponsorBalance(
+  publicClient: PublicClient,
+  { vault }: SponsorVault,
+  sponsor: Address
+): Promise<bigint> {
+  return publicClient.readContract({
+    address: vault,
+    abi: pocoSponsorVaultAbi,
+    functionName: "balanceOf",
+    args: [sponsor],
+  });
+}
+
+/**
+ * Sponsor paying for the sponsorMatchOrders routed by a caller, undefined when none
+ */
+export async function getCallerSponsor(
+  publicClient: PublicClient,
+  { vault, sourceChainId }: SponsorVault,
+  caller: Address
+): Promise<Address | undefined> {
+  const sponsor = await publicClient.readContract({
+    address: vault,
+    abi: pocoSponsorVaultAbi,
+    functionName: "sponsorOf",
+    args: [sourceChainId, caller],
+  });
+  return sponsor === zeroAddress ? undefined : sponsor;
+}
+
+/**
+ * Whether a sponsor offers to pay for a caller, which the caller can then accept
+ */
+export async function isSponsorshipOffered(
+  publicClient: PublicClient,
+  { vault, sourceChainId }: SponsorVault,
+  caller: Address,
+  sponsor: Address
+): Promise<boolean> {
+  return publicClient.readContract({
+    address: vault,
+    abi: pocoSponsorVaultAbi,
+    functionName: "sponsorshipOffered",
+    args: [sourceChainId, caller, sponsor],
+  });
+}
+
+/**
+ * Check that the sponsor of a caller can pay a sponsorMatchOrders of these orders
+ * @param caller Address that will route the call on the source chain
+ * @param destinationPublicClient Client for the receiver chain; built from config.json when omitted
+ */
+export async function checkSponsorship({
+  sourceChain,
+  config = loadConfig(),
+  destinationPublicClient,
+  caller,
+  orders,
+}: {
+  sourceChain: string;
+  config?: Config;
+  destinationPublicClient?: PublicClient;
+  caller: Address;
+  orders: MatchOrdersOrders;
+}): Promise<SponsorshipCheck> {
+  const client = destinationPublicClient ?? createDestinationClient(sourceChain, config);
+  const vault = await getSponsorVault(sourceChain, config, client);
+  const cost = computeDealCost(orders);
+
+  const sponsor = await getCallerSponsor(client, vault, caller);
+  if (!sponsor) {
+    return { ...vault, caller, cost, balance: 0n, sufficient: false };
+  }
+  const balance = await getSponsorBalance(client, vault, sponsor);
+  return { ...vault, caller, sponsor, cost, balance, sufficient: balance >= cost };
+}
+
+/**
+ * Wait for a transaction, throwing when it reverted
+ */
+async function waitForSuccess(publicClient: PublicClient, hash: Hash): Promise<Hash> {
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw new TransactionRevertedError(hash);
+  }
+  return hash;
+}
+
+/**
+ * Signing account of a wallet client on the receiver chain
+ */
+function getSigner(walletClient: WalletClient) {
+  if (!walletClient.account) {
+    throw new Error("Wallet client has no account");
+  }
+  return { account: walletClient.account, chain: walletClient.chain };
+}
+
+/**
+ * Move nRLC from the wallet's PoCo account to its sponsor balance in the vault
+ *
+ * Approves the vault on PoCo when the allowance is short. The amount must
+ * already be deposited in PoCo.
+ * @returns The deposit transaction
+ */
+export async function depositSponsorFunds(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  { pocoAddress, vault }: SponsorVault,
+  amount: bigint
+): Promise<Hash> {
+  const signer = getSigner(walletClient);
+  const allowance = await publicClient.readContract({
+    address: pocoAddress,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [signer.account.address, vault],
+  });
+  if (allowance < amount) {
+    await waitForSuccess(
+      publicClient,
+      await walletClient.writeContract({
+        ...signer,
+        address: pocoAddress,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [vault, amount],
+      })
+    );
+  }
+  return waitForSuccess(
+    publicClient,
+    await walletClient.writeContract({
+      ...signer,
+      address: vault,
+      abi: pocoSponsorVaultAbi,
+      functionName: "deposit",
+      args: [amount],
+    })
+  );
+}
+
+/**
+ * Move nRLC from the wallet's sponsor balance back to its PoCo account
+ */
+export async function withdrawSponsorFunds(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  { vault }: SponsorVault,
+  amount: bigint
+): Promise<Hash> {
+  return waitForSuccess(
+    publicClient,
+    await walletClient.writeContract({
+      ...getSigner(walletClient),
+      address: vault,
+      abi: pocoSponsorVaultAbi,
+      functionName: "withdraw",
+      args: [amount],
+    })
+  );
+}
+
+/**
+ * Offer, or stop offering, to pay for the sponsorMatchOrders routed by a caller
+ *
+ * The offer only takes effect once the caller accepts it with
+ * encodeAcceptSponsorCall. Withdrawing an accepted offer ends the sponsorship.
+ */
+export async function offerSponsorship(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  { vault, sourceChainId }: SponsorVault,
+  caller: Address,
+  offered: boolean
+): Promise<Hash> {
+  return waitForSuccess(
+    publicClient,
+    await walletClient.writeContract({
+      ...getSigner(walletClient),
+      address: vault,
+      abi: pocoSponsorVaultAbi,
+      functionName: "offerSponsorship",
+      args: [sourceChainId, caller, offered],
+    })
+  );
+}
+
+/**
+ * Routed call making a sponsor pay for the sender's sponsorMatchOrders
+ *
+ * Route it from the source chain with routeCall: the receiver reads the caller
+ * and source chain from the message, so only the caller itself can accept.
+ * @param sponsor Sponsor that offered to pay for the caller, zeroAddress to drop the current one
+ */
+export function encodeAcceptSponsorCall(sponsor: Address): PocoCall {
+  return { selector: ACCEPT_SPONSOR_SELECTOR, payload: encodeAcceptSponsorPayload(sponsor) };
+}
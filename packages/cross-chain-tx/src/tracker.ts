@@ -0,0 +1,393 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  createPublicClient,
+  decodeErrorResult,
+  getAddress,
+  http,
+  pad,
+  parseEventLogs,
+  sliceHex,
+  hexToBigInt,
+  hexToNumber,
+  zeroHash,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import { getDestinationChain, loadConfig, type ChainConfig, type Config } from "@iexec/poco-lz-config";
+import { lzEndpointAbi, pocoOAppAbi } from "./abi.js";
+import { getViemChain, getRpcUrl } from "./chains.js";
+import { TransactionRevertedError } from "./errors.js";
+import { BATCH_SELECTOR } from "./message.js";
+
+/**
+ * Header of a LayerZero V2 packet (PacketV1Codec), as emitted in PacketSent
+ */
+export interface PacketHeader {
+  nonce: bigint;
+  srcEid: number;
+  sender: Address;
+  dstEid: number;
+  receiver: Address;
+  guid: Hash;
+}
+
+/**
+ * A routeCall message, as seen on the source chain
+ */
+export interface SourceMessage extends PacketHeader {
+  hash: Hash;
+  blockNumber: bigint;
+  /** Source block timestamp (seconds) */
+  timestamp: bigint;
+  sourceChainId: bigint;
+  caller: Address;
+  targetFunction: Hex;
+}
+
+/**
+ * Outcome of one call of a delivered batch
+ */
+export interface BatchCallResult {
+  index: number;
+  targetFunction: Hex;
+  success: boolean;
+  /** Set when the call succeeded */
+  returnData?: Hex;
+  /** Set when the call failed (best-effort batches) */
+  reason?: string;
+}
+
+/**
+ * Destination side of a message
+ *
+ * `failed` is reported from the endpoint's LzReceiveAlert (CrossChainCallFailed
+ * is rolled back with the message); the message stays retryable. Delivered
+ * batches list the outcome of each call in `calls`; `dealId` is then the first
+ * deal of the batch.
+ */
+export type DeliveryStatus =
+  | { status: "pending"; verified: boolean }
+  | {
+      status: "delivered";
+      transactionHash: Hash;
+      blockNumber: bigint;
+      returnData: Hex;
+      calls?: BatchCallResult[];
+    }
+  | {
+      status: "dealCreated";
+      dealId: Hash;
+      transactionHash: Hash;
+      blockNumber: bigint;
+      returnData: Hex;
+      calls?: BatchCallResult[];
+    }
+  | { status: "failed"; reason: string; transactionHash: Hash; blockNumber: bigint };
+
+export interface CrossChainTrackerOptions {
+  /** Source (Router) chain name in config.json */
+  sourceChain: string;
+  /** Active profile; loaded with loadConfig() when omitted */
+  config?: Config;
+  /** Clients for each side; default to the chain RPC from config.json */
+  sourcePublicClient?: PublicClient;
+  destinationPublicClient?: PublicClient;
+  /** Blocks per eth_getLogs request on the destination chain */
+  logBlockRange?: bigint;
+}
+
+export interface WaitForDeliveryOptions {
+  /** Delay between two destination polls (default 10 s) */
+  intervalMs?: number;
+  /** Give up and return the pending status after this delay (default 15 min) */
+  timeoutMs?: number;
+  /** Called after every poll */
+  onStatus?: (status: DeliveryStatus) => void;
+}
+
+/** Tolerated clock drift between the source and destination chains */
+const TIMESTAMP_MARGIN = 60n;
+
+/**
+ * Decode the header of an encoded LayerZero V2 packet
+ *
+ * Layout: version (1) | nonce (8) | srcEid (4) | sender (32) | dstEid (4) |
+ * receiver (32) | guid (32) | message
+ */
+export function decodePacketHeader(encodedPacket: Hex): PacketHeader {
+  if ((encodedPacket.length - 2) / 2 < 113) {
+    throw new Error("Encoded packet is shorter than the packet header");
+  }
+  return {
+    nonce: hexToBigInt(sliceHex(encodedPacket, 1, 9)),
+    srcEid: hexToNumber(sliceHex(encodedPacket, 9, 13)),
+    sender: getAddress(sliceHex(encodedPacket, 25, 45)),
+    dstEid: hexToNumber(sliceHex(encodedPacket, 45, 49)),
+    receiver: getAddress(sliceHex(encodedPacket, 61, 81)),
+    guid: sliceHex(encodedPacket, 81, 113),
+  };
+}
+
+/**
+ * Human-readable revert reason from raw revert data
+ */
+export function decodeRevertReason(data: Hex): string {
+  if (data === "0x") {
+    return "no revert data (out of gas?)";
+  }
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: [], data });
+    return errorName === "Error" ? String(args?.[0]) : `${errorName}(${args?.join(", ")})`;
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Follows routeCall messages from the source transaction to their execution
+ * on the receiver chain, matching both sides by LayerZero GUID
+ */
+export class CrossChainTracker {
+  readonly sourceChain: string;
+  readonly sourceConfig: ChainConfig;
+  readonly destinationChain: string;
+  readonly destinationConfig: ChainConfig;
+  readonly sourcePublicClient: PublicClient;
+  readonly destinationPublicClient: PublicClient;
+  readonly logBlockRange: bigint;
+
+  constructor({
+    sourceChain,
+    config = loadConfig(),
+    sourcePublicClient,
+    destinationPublicClient,
+    logBlockRange = 10_000n,
+  }: CrossChainTrackerOptions) {
+    const [destinationChain, destinationConfig] = getDestinationChain(config, sourceChain);
+    if (!destinationConfig.pocoOAppAddress) {
+      throw new Error(`pocoOAppAddress is not configured for ${destinationChain}`);
+    }
+
+    this.sourceChain = sourceChain;
+    this.sourceConfig = config.chains[sourceChain];
+    this.destinationChain = destinationChain;
+    this.destinationConfig = destinationConfig;
+    this.sourcePublicClient = sourcePublicClient ?? createChainClient(sourceChain, config);
+    this.destinationPublicClient =
+      destinationPublicClient ?? createChainClient(destinationChain, config);
+    this.logBlockRange = logBlockRange;
+  }
+
+  /**
+   * Read the GUID and nonce of a routeCall transaction
+   */
+  async getSourceMessage(hash: Hash): Promise<SourceMessage> {
+    const receipt = await this.sourcePublicClient.getTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new TransactionRevertedError(hash);
+    }
+
+    const [initiated] = parseEventLogs({
+      abi: pocoOAppAbi,
+      eventName: "CrossChainCallInitiated",
+      logs: receipt.logs,
+    });
+    if (!initiated) {
+      throw new Error(`No CrossChainCallInitiated event found in transaction ${hash}`);
+    }
+
+    const endpoint = getAddress(this.sourceConfig.lzEndpointAddress);
+    const packet = parseEventLogs({
+      abi: lzEndpointAbi,
+      eventName: "PacketSent",
+      logs: receipt.logs,
+    })
+      .filter((log) => getAddress(log.address) === endpoint)
+      .map((log) => decodePacketHeader(log.args.encodedPayload))
+      .find((header) => header.guid === initiated.args.guid);
+    if (!packet) {
+      throw new Error(
+        `No PacketSent event with GUID ${initiated.args.guid} in transaction ${hash}`
+      );
+    }
+
+    const block = await this.sourcePublicClient.getBlock({ blockNumber: receipt.blockNumber });
+    return {
+      ...packet,
+      hash,
+      blockNumber: receipt.blockNumber,
+      timestamp: block.timestamp,
+      sourceChainId: initiated.args.sourceChainId,
+      caller: initiated.args.caller,
+      targetFunction: initiated.args.targetFunction,
+    };
+  }
+
+  /**
+   * Check the destination chain once
+   * @param fromBlock First destination block to scan; defaults to the first
+   * block produced after the source transaction
+   */
+  async getStatus(message: SourceMessage, fromBlock?: bigint): Promise<DeliveryStatus> {
+    const start = fromBlock ?? (await this.findStartBlock(message));
+    const toBlock = await this.destinationPublicClient.getBlockNumber();
+    return this.scan(message, start, toBlock);
+  }
+
+  /**
+   * Poll the destination chain until the message is executed or fails
+   *
+   * Resolves with the pending status when timeoutMs elapses first.
+   */
+  async waitForDelivery(
+    message: SourceMessage,
+    { intervalMs = 10_000, timeoutMs = 15 * 60_000, onStatus }: WaitForDeliveryOptions = {}
+  ): Promise<DeliveryStatus> {
+    const deadline = Date.now() + timeoutMs;
+    let fromBlock = await this.findStartBlock(message);
+
+    for (;;) {
+      const toBlock = await this.destinationPublicClient.getBlockNumber();
+      const status = await this.scan(message, fromBlock, toBlock);
+      onStatus?.(status);
+      if (status.status !== "pending" || Date.now() + intervalMs > deadline) {
+        return status;
+      }
+      // Still pending: the next poll only scans new blocks
+      fromBlock = toBlock + 1n;
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+  }
+
+  /**
+   * Decode the source transaction and wait for its delivery
+   */
+  async track(hash: Hash, options?: WaitForDeliveryOptions): Promise<{
+    message: SourceMessage;
+    status: DeliveryStatus;
+  }> {
+    const message = await this.getSourceMessage(hash);
+    return { message, status: await this.waitForDelivery(message, options) };
+  }
+
+  private async scan(
+    message: SourceMessage,
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<DeliveryStatus> {
+    const receiver = getAddress(this.destinationConfig.pocoOAppAddress!);
+    const endpoint = getAddress(this.destinationConfig.lzEndpointAddress);
+    let failure: DeliveryStatus | undefined;
+
+    for (let start = fromBlock; start <= toBlock; start += this.logBlockRange) {
+      const end = start + this.logBlockRange - 1n < toBlock ? start + this.logBlockRange - 1n : toBlock;
+      const logs = await this.destinationPublicClient.getLogs({
+        address: [receiver, endpoint],
+        fromBlock: start,
+        toBlock: end,
+      });
+
+      const received = parseEventLogs({ abi: pocoOAppAbi, logs }).filter(
+        (log) => getAddress(log.address) === receiver
+      );
+      const delivered = received.find(
+        (log) => log.eventName === "CrossChainCallReceived" && log.args.guid === message.guid
+      );
+      if (delivered?.eventName === "CrossChainCallReceived") {
+        const deal = received.find(
+          (log) => log.eventName === "CrossChainDealCreated" && log.args.guid === message.guid
+        );
+        const execution = {
+          transactionHash: delivered.transactionHash,
+          blockNumber: delivered.blockNumber,
+          returnData: delivered.args.returnData,
+          ...(message.targetFunction === BATCH_SELECTOR && {
+            calls: received.flatMap((log): BatchCallResult[] => {
+              if (log.eventName === "CrossChainBatchCallSucceeded") {
+                const { guid, index, targetFunction, returnData } = log.args;
+                return guid === message.guid
+                  ? [{ index: Number(index), targetFunction, success: true, returnData }]
+                  : [];
+              }
+              if (log.eventName === "CrossChainBatchCallFailed") {
+                const { guid, index, targetFunction, reason } = log.args;
+                return guid === message.guid
+                  ? [{ index: Number(index), targetFunction, success: false, reason }]
+                  : [];
+              }
+              return [];
+            }),
+          }),
+        };
+        return deal?.eventName === "CrossChainDealCreated"
+          ? { status: "dealCreated", dealId: deal.args.dealId, ...execution }
+          : { status: "delivered", ...execution };
+      }
+
+      const alert = parseEventLogs({ abi: lzEndpointAbi, eventName: "LzReceiveAlert", logs })
+        .filter(
+          (log) =>
+            getAddress(log.address) === endpoint &&
+            getAddress(log.args.receiver) === receiver &&
+            log.args.guid === message.guid
+        )
+        .at(-1);
+      if (alert) {
+        failure = {
+          status: "failed",
+          reason: decodeRevertReason(alert.args.reason),
+          transactionHash: alert.transactionHash,
+          blockNumber: alert.blockNumber,
+        };
+      }
+    }
+
+    return failure ?? { status: "pending", verified: await this.isVerified(message) };
+  }
+
+  /**
+   * Whether the destination endpoint holds the message payload hash
+   * (verified by the DVNs but not executed yet)
+   */
+  private async isVerified(message: SourceMessage): Promise<boolean> {
+    const payloadHash = await this.destinationPublicClient.readContract({
+      address: getAddress(this.destinationConfig.lzEndpointAddress),
+      abi: lzEndpointAbi,
+      functionName: "inboundPayloadHash",
+      args: [message.receiver, message.srcEid, pad(message.sender), message.nonce],
+    });
+    return payloadHash !== zeroHash;
+  }
+
+  /**
+   * First destination block whose timestamp is not before the source block,
+   * found by binary search
+   */
+  private async findStartBlock(message: SourceMessage): Promise<bigint> {
+    const target = message.timestamp - TIMESTAMP_MARGIN;
+    let low = 0n;
+    let high = await this.destinationPublicClient.getBlockNumber();
+
+    while (low < high) {
+      const middle = (low + high) / 2n;
+      const { timestamp } = await this.destinationPublicClient.getBlock({ blockNumber: middle });
+      if (timestamp < target) {
+        low = middle + 1n;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
+
+function createChainClient(chainName: string, config: Config): PublicClient {
+  return createPublicClient({
+    chain: getViemChain(chainName, config),
+    transport: http(getRpcUrl(chainName, config)),
+  });
+}
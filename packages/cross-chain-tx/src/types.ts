@@ -1,19 +1,82 @@
 // SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
 // SPDX-License-Identifier: Apache-2.0
 
-export interface ChainConfig {
-  mode: 'Router' | 'Receiver';
-  lzEndpointAddress: string;
-  lzEndpointId: number;
-  destinationChain?: string; // Network name of destination chain (for Router mode)
-  pocoAddress?: string; // PoCo contract address (only for Receiver mode)
-  pocoOAppAddress: string;
-  pocoOAppCreatexSalt: string;
+/**
+ * Numeric order fields as returned by the iExec SDK (number, decimal string or bigint)
+ */
+export type OrderNumber = bigint | number | string;
+
+export interface AppOrder {
+  app: string;
+  appprice: OrderNumber;
+  volume: OrderNumber;
+  tag: string;
+  datasetrestrict: string;
+  workerpoolrestrict: string;
+  requesterrestrict: string;
+  salt: string;
+  sign: string;
+}
+
+export interface DatasetOrder {
+  dataset: string;
+  datasetprice: OrderNumber;
+  volume: OrderNumber;
+  tag: string;
+  apprestrict: string;
+  workerpoolrestrict: string;
+  requesterrestrict: string;
+  salt: string;
+  sign: string;
+}
+
+export interface WorkerpoolOrder {
+  workerpool: string;
+  workerpoolprice: OrderNumber;
+  volume: OrderNumber;
+  tag: string;
+  category: OrderNumber;
+  trust: OrderNumber;
+  apprestrict: string;
+  datasetrestrict: string;
+  requesterrestrict: string;
+  salt: string;
+  sign: string;
+}
+
+export interface RequestOrder {
+  app: string;
+  appmaxprice: OrderNumber;
+  dataset: string;
+  datasetmaxprice: OrderNumber;
+  workerpool: string;
+  workerpoolmaxprice: OrderNumber;
+  requester: string;
+  volume: OrderNumber;
+  tag: string;
+  category: OrderNumber;
+  trust: OrderNumber;
+  beneficiary: string;
+  callback: string;
+  params: string;
+  salt: string;
+  sign: string;
 }
 
-export interface Config {
-  chains: {
-    [key: string]: ChainConfig;
-  };
+/**
+ * The four signed orders consumed by PoCo matchOrders
+ */
+export interface MatchOrdersOrders {
+  apporder: AppOrder;
+  datasetorder: DatasetOrder;
+  workerpoolorder: WorkerpoolOrder;
+  requestorder: RequestOrder;
 }
 
+/**
+ * LayerZero messaging fee returned by quoteCall
+ */
+export interface MessagingFee {
+  nativeFee: bigint;
+  lzTokenFee: bigint;
+}
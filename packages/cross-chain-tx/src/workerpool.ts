@@ -0,0 +1,177 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { getAddress, type Address } from "viem";
+import type { IExec } from "iexec";
+import type { WorkerpoolOrder } from "./types.js";
+
+/**
+ * How the workerpool order is picked among the published ones
+ *
+ * - cheapest: lowest price
+ * - pinned: cheapest order of one workerpool
+ * - max-volume: most remaining volume
+ * - allowlist: cheapest order of a trusted workerpool
+ */
+export type WorkerpoolStrategy = "cheapest" | "pinned" | "max-volume" | "allowlist";
+
+export const WORKERPOOL_STRATEGIES: WorkerpoolStrategy[] = [
+  "cheapest",
+  "pinned",
+  "max-volume",
+  "allowlist",
+];
+
+export interface WorkerpoolOrderQuery {
+  app: Address;
+  dataset?: Address;
+  requester: Address;
+  tag: string[];
+  category: number;
+  trust: number;
+  volume: number;
+  /** Workerpool imposed by the dataset order */
+  datasetWorkerpool?: Address;
+}
+
+export interface WorkerpoolSelection {
+  strategy: WorkerpoolStrategy;
+  /** Highest price accepted, in nRLC; any price when unset */
+  maxPrice?: bigint;
+  /** Workerpool of the pinned strategy */
+  workerpool?: Address;
+  /** Workerpools of the allowlist strategy */
+  allowlist?: Address[];
+}
+
+export interface SelectedWorkerpoolOrder {
+  order: WorkerpoolOrder;
+  remaining: number;
+  /** Why this order was picked */
+  explanation: string;
+}
+
+export interface SelectWorkerpoolOrderOptions {
+  /** Orders per orderbook request (default 100) */
+  pageSize?: number;
+}
+
+interface PublishedWorkerpoolOrder {
+  order: WorkerpoolOrder;
+  remaining: number;
+}
+
+/**
+ * Page through the workerpool orderbook and pick an order with a strategy
+ *
+ * Only orders accepting the app, dataset and requester with the request tags,
+ * category, trust and volume are returned by the orderbook. When none is left
+ * after the strategy filters, the error tells how many orders each filter
+ * rejected.
+ */
+export async function selectWorkerpoolOrder(
+  iexec: IExec,
+  query: WorkerpoolOrderQuery,
+  selection: WorkerpoolSelection,
+  { pageSize = 100 }: SelectWorkerpoolOrderOptions = {}
+): Promise<SelectedWorkerpoolOrder> {
+  const pinned = selection.strategy === "pinned" ? selection.workerpool : undefined;
+  if (selection.strategy === "pinned" && !pinned) {
+    throw new Error("The pinned workerpool strategy needs a workerpool address");
+  }
+  if (selection.strategy === "allowlist" && !selection.allowlist?.length) {
+    throw new Error("The allowlist workerpool strategy needs at least one workerpool address");
+  }
+  const datasetWorkerpool = query.datasetWorkerpool && getAddress(query.datasetWorkerpool);
+  if (pinned && datasetWorkerpool && getAddress(pinned) !== datasetWorkerpool) {
+    throw new Error(
+      `The dataset order only accepts workerpool ${query.datasetWorkerpool}, not ${pinned}`
+    );
+  }
+
+  const orders = await fetchAllWorkerpoolOrders(
+    iexec,
+    { ...query, workerpool: pinned ?? datasetWorkerpool },
+    pageSize
+  );
+
+  const allowlist =
+    selection.strategy === "allowlist"
+      ? selection.allowlist!.map((address) => getAddress(address))
+      : undefined;
+  let overPrice = 0;
+  let notAllowed = 0;
+  const candidates = orders.filter(({ order }) => {
+    if (allowlist && !allowlist.includes(getAddress(order.workerpool))) {
+      notAllowed++;
+      return false;
+    }
+    if (selection.maxPrice !== undefined && BigInt(order.workerpoolprice) > selection.maxPrice) {
+      overPrice++;
+      return false;
+    }
+    return true;
+  });
+
+  if (candidates.length === 0) {
+    const reasons = [
+      notAllowed > 0 && `${notAllowed} from workerpools outside the allowlist`,
+      overPrice > 0 && `${overPrice} priced above ${selection.maxPrice} nRLC`,
+    ].filter(Boolean);
+    throw new Error(
+      `No workerpool order matches for category ${query.category}, tags ${JSON.stringify(
+        query.tag
+      )}, trust ${query.trust} and volume ${query.volume}` +
+        (pinned ? ` on workerpool ${pinned}` : "") +
+        `: ${orders.length} order(s) found in the orderbook` +
+        (reasons.length > 0 ? `, rejected: ${reasons.join(", ")}` : "") +
+        "."
+    );
+  }
+
+  const byPrice = (a: PublishedWorkerpoolOrder, b: PublishedWorkerpoolOrder) => {
+    const difference = BigInt(a.order.workerpoolprice) - BigInt(b.order.workerpoolprice);
+    return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+  };
+  const [selected] =
+    selection.strategy === "max-volume"
+      ? [...candidates].sort((a, b) => b.remaining - a.remaining || byPrice(a, b))
+      : [...candidates].sort(byPrice);
+
+  const among = `${candidates.length} matching order(s) out of ${orders.length}`;
+  const limit = selection.maxPrice !== undefined ? ` at most ${selection.maxPrice} nRLC` : "";
+  const explanations: Record<WorkerpoolStrategy, string> = {
+    cheapest: `cheapest${limit} among ${among}`,
+    pinned: `cheapest order of pinned workerpool ${pinned}${limit} among ${among}`,
+    "max-volume": `most remaining volume (${selected.remaining})${limit} among ${among}`,
+    allowlist: `cheapest allowlisted order${limit} among ${among}`,
+  };
+  return { ...selected, explanation: explanations[selection.strategy] };
+}
+
+async function fetchAllWorkerpoolOrders(
+  iexec: IExec,
+  query: WorkerpoolOrderQuery & { workerpool?: Address },
+  pageSize: number
+): Promise<PublishedWorkerpoolOrder[]> {
+  const orders: PublishedWorkerpoolOrder[] = [];
+  for (let page = 0; ; page++) {
+    const orderbook = await iexec.orderbook.fetchWorkerpoolOrderbook({
+      workerpool: query.workerpool,
+      app: query.app,
+      dataset: query.dataset,
+      requester: query.requester,
+      minTag: query.tag,
+      maxTag: query.tag,
+      category: query.category,
+      minTrust: query.trust,
+      minVolume: query.volume,
+      page,
+      pageSize,
+    });
+    orders.push(...(orderbook.orders as PublishedWorkerpoolOrder[]));
+    if (orderbook.orders.length < pageSize || orders.length >= orderbook.count) {
+      return orders;
+    }
+  }
+}
@@ -0,0 +1,181 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { expect } from "chai";
+import type { IExec } from "iexec";
+import { keccak256, toHex, type Hash } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  createOrderBundle,
+  parseOrderBundle,
+  serializeOrderBundle,
+  validateOrderBundle,
+  type OrderBundle,
+} from "../src/bundle.js";
+import { MATCH_ORDERS_SELECTOR, SPONSOR_MATCH_ORDERS_SELECTOR } from "../src/orders.js";
+import type { MatchOrdersOrders } from "../src/types.js";
+import { POCO, createFakeClient, createTestOrders, testConfig } from "./fixtures.js";
+
+const NOW = new Date("2025-06-01T12:00:00.000Z");
+
+const owner = privateKeyToAccount(`0x${"01".repeat(32)}`);
+const requester = privateKeyToAccount(`0x${"02".repeat(32)}`);
+
+const APP_HASH = keccak256(toHex("apporder"));
+const WORKERPOOL_HASH = keccak256(toHex("workerpoolorder"));
+const REQUEST_HASH = keccak256(toHex("requestorder"));
+
+/**
+ * Orders signed over fixed hashes: the app and workerpool orders by their
+ * owner, the request order by the requester
+ */
+async function createSignedOrders(): Promise<MatchOrdersOrders> {
+  const orders = createTestOrders();
+  orders.requestorder.requester = requester.address;
+  orders.apporder.sign = await owner.sign({ hash: APP_HASH });
+  orders.workerpoolorder.sign = await owner.sign({ hash: WORKERPOOL_HASH });
+  orders.requestorder.sign = await requester.sign({ hash: REQUEST_HASH });
+  return orders;
+}
+
+/**
+ * iExec SDK hashing each order to its fixed hash, with the app and
+ * workerpool owned by the given account
+ */
+function createIexec(assetOwner = owner.address): IExec {
+  const iexec = {
+    order: {
+      hashApporder: async () => APP_HASH,
+      hashWorkerpoolorder: async () => WORKERPOOL_HASH,
+      hashRequestorder: async () => REQUEST_HASH,
+    },
+    app: { showApp: async () => ({ app: { owner: assetOwner } }) },
+    workerpool: { showWorkerpool: async () => ({ workerpool: { owner: assetOwner } }) },
+  };
+  return iexec as unknown as IExec;
+}
+
+function createBundle(orders = createTestOrders(), sponsored = false): OrderBundle {
+  return createOrderBundle({
+    sourceChain: "source",
+    config: testConfig,
+    orders,
+    options: "0x0003",
+    ttlSeconds: 600,
+    now: NOW,
+    sponsored,
+  });
+}
+
+/**
+ * Order Bundle Tests
+ *
+ * Checks the bundle exported for later routing: its expiry, the checks made
+ * when reading it back and the validation before routing.
+ */
+describe("Order bundle", () => {
+  describe("createOrderBundle", () => {
+    it("Should expire the bundle after its TTL", () => {
+      const bundle = createBundle();
+
+      expect(bundle.createdAt).to.equal("2025-06-01T12:00:00.000Z");
+      expect(bundle.expiresAt).to.equal("2025-06-01T12:10:00.000Z");
+    });
+
+    it("Should target the PoCo of the destination chain", () => {
+      const bundle = createBundle();
+
+      expect(bundle).to.include({
+        sourceChain: "source",
+        destinationChain: "destination",
+        destinationChainId: 421614,
+        pocoAddress: POCO,
+        selector: MATCH_ORDERS_SELECTOR,
+      });
+      expect(createBundle(createTestOrders(), true).selector).to.equal(
+        SPONSOR_MATCH_ORDERS_SELECTOR
+      );
+    });
+  });
+
+  describe("parseOrderBundle", () => {
+    it("Should read back a serialized bundle", () => {
+      const bundle = createBundle();
+
+      expect(parseOrderBundle(serializeOrderBundle(bundle))).to.deep.equal(bundle);
+    });
+
+    it("Should reject an unsupported version", () => {
+      const json = serializeOrderBundle({ ...createBundle(), version: 2 as 1 });
+
+      expect(() => parseOrderBundle(json)).to.throw(
+        "Unsupported order bundle version 2, expected 1"
+      );
+    });
+
+    it("Should reject a selector other than matchOrders and sponsorMatchOrders", () => {
+      const json = serializeOrderBundle({ ...createBundle(), selector: "0x12345678" });
+
+      expect(() => parseOrderBundle(json)).to.throw(
+        "Order bundle selector 0x12345678 is neither matchOrders nor sponsorMatchOrders"
+      );
+    });
+
+    it("Should reject orders edited after export", () => {
+      const bundle = createBundle();
+      bundle.orders.requestorder.workerpoolmaxprice = "999999999";
+
+      expect(() => parseOrderBundle(serializeOrderBundle(bundle))).to.throw(
+        "Order bundle payload does not encode the bundled orders"
+      );
+    });
+  });
+
+  describe("validateOrderBundle", () => {
+    it("Should accept signed orders with volume left before expiry", async () => {
+      const bundle = createBundle(await createSignedOrders());
+
+      const { valid, checks } = await validateOrderBundle(bundle, {
+        iexec: createIexec(),
+        config: testConfig,
+        destinationPublicClient: createFakeClient({ readContract: () => 0n }),
+        now: NOW,
+      });
+
+      expect(checks.map(({ name }) => name)).to.deep.equal([
+        "expiry",
+        "destination",
+        "app order signature",
+        "app order volume",
+        "workerpool order signature",
+        "workerpool order volume",
+        "request order signature",
+        "request order volume",
+      ]);
+      expect(valid).to.equal(true);
+    });
+
+    it("Should report an expired bundle, a foreign signature and a consumed order", async () => {
+      const bundle = createBundle(await createSignedOrders());
+      const consumed = ({ args }: { args?: readonly unknown[] }) =>
+        (args![0] as Hash) === REQUEST_HASH ? 1n : 0n;
+
+      const { valid, checks } = await validateOrderBundle(bundle, {
+        iexec: createIexec(requester.address),
+        config: testConfig,
+        destinationPublicClient: createFakeClient({ readContract: consumed }),
+        now: new Date("2025-06-01T12:10:00.000Z"),
+      });
+
+      expect(valid).to.equal(false);
+      expect(
+        checks.filter(({ ok }) => !ok).map(({ name, detail }) => `${name}: ${detail}`)
+      ).to.deep.equal([
+        "expiry: expired at 2025-06-01T12:10:00.000Z",
+        `app order signature: signed by ${owner.address}, expected ${requester.address}`,
+        `workerpool order signature: signed by ${owner.address}, expected ${requester.address}`,
+        "request order volume: fully consumed or cancelled",
+      ]);
+    });
+  });
+});
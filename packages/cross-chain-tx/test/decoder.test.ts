@@ -0,0 +1,121 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { expect } from "chai";
+import { encodeAbiParameters, encodePacked, keccak256, pad, toHex } from "viem";
+import { decodePocoCall, decodeRoutedMessage } from "../src/decoder.js";
+import {
+  ACCEPT_SPONSOR_SELECTOR,
+  BATCH_SELECTOR,
+  encodeAcceptSponsorPayload,
+  encodeBatchPayload,
+  encodePocoMessage,
+} from "../src/message.js";
+import { MATCH_ORDERS_SELECTOR, encodeMatchOrdersPayload } from "../src/orders.js";
+import { APP, RECEIVER, REQUESTER, ROUTER, createTestOrders } from "./fixtures.js";
+
+const GUID = keccak256(toHex("guid"));
+const SPONSOR = "0x9000000000000000000000000000000000000009";
+
+const matchOrdersPayload = encodeMatchOrdersPayload(createTestOrders());
+
+/**
+ * Message Decoding Tests
+ *
+ * Checks how routed messages and their PoCo calls are decoded, including the
+ * messages that do not decode.
+ */
+describe("Message decoding", () => {
+  describe("decodeRoutedMessage", () => {
+    it("Should decode a matchOrders envelope into named orders", () => {
+      const decoded = decodeRoutedMessage(
+        encodePocoMessage(11155111, REQUESTER, MATCH_ORDERS_SELECTOR, matchOrdersPayload)
+      );
+
+      expect(decoded).to.include({ sourceChainId: 11155111n, caller: REQUESTER });
+      expect(decoded.guid).to.equal(undefined);
+      expect(decoded.call.functionName).to.equal("matchOrders");
+      expect(Object.keys(decoded.call.args!)).to.deep.equal([
+        "apporder",
+        "datasetorder",
+        "workerpoolorder",
+        "requestorder",
+      ]);
+      expect(decoded.call.args!.apporder).to.include({ app: APP, volume: 10n });
+    });
+
+    it("Should decode a full packet with its guid and nonce", () => {
+      const message = encodePocoMessage(
+        11155111,
+        REQUESTER,
+        ACCEPT_SPONSOR_SELECTOR,
+        encodeAcceptSponsorPayload(SPONSOR)
+      );
+      const packet = encodePacked(
+        ["uint8", "uint64", "uint32", "bytes32", "uint32", "bytes32", "bytes32", "bytes"],
+        [1, 7n, 40161, pad(ROUTER), 40231, pad(RECEIVER), GUID, message]
+      );
+
+      const decoded = decodeRoutedMessage(packet);
+
+      expect(decoded).to.include({ guid: GUID, nonce: 7n, caller: REQUESTER });
+      expect(decoded.call).to.deep.equal({
+        selector: ACCEPT_SPONSOR_SELECTOR,
+        functionName: "acceptSponsor",
+        signature: "acceptSponsor(address)",
+        args: { sponsor: SPONSOR },
+      });
+    });
+
+    it("Should throw on a message that is neither an envelope nor a packet", () => {
+      expect(() => decodeRoutedMessage("0x1234")).to.throw();
+    });
+  });
+
+  describe("decodePocoCall", () => {
+    it("Should report a payload that does not match the function inputs", () => {
+      const call = decodePocoCall(MATCH_ORDERS_SELECTOR, "0x1234");
+
+      expect(call).to.include({ selector: MATCH_ORDERS_SELECTOR, functionName: "matchOrders" });
+      expect(call.args).to.equal(undefined);
+      expect(call.decodeError).to.be.a("string").and.not.be.empty;
+    });
+
+    it("Should leave the call of an unknown selector undecoded", () => {
+      expect(decodePocoCall("0x12345678", "0x")).to.deep.equal({ selector: "0x12345678" });
+    });
+
+    it("Should decode each call of a batch", () => {
+      const call = decodePocoCall(
+        BATCH_SELECTOR,
+        encodeBatchPayload("best-effort", [
+          { targetFunction: MATCH_ORDERS_SELECTOR, payload: matchOrdersPayload },
+          { targetFunction: MATCH_ORDERS_SELECTOR, payload: "0x" },
+        ])
+      );
+
+      expect(call.functionName).to.equal("batch");
+      expect(call.args!.mode).to.equal("best-effort");
+      const [first, second] = call.args!.calls as ReturnType<typeof decodePocoCall>[];
+      expect(first.args).to.have.property("requestorder");
+      expect(second.decodeError).to.be.a("string");
+    });
+
+    it("Should report a batch with an unknown mode", () => {
+      const payload = encodeAbiParameters(
+        [
+          { type: "uint8" },
+          { type: "tuple[]", components: [{ type: "bytes4" }, { type: "bytes" }] },
+        ],
+        [5, []]
+      );
+
+      expect(decodePocoCall(BATCH_SELECTOR, payload)).to.deep.equal({
+        selector: BATCH_SELECTOR,
+        functionName: "batch",
+        signature: "batch(uint8,(bytes4,bytes)[])",
+        decodeError: "Unknown batch mode 5",
+      });
+    });
+  });
+});
@@ -0,0 +1,181 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  encodeAbiParameters,
+  encodeEventTopics,
+  getAbiItem,
+  zeroAddress,
+  zeroHash,
+  type Abi,
+  type AbiEvent,
+  type Address,
+  type Hash,
+  type Log,
+  type PublicClient,
+} from "viem";
+import type { Config } from "@iexec/poco-lz-config";
+import type { MatchOrdersOrders } from "../src/types.js";
+
+export const APP = "0x1000000000000000000000000000000000000001";
+export const WORKERPOOL = "0x2000000000000000000000000000000000000002";
+export const REQUESTER = "0x3000000000000000000000000000000000000003";
+
+const TAG = "0x0000000000000000000000000000000000000000000000000000000000000000";
+const SIGN = `0x${"11".repeat(65)}`;
+
+/**
+ * Signed orders without dataset, with numbers in the shapes the iExec SDK returns
+ */
+export function createTestOrders(): MatchOrdersOrders {
+  return {
+    apporder: {
+      app: APP,
+      appprice: 0,
+      volume: 10,
+      tag: TAG,
+      datasetrestrict: zeroAddress,
+      workerpoolrestrict: zeroAddress,
+      requesterrestrict: zeroAddress,
+      salt: `0x${"01".repeat(32)}`,
+      sign: SIGN,
+    },
+    datasetorder: {
+      dataset: zeroAddress,
+      datasetprice: 0,
+      volume: 0,
+      tag: TAG,
+      apprestrict: zeroAddress,
+      workerpoolrestrict: zeroAddress,
+      requesterrestrict: zeroAddress,
+      salt: `0x${"00".repeat(32)}`,
+      sign: "0x",
+    },
+    workerpoolorder: {
+      workerpool: WORKERPOOL,
+      workerpoolprice: "100000000",
+      volume: 5,
+      tag: TAG,
+      category: 0,
+      trust: 0,
+      apprestrict: zeroAddress,
+      datasetrestrict: zeroAddress,
+      requesterrestrict: zeroAddress,
+      salt: `0x${"02".repeat(32)}`,
+      sign: SIGN,
+    },
+    requestorder: {
+      app: APP,
+      appmaxprice: 0,
+      dataset: zeroAddress,
+      datasetmaxprice: 0,
+      workerpool: zeroAddress,
+      workerpoolmaxprice: "100000000",
+      requester: REQUESTER,
+      volume: 1,
+      tag: TAG,
+      category: 0,
+      trust: 0,
+      beneficiary: REQUESTER,
+      callback: zeroAddress,
+      params: '{"iexec_args":"hello"}',
+      salt: `0x${"03".repeat(32)}`,
+      sign: SIGN,
+    },
+  };
+}
+
+export const SOURCE_ENDPOINT = "0x4000000000000000000000000000000000000004";
+export const ROUTER = "0x5000000000000000000000000000000000000005";
+export const DESTINATION_ENDPOINT = "0x6000000000000000000000000000000000000006";
+export const RECEIVER = "0x7000000000000000000000000000000000000007";
+export const POCO = "0x8000000000000000000000000000000000000008";
+
+/**
+ * Profile with one Router ("source") delivering to one Receiver ("destination")
+ */
+export const testConfig: Config = {
+  profile: "test",
+  stage: "testnet",
+  chains: {
+    source: {
+      mode: "Router",
+      chainId: 11155111,
+      rpcEnvVar: "TEST_SOURCE_RPC_URL",
+      defaultRpcUrl: "http://127.0.0.1:8545",
+      explorerUrl: "https://source.example",
+      lzEndpointAddress: SOURCE_ENDPOINT,
+      lzEndpointId: 40161,
+      destinationChain: "destination",
+      pocoOAppAddress: ROUTER,
+      pocoOAppCreatexSalt: zeroHash,
+    },
+    destination: {
+      mode: "Receiver",
+      chainId: 421614,
+      rpcEnvVar: "TEST_DESTINATION_RPC_URL",
+      defaultRpcUrl: "http://127.0.0.1:8546",
+      explorerUrl: "https://destination.example",
+      lzEndpointAddress: DESTINATION_ENDPOINT,
+      lzEndpointId: 40231,
+      pocoAddress: POCO,
+      pocoOAppAddress: RECEIVER,
+      pocoOAppCreatexSalt: zeroHash,
+    },
+  },
+};
+
+/**
+ * Log of an event, encoded the way a node returns it
+ */
+export function createEventLog(
+  address: Address,
+  abi: Abi,
+  eventName: string,
+  args: Record<string, unknown>,
+  blockNumber = 1n
+): Log {
+  const event = getAbiItem({ abi, name: eventName }) as AbiEvent;
+  const dataInputs = event.inputs.filter((input) => !input.indexed);
+  return {
+    address,
+    topics: encodeEventTopics({ abi: [event], args }) as Log["topics"],
+    data: encodeAbiParameters(
+      dataInputs,
+      dataInputs.map((input) => args[input.name!])
+    ),
+    blockNumber,
+    blockHash: zeroHash,
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, "0")}` as Hash,
+    transactionIndex: 0,
+    logIndex: 0,
+    removed: false,
+  };
+}
+
+/**
+ * Public client answering from memory: the logs in the requested block range,
+ * a fixed head and the given readContract results
+ */
+export function createFakeClient({
+  logs = [],
+  blockNumber = 100n,
+  readContract = () => zeroHash,
+}: {
+  logs?: Log[];
+  blockNumber?: bigint;
+  readContract?: (params: { functionName: string; args?: readonly unknown[] }) => unknown;
+}): PublicClient {
+  const client = {
+    getBlockNumber: async () => blockNumber,
+    getBlock: async ({ blockNumber: number }: { blockNumber: bigint }) => ({
+      number,
+      timestamp: number * 12n,
+    }),
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) =>
+      logs.filter((log) => log.blockNumber! >= fromBlock && log.blockNumber! <= toBlock),
+    readContract: async (params: { functionName: string; args?: readonly unknown[] }) =>
+      readContract(params),
+  };
+  return client as unknown as PublicClient;
+}
@@ -0,0 +1,75 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { LzOptions } from "@iexec/lz-options";
+import { expect } from "chai";
+import type { Hex, PublicClient } from "viem";
+import { SEND_MSG_TYPE, estimateLzReceiveGas } from "../src/gas.js";
+import { MATCH_ORDERS_SELECTOR, encodeMatchOrdersPayload } from "../src/orders.js";
+import { REQUESTER, createFakeClient, createTestOrders, testConfig } from "./fixtures.js";
+
+/**
+ * Estimate with a destination simulation using this gas and a Router
+ * enforcing these options, recording the enforcedOptions reads
+ */
+async function estimate(simulatedGas: bigint, enforcedOptions: Hex) {
+  const reads: (readonly unknown[] | undefined)[] = [];
+  const destinationPublicClient = {
+    ...createFakeClient({}),
+    estimateGas: async () => simulatedGas,
+  } as unknown as PublicClient;
+  const sourcePublicClient = createFakeClient({
+    readContract: ({ args }) => {
+      reads.push(args);
+      return enforcedOptions;
+    },
+  });
+
+  const gas = await estimateLzReceiveGas({
+    sourceChain: "source",
+    config: testConfig,
+    destinationPublicClient,
+    sourcePublicClient,
+    selector: MATCH_ORDERS_SELECTOR,
+    payload: encodeMatchOrdersPayload(createTestOrders()),
+    caller: REQUESTER,
+    marginPercent: 20,
+  });
+  return { gas, reads };
+}
+
+/**
+ * Destination Gas Estimation Tests
+ *
+ * Checks that the lzReceive gas sent with a routed call only covers what the
+ * Router's enforced options do not.
+ */
+describe("Destination gas estimation", () => {
+  it("Should send only the gas above the enforced lzReceive gas", async () => {
+    const enforced = LzOptions.newOptions().addExecutorLzReceiveOption(200000n).toHex();
+
+    const { gas, reads } = await estimate(300000n, enforced);
+
+    expect(reads).to.deep.equal([[40231, SEND_MSG_TYPE]]);
+    expect(gas).to.deep.equal({
+      simulatedGas: 300000n,
+      marginPercent: 20,
+      enforcedGas: 200000n,
+      gasLimit: 160000n,
+    });
+  });
+
+  it("Should send no extra gas when the enforced gas covers the call", async () => {
+    const enforced = LzOptions.newOptions().addExecutorLzReceiveOption(200000n).toHex();
+
+    const { gas } = await estimate(100000n, enforced);
+
+    expect(gas.gasLimit).to.equal(0n);
+  });
+
+  it("Should send all the gas when the Router enforces no options", async () => {
+    const { gas } = await estimate(100000n, "0x");
+
+    expect(gas).to.include({ enforcedGas: 0n, gasLimit: 120000n });
+  });
+});
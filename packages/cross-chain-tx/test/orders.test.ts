@@ -0,0 +1,50 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { expect } from "chai";
+import { concat, decodeFunctionData } from "viem";
+import { pocoAbi } from "../src/abi.js";
+import {
+  MATCH_ORDERS_SELECTOR,
+  SPONSOR_MATCH_ORDERS_SELECTOR,
+  encodeMatchOrdersPayload,
+  toMatchOrdersArgs,
+} from "../src/orders.js";
+import { createTestOrders, REQUESTER } from "./fixtures.js";
+
+/**
+ * Order Encoding Tests
+ *
+ * Checks the matchOrders arguments routed to PoCo from the orders signed with
+ * the iExec SDK.
+ */
+describe("Order encoding", () => {
+  it("Should name the PoCo matchOrders and sponsorMatchOrders selectors", () => {
+    expect(MATCH_ORDERS_SELECTOR).to.equal("0x156194d4");
+    expect(SPONSOR_MATCH_ORDERS_SELECTOR).to.equal("0x2f391533");
+  });
+
+  it("Should convert SDK numbers to bigints without losing precision", () => {
+    const orders = createTestOrders();
+    orders.workerpoolorder.workerpoolprice = "123456789012345678901234567890";
+
+    const [apporder, , workerpoolorder, requestorder] = toMatchOrdersArgs(orders);
+
+    expect(apporder.volume).to.equal(10n);
+    expect(workerpoolorder.workerpoolprice).to.equal(123456789012345678901234567890n);
+    expect(requestorder.requester).to.equal(REQUESTER);
+    expect(requestorder.params).to.equal('{"iexec_args":"hello"}');
+  });
+
+  it("Should encode a payload PoCo decodes back into the orders", () => {
+    const orders = createTestOrders();
+
+    const { functionName, args } = decodeFunctionData({
+      abi: pocoAbi,
+      data: concat([MATCH_ORDERS_SELECTOR, encodeMatchOrdersPayload(orders)]),
+    });
+
+    expect(functionName).to.equal("matchOrders");
+    expect(args).to.deep.equal(toMatchOrdersArgs(orders));
+  });
+});
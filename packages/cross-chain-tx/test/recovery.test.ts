@@ -0,0 +1,186 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { expect } from "chai";
+import {
+  concat,
+  encodeErrorResult,
+  keccak256,
+  pad,
+  parseAbi,
+  toHex,
+  zeroHash,
+  type Address,
+  type Hash,
+  type Hex,
+  type Log,
+} from "viem";
+import { lzEndpointAbi } from "../src/abi.js";
+import type { DecodedRoutedMessage, UndecodableMessage } from "../src/decoder.js";
+import {
+  ACCEPT_SPONSOR_SELECTOR,
+  encodeAcceptSponsorPayload,
+  encodePocoMessage,
+} from "../src/message.js";
+import { CrossChainRecovery } from "../src/recovery.js";
+import {
+  DESTINATION_ENDPOINT,
+  RECEIVER,
+  REQUESTER,
+  ROUTER,
+  createEventLog,
+  createFakeClient,
+  testConfig,
+} from "./fixtures.js";
+
+const ROUTED_MESSAGE = encodePocoMessage(
+  11155111,
+  REQUESTER,
+  ACCEPT_SPONSOR_SELECTOR,
+  encodeAcceptSponsorPayload(REQUESTER)
+);
+const FOREIGN_MESSAGE: Hex = "0xdeadbeef";
+
+interface Alert {
+  nonce: bigint;
+  message: Hex;
+  reason?: Hex;
+  receiver?: Address;
+  srcEid?: number;
+  sender?: Address;
+  blockNumber?: bigint;
+}
+
+function guidOf(nonce: bigint): Hash {
+  return keccak256(toHex(`guid ${nonce}`));
+}
+
+function alertLog({
+  nonce,
+  message,
+  reason = "0x",
+  receiver = RECEIVER,
+  srcEid = 40161,
+  sender = ROUTER,
+  blockNumber = 10n,
+}: Alert): Log {
+  return createEventLog(
+    DESTINATION_ENDPOINT,
+    lzEndpointAbi,
+    "LzReceiveAlert",
+    {
+      receiver,
+      executor: REQUESTER,
+      origin: { srcEid, sender: pad(sender), nonce },
+      guid: guidOf(nonce),
+      gas: 200000n,
+      value: 0n,
+      message,
+      extraData: "0x",
+      reason,
+    },
+    blockNumber
+  );
+}
+
+/**
+ * Recovery on a destination chain where the alerts are emitted and the
+ * endpoint still holds the payload of the messages not executed yet
+ * @param pending Message held by the endpoint for each nonce
+ */
+function createRecovery(alerts: Alert[], pending: Record<string, Hex>) {
+  return new CrossChainRecovery({
+    sourceChain: "source",
+    config: testConfig,
+    destinationPublicClient: createFakeClient({
+      logs: alerts.map(alertLog),
+      readContract: ({ args }) => {
+        const nonce = args![3] as bigint;
+        const message = pending[nonce.toString()];
+        return message ? keccak256(concat([guidOf(nonce), message])) : zeroHash;
+      },
+    }),
+    logBlockRange: 25n,
+  });
+}
+
+/**
+ * Message Recovery Tests
+ *
+ * Checks which failed messages are listed as stuck on the destination
+ * endpoint and how they are decoded.
+ */
+describe("Message recovery", () => {
+  it("Should list an undecodable message alongside a routed one", async () => {
+    const recovery = createRecovery(
+      [
+        { nonce: 1n, message: ROUTED_MESSAGE },
+        { nonce: 2n, message: FOREIGN_MESSAGE },
+      ],
+      { 1: ROUTED_MESSAGE, 2: FOREIGN_MESSAGE }
+    );
+
+    const [routed, foreign] = await recovery.findStuckMessages({ fromBlock: 0n });
+
+    expect((routed.decoded as DecodedRoutedMessage).call.functionName).to.equal("acceptSponsor");
+    expect(routed.decoded.guid).to.equal(guidOf(1n));
+    expect(routed.reason).to.equal("no revert data (out of gas?)");
+    const undecodable = foreign.decoded as UndecodableMessage;
+    expect(undecodable).to.include({ message: FOREIGN_MESSAGE, guid: guidOf(2n), nonce: 2n });
+    expect(undecodable.decodeError).to.be.a("string").and.not.be.empty;
+  });
+
+  it("Should keep the latest alert of a message across log ranges", async () => {
+    const reason = encodeErrorResult({
+      abi: parseAbi(["error Error(string)"]),
+      errorName: "Error",
+      args: ["MockPoco: call failed"],
+    });
+    const recovery = createRecovery(
+      [
+        { nonce: 1n, message: ROUTED_MESSAGE, blockNumber: 10n },
+        { nonce: 1n, message: ROUTED_MESSAGE, reason, blockNumber: 60n },
+      ],
+      { 1: ROUTED_MESSAGE }
+    );
+
+    const stuck = await recovery.findStuckMessages({ fromBlock: 0n });
+
+    expect(stuck).to.have.length(1);
+    expect(stuck[0]).to.include({ reason: "MockPoco: call failed", blockNumber: 60n });
+  });
+
+  it("Should ignore the alerts of other receivers and peers", async () => {
+    const other = "0x9000000000000000000000000000000000000009";
+    const recovery = createRecovery(
+      [
+        { nonce: 1n, message: ROUTED_MESSAGE, receiver: other },
+        { nonce: 2n, message: ROUTED_MESSAGE, srcEid: 40102 },
+        { nonce: 3n, message: ROUTED_MESSAGE, sender: other },
+      ],
+      { 1: ROUTED_MESSAGE, 2: ROUTED_MESSAGE, 3: ROUTED_MESSAGE }
+    );
+
+    expect(await recovery.findStuckMessages({ fromBlock: 0n })).to.deep.equal([]);
+  });
+
+  it("Should drop messages the endpoint no longer holds", async () => {
+    const recovery = createRecovery(
+      [
+        { nonce: 1n, message: ROUTED_MESSAGE },
+        { nonce: 2n, message: ROUTED_MESSAGE },
+      ],
+      { 2: ROUTED_MESSAGE }
+    );
+
+    const stuck = await recovery.findStuckMessages({ fromBlock: 0n });
+
+    expect(stuck.map(({ guid }) => guid)).to.deep.equal([guidOf(2n)]);
+    try {
+      await recovery.getStuckMessage(guidOf(1n), { fromBlock: 0n });
+      expect.fail("Expected no stuck message");
+    } catch (error: any) {
+      expect(error.message).to.include(`No stuck message ${guidOf(1n)} from source on destination`);
+    }
+  });
+});
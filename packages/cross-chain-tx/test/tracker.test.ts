@@ -0,0 +1,208 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { expect } from "chai";
+import {
+  encodeErrorResult,
+  encodePacked,
+  keccak256,
+  pad,
+  parseAbi,
+  toHex,
+  zeroHash,
+  type Hash,
+  type Log,
+} from "viem";
+import { lzEndpointAbi, pocoOAppAbi } from "../src/abi.js";
+import { MATCH_ORDERS_SELECTOR } from "../src/orders.js";
+import {
+  CrossChainTracker,
+  decodePacketHeader,
+  decodeRevertReason,
+  type SourceMessage,
+} from "../src/tracker.js";
+import {
+  DESTINATION_ENDPOINT,
+  RECEIVER,
+  REQUESTER,
+  ROUTER,
+  createEventLog,
+  createFakeClient,
+  testConfig,
+} from "./fixtures.js";
+
+const GUID = keccak256(toHex("guid"));
+const OTHER_GUID = keccak256(toHex("other guid"));
+const DEAL_ID = keccak256(toHex("deal"));
+
+const message: SourceMessage = {
+  nonce: 7n,
+  srcEid: 40161,
+  sender: ROUTER,
+  dstEid: 40231,
+  receiver: RECEIVER,
+  guid: GUID,
+  hash: zeroHash,
+  blockNumber: 1n,
+  timestamp: 0n,
+  sourceChainId: 11155111n,
+  caller: REQUESTER,
+  targetFunction: MATCH_ORDERS_SELECTOR,
+};
+
+function receivedLog(guid = GUID, blockNumber = 10n): Log {
+  return createEventLog(
+    RECEIVER,
+    pocoOAppAbi,
+    "CrossChainCallReceived",
+    {
+      guid,
+      sourceChainId: message.sourceChainId,
+      caller: REQUESTER,
+      targetFunction: MATCH_ORDERS_SELECTOR,
+      returnData: DEAL_ID,
+    },
+    blockNumber
+  );
+}
+
+function alertLog(reason: `0x${string}`, guid = GUID, blockNumber = 10n): Log {
+  return createEventLog(
+    DESTINATION_ENDPOINT,
+    lzEndpointAbi,
+    "LzReceiveAlert",
+    {
+      receiver: RECEIVER,
+      executor: REQUESTER,
+      origin: { srcEid: message.srcEid, sender: pad(ROUTER), nonce: message.nonce },
+      guid,
+      gas: 200000n,
+      value: 0n,
+      message: "0x",
+      extraData: "0x",
+      reason,
+    },
+    blockNumber
+  );
+}
+
+function createTracker(logs: Log[], payloadHash: Hash = zeroHash) {
+  return new CrossChainTracker({
+    sourceChain: "source",
+    config: testConfig,
+    sourcePublicClient: createFakeClient({}),
+    destinationPublicClient: createFakeClient({ logs, readContract: () => payloadHash }),
+  });
+}
+
+/**
+ * Delivery Tracking Tests
+ *
+ * Checks the PacketSent header decoding on the source chain and how the
+ * receiver and endpoint events map to a delivery status.
+ */
+describe("Delivery tracking", () => {
+  describe("decodePacketHeader", () => {
+    it("Should decode the header of a PacketV1 packet", () => {
+      const packet = encodePacked(
+        ["uint8", "uint64", "uint32", "bytes32", "uint32", "bytes32", "bytes32", "bytes"],
+        [1, 7n, 40161, pad(ROUTER), 40231, pad(RECEIVER), GUID, "0x1234"]
+      );
+
+      expect(decodePacketHeader(packet)).to.deep.equal({
+        nonce: 7n,
+        srcEid: 40161,
+        sender: ROUTER,
+        dstEid: 40231,
+        receiver: RECEIVER,
+        guid: GUID,
+      });
+    });
+
+    it("Should reject a packet shorter than its header", () => {
+      expect(() => decodePacketHeader(`0x01${"00".repeat(100)}`)).to.throw(
+        "Encoded packet is shorter than the packet header"
+      );
+    });
+  });
+
+  describe("decodeRevertReason", () => {
+    it("Should decode Error(string) and report empty revert data", () => {
+      const data = encodeErrorResult({
+        abi: parseAbi(["error Error(string)"]),
+        errorName: "Error",
+        args: ["MockPoco: call failed"],
+      });
+
+      expect(decodeRevertReason(data)).to.equal("MockPoco: call failed");
+      expect(decodeRevertReason("0x")).to.equal("no revert data (out of gas?)");
+    });
+
+    it("Should return unknown revert data raw", () => {
+      expect(decodeRevertReason("0xdeadbeef")).to.equal("0xdeadbeef");
+    });
+  });
+
+  describe("getStatus", () => {
+    it("Should report a verified message not executed yet as pending", async () => {
+      const status = await createTracker([], keccak256(toHex("payload"))).getStatus(message, 0n);
+
+      expect(status).to.deep.equal({ status: "pending", verified: true });
+    });
+
+    it("Should report a message without payload hash as pending and not verified", async () => {
+      const status = await createTracker([receivedLog(OTHER_GUID)]).getStatus(message, 0n);
+
+      expect(status).to.deep.equal({ status: "pending", verified: false });
+    });
+
+    it("Should report a delivery without deal as delivered", async () => {
+      const status = await createTracker([receivedLog()]).getStatus(message, 0n);
+
+      expect(status.status).to.equal("delivered");
+      expect(status).to.include({ blockNumber: 10n, returnData: DEAL_ID });
+    });
+
+    it("Should report the deal of a delivered matchOrders", async () => {
+      const deal = createEventLog(
+        RECEIVER,
+        pocoOAppAbi,
+        "CrossChainDealCreated",
+        { dealId: DEAL_ID, sourceChainId: message.sourceChainId, caller: REQUESTER, guid: GUID },
+        10n
+      );
+
+      const status = await createTracker([receivedLog(), deal]).getStatus(message, 0n);
+
+      expect(status).to.include({ status: "dealCreated", dealId: DEAL_ID });
+    });
+
+    it("Should report an LzReceiveAlert as failed with its decoded reason", async () => {
+      const error = encodeErrorResult({
+        abi: parseAbi(["error Error(string)"]),
+        errorName: "Error",
+        args: ["MockPoco: call failed"],
+      });
+
+      const status = await createTracker([
+        alertLog("0x", OTHER_GUID),
+        alertLog(error, GUID, 12n),
+      ]).getStatus(message, 0n);
+
+      expect(status).to.include({
+        status: "failed",
+        reason: "MockPoco: call failed",
+        blockNumber: 12n,
+      });
+    });
+
+    it("Should prefer a delivery to an earlier failed attempt", async () => {
+      const status = await createTracker([
+        alertLog("0x", GUID, 10n),
+        receivedLog(GUID, 20n),
+      ]).getStatus(message, 0n);
+
+      expect(status.status).to.equal("delivered");
+    });
+  });
+});
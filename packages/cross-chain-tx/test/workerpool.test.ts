@@ -0,0 +1,178 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { expect } from "chai";
+import type { IExec } from "iexec";
+import type { Address } from "viem";
+import type { WorkerpoolOrder } from "../src/types.js";
+import {
+  selectWorkerpoolOrder,
+  type WorkerpoolOrderQuery,
+  type WorkerpoolSelection,
+} from "../src/workerpool.js";
+import { APP, REQUESTER, createTestOrders } from "./fixtures.js";
+
+const POOL_A = "0xA000000000000000000000000000000000000000";
+const POOL_B = "0xB000000000000000000000000000000000000000";
+const POOL_C = "0xc000000000000000000000000000000000000000";
+
+const query: WorkerpoolOrderQuery = {
+  app: APP,
+  requester: REQUESTER,
+  tag: [],
+  category: 0,
+  trust: 0,
+  volume: 1,
+};
+
+function publish(workerpool: Address, workerpoolprice: string, remaining: number) {
+  const order: WorkerpoolOrder = {
+    ...createTestOrders().workerpoolorder,
+    workerpool,
+    workerpoolprice,
+  };
+  return { order, remaining };
+}
+
+/**
+ * iExec SDK whose orderbook serves these orders by page, recording the requests
+ */
+function createOrderbook(orders: ReturnType<typeof publish>[]) {
+  const requests: { workerpool?: string; page: number }[] = [];
+  const iexec = {
+    orderbook: {
+      fetchWorkerpoolOrderbook: async ({
+        workerpool,
+        page,
+        pageSize,
+      }: {
+        workerpool?: string;
+        page: number;
+        pageSize: number;
+      }) => {
+        requests.push({ workerpool, page });
+        const matching = orders.filter(
+          ({ order }) => !workerpool || order.workerpool.toLowerCase() === workerpool.toLowerCase()
+        );
+        return {
+          orders: matching.slice(page * pageSize, (page + 1) * pageSize),
+          count: matching.length,
+        };
+      },
+    },
+  };
+  return { iexec: iexec as unknown as IExec, requests };
+}
+
+const orders = [
+  publish(POOL_A, "300", 2),
+  publish(POOL_B, "100", 1),
+  publish(POOL_C, "200", 9),
+  publish(POOL_A, "150", 4),
+];
+
+async function select(selection: WorkerpoolSelection) {
+  const { iexec } = createOrderbook(orders);
+  return selectWorkerpoolOrder(iexec, query, selection);
+}
+
+/**
+ * Workerpool Selection Tests
+ *
+ * Checks which published workerpool order each strategy picks, and the
+ * errors when none is left.
+ */
+describe("Workerpool selection", () => {
+  it("Should pick the cheapest order across every page", async () => {
+    const { iexec, requests } = createOrderbook(orders);
+
+    const selected = await selectWorkerpoolOrder(iexec, query, { strategy: "cheapest" }, {
+      pageSize: 1,
+    });
+
+    expect(requests.map(({ page }) => page)).to.deep.equal([0, 1, 2, 3]);
+    expect(selected.order.workerpool).to.equal(POOL_B);
+    expect(selected.explanation).to.equal("cheapest among 4 matching order(s) out of 4");
+  });
+
+  it("Should pick the cheapest order of the pinned workerpool", async () => {
+    const { iexec, requests } = createOrderbook(orders);
+
+    const selected = await selectWorkerpoolOrder(iexec, query, {
+      strategy: "pinned",
+      workerpool: POOL_A,
+    });
+
+    expect(requests[0].workerpool).to.equal(POOL_A);
+    expect(selected.order.workerpoolprice).to.equal("150");
+  });
+
+  it("Should pick the order with the most remaining volume", async () => {
+    const selected = await select({ strategy: "max-volume" });
+
+    expect(selected.order.workerpool).to.equal(POOL_C);
+    expect(selected.remaining).to.equal(9);
+  });
+
+  it("Should pick the cheapest allowlisted order whatever the address case", async () => {
+    const selected = await select({
+      strategy: "allowlist",
+      allowlist: [POOL_A.toLowerCase() as Address, POOL_B.toLowerCase() as Address],
+    });
+
+    expect(selected.order.workerpool).to.equal(POOL_B);
+    expect(selected.explanation).to.equal(
+      "cheapest allowlisted order among 3 matching order(s) out of 4"
+    );
+  });
+
+  it("Should skip orders above the max price", async () => {
+    const selected = await select({ strategy: "max-volume", maxPrice: 160n });
+
+    expect(selected.order.workerpool).to.equal(POOL_A);
+    expect(selected.explanation).to.equal(
+      "most remaining volume (4) at most 160 nRLC among 2 matching order(s) out of 4"
+    );
+  });
+
+  it("Should tell how many orders each filter rejected when none is left", async () => {
+    try {
+      await select({ strategy: "allowlist", allowlist: [POOL_A], maxPrice: 100n });
+      expect.fail("Expected the selection to fail");
+    } catch (error: any) {
+      expect(error.message).to.include("4 order(s) found in the orderbook");
+      expect(error.message).to.include(
+        "rejected: 2 from workerpools outside the allowlist, 2 priced above 100 nRLC"
+      );
+    }
+  });
+
+  it("Should reject a pinned workerpool the dataset order does not accept", async () => {
+    const { iexec } = createOrderbook(orders);
+
+    try {
+      await selectWorkerpoolOrder(
+        iexec,
+        { ...query, datasetWorkerpool: POOL_B },
+        { strategy: "pinned", workerpool: POOL_A }
+      );
+      expect.fail("Expected the selection to fail");
+    } catch (error: any) {
+      expect(error.message).to.include(`only accepts workerpool ${POOL_B}, not ${POOL_A}`);
+    }
+  });
+
+  it("Should require the workerpools of the pinned and allowlist strategies", async () => {
+    for (const selection of [
+      { strategy: "pinned" },
+      { strategy: "allowlist", allowlist: [] },
+    ] as WorkerpoolSelection[]) {
+      try {
+        await select(selection);
+        expect.fail("Expected the selection to fail");
+      } catch (error: any) {
+        expect(error.message).to.match(/strategy needs/);
+      }
+    }
+  });
+});
@@ -6,7 +6,9 @@ pragma solidity ^0.8.22;
 import {OApp, Origin, MessagingFee, MessagingReceipt} from "@layerzerolabs/oapp-evm/contracts/oapp/OApp.sol";
 import {OAppOptionsType3} from "@layerzerolabs/oapp-evm/contracts/oapp/libs/OAppOptionsType3.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
 import {IPocoOApp} from "./interfaces/IPocoOApp.sol";
+import {IPocoSponsorVault} from "./interfaces/IPocoSponsorVault.sol";
 import {PocoMessageLib} from "./libraries/PocoMessageLib.sol";
 
 /**
@@ -22,6 +24,14 @@ import {PocoMessageLib} from "./libraries/PocoMessageLib.sol";
  * - Receives cross-chain messages and executes them on the PoCo contract
  * - Only receives messages, doesn't route
  *
+ * Batches: routing PocoMessageLib.BATCH_SELECTOR with an encodeBatch payload
+ * sends several PoCo calls in one message, for one LayerZero fee
+ *
+ * Sponsored deals: routed sponsorMatchOrders are forwarded to the sponsorVault,
+ * which pays them from the balance of the caller's sponsor. Callers accept a
+ * sponsor by routing PocoMessageLib.ACCEPT_SPONSOR_SELECTOR. This contract holds
+ * no nRLC: PoCo calls it makes are charged to an empty account.
+ *
  * Based on LayerZero OApp standard: https://docs.layerzero.network/v2/developers/evm/oapp/overview
  */
 contract PocoOApp is OApp, OAppOptionsType3, IPocoOApp {
@@ -40,6 +50,12 @@ contract PocoOApp is OApp, OAppOptionsType3, IPocoOApp {
     /// @notice LayerZero Endpoint ID for Arbitrum (only used in router mode)
     uint32 public immutable arbitrumEid;
 
+    /// @notice PocoSponsorVault paying routed sponsorMatchOrders (only used in receiver mode)
+    address public sponsorVault;
+
+    /// @notice Message type of routed calls, whose enforced options are set by lz:oapp:wire
+    uint16 public constant SEND = 1;
+
     /**
      * @notice Constructor
      * @param _endpoint The LayerZero Endpoint V2 address
@@ -71,7 +87,7 @@ contract PocoOApp is OApp, OAppOptionsType3, IPocoOApp {
      * @param targetFunction The function selector to call
      * @param payload The encoded function call data
      * @param refundAddress The address to refund any excess gas fees
-     * @param options Additional parameters for the LayerZero adapter
+     * @param options Additional parameters for the LayerZero adapter, added to the enforced options
      * @return nonce The nonce of the cross-chain message
      */
     function routeCall(
@@ -80,8 +96,71 @@ contract PocoOApp is OApp, OAppOptionsType3, IPocoOApp {
         address refundAddress,
         bytes calldata options
     ) external payable override returns (uint64) {
+        return _routeCall(targetFunction, payload, refundAddress, options, MessagingFee(msg.value, 0));
+    }
+
+    /**
+     * @notice Routes a function call to the PoCo contract on Arbitrum, paying the
+     * LayerZero fee partly in the endpoint's lzToken (ZRO)
+     * @dev The caller must approve this contract for lzTokenFee beforehand: it is
+     * pulled from the caller to the endpoint. msg.value pays the native part.
+     * @param targetFunction The function selector to call
+     * @param payload The encoded function call data
+     * @param refundAddress The address to refund any excess gas fees
+     * @param options Additional parameters for the LayerZero adapter, added to the enforced options
+     * @param lzTokenFee The lzToken fee returned by quoteCall with payInLzToken
+     * @return nonce The nonce of the cross-chain message
+     */
+    function routeCallPayInLzToken(
+        bytes4 targetFunction,
+        bytes calldata payload,
+        address refundAddress,
+        bytes calldata options,
+        uint256 lzTokenFee
+    ) external payable override returns (uint64) {
+        return _routeCall(targetFunction, payload, refundAddress, options, MessagingFee(msg.value, lzTokenFee));
+    }
+
+    /**
+     * @notice Quote the fee for routing a call to Arbitrum
+     * @param targetFunction The function selector (for gas estimation)
+     * @param payload The encoded function call data
+     * @param options Additional parameters for the LayerZero adapter, added to the enforced options
+     * @param payInLzToken Whether to return fee in ZRO token
+     * @return fee The messaging fee
+     */
+    function quoteCall(
+        bytes4 targetFunction,
+        bytes calldata payload,
+        bytes calldata options,
+        bool payInLzToken
+    ) external view override returns (MessagingFee memory fee) {
+        if (mode == Mode.Receiver) revert RouterDoesNotReceiveMessages();
+        
+        bytes memory message = PocoMessageLib.encodeMessage(
+            uint64(block.chainid),
+            address(0), // Placeholder for quote
+            targetFunction,
+            payload
+        );
+
+        return _quote(arbitrumEid, message, combineOptions(arbitrumEid, SEND, options), payInLzToken);
+    }
+
+    /**
+     * @notice Encodes and sends a routed call
+     * @param fee The native fee (msg.value) and the lzToken fee to pay
+     */
+    function _routeCall(
+        bytes4 targetFunction,
+        bytes calldata payload,
+        address refundAddress,
+        bytes calldata options,
+        MessagingFee memory fee
+    ) internal returns (uint64) {
         if (mode == Mode.Receiver) revert RouterDoesNotReceiveMessages();
         if (refundAddress == address(0)) revert InvalidRefundAddress();
+        if (targetFunction == PocoMessageLib.BATCH_SELECTOR) _checkBatch(payload);
 
         // Encode the cross-chain message
         bytes memory message = PocoMessageLib.encodeMessage(
@@ -91,17 +170,18 @@ contract PocoOApp is OApp, OAppOptionsType3, IPocoOApp {
             payload
         );
 
-        // Send the message via LayerZero
+        // Send the message via LayerZero, on top of the enforced options
         MessagingReceipt memory receipt = _lzSend(
             arbitrumEid,
             message,
-            options,
-            MessagingFee(msg.value, 0),
+            combineOptions(arbitrumEid, SEND, options),
+            fee,
             refundAddress
         );
 
         uint64 nonce = receipt.nonce;
         emit CrossChainCallInitiated(
+            receipt.guid,
             uint64(block.chainid),
             msg.sender,
             targetFunction,
@@ -113,43 +193,40 @@ contract PocoOApp is OApp, OAppOptionsType3, IPocoOApp {
     }
 
     /**
-     * @notice Quote the fee for routing a call to Arbitrum
-     * @param targetFunction The function selector (for gas estimation)
-     * @param payload The encoded function call data
-     * @param options Additional parameters for the LayerZero adapter
-     * @param payInLzToken Whether to return fee in ZRO token
-     * @return fee The messaging fee
+     * @notice Rejects batches the receiver could not execute, before the fee is paid
+     * @param payload The encoded batch payload
      */
-    function quoteCall(
-        bytes4 targetFunction,
-        bytes calldata payload,
-        bytes calldata options,
-        bool payInLzToken
-    ) external view override returns (MessagingFee memory fee) {
-        if (mode == Mode.Receiver) revert RouterDoesNotReceiveMessages();
-        
-        bytes memory message = PocoMessageLib.encodeMessage(
-            uint64(block.chainid),
-            address(0), // Placeholder for quote
-            targetFunction,
-            payload
-        );
-
-        return _quote(arbitrumEid, message, options, payInLzToken);
+    function _checkBatch(bytes calldata payload) internal pure {
+        (, PocoMessageLib.Call[] memory calls) = PocoMessageLib.decodeBatch(payload);
+        if (calls.length == 0) revert InvalidBatch();
+        for (uint256 i = 0; i < calls.length; i++) {
+            if (calls[i].targetFunction == PocoMessageLib.BATCH_SELECTOR) revert InvalidBatch();
+        }
     }
 
-
     // ============================================
     // RECEIVER FUNCTIONS (Arbitrum only)
     // ============================================
 
+    /**
+     * @notice Sets the vault that routed sponsorMatchOrders are forwarded to
+     * @param _sponsorVault The PocoSponsorVault, address(0) to reject sponsored calls
+     */
+    function setSponsorVault(address _sponsorVault) external override onlyOwner {
+        if (mode == Mode.Router) revert RouterDoesNotReceiveMessages();
+
+        sponsorVault = _sponsorVault;
+        emit SponsorVaultSet(_sponsorVault);
+    }
+
     /**
      * @notice Called by LayerZero when a message is received
+     * @param _guid The LayerZero GUID of the message, emitted with every event
      * @param _message The encoded message data containing function selector and payload
      */
     function _lzReceive(
         Origin calldata /*_origin*/,
-        bytes32 /*_guid*/,
+        bytes32 _guid,
         bytes calldata _message,
         address /*_executor*/,
         bytes calldata /*_extraData*/
@@ -159,28 +236,127 @@ contract PocoOApp is OApp, OAppOptionsType3, IPocoOApp {
         // Decode the message
         (uint64 sourceChainId, address caller, bytes4 targetFunction, bytes memory payload) = 
             PocoMessageLib.decodeMessage(_message);
-        // Prepare the full calldata for the PoCo contract
-        bytes memory callData = PocoMessageLib.prepareCallData(targetFunction, payload);
+        if (targetFunction == PocoMessageLib.BATCH_SELECTOR) {
+            _executeBatch(_guid, sourceChainId, caller, payload);
+            return;
+        }
         // Execute the call on the PoCo contract
-        (bool success, bytes memory returnData) = pocoAddress.call(callData);
+        (bool success, bytes memory returnData) = _callPoco(sourceChainId, caller, targetFunction, payload);
 
         if (success) {
-            emit CrossChainCallReceived(sourceChainId, caller, targetFunction, returnData);
+            emit CrossChainCallReceived(_guid, sourceChainId, caller, targetFunction, returnData);
             
-            // If the call returned a dealId (bytes32), emit CrossChainDealCreated event
-            // This happens for matchOrders and sponsorMatchOrders functions
-            if (returnData.length == 32) {
+            // matchOrders and sponsorMatchOrders return the dealId; other functions
+            // may return 32 bytes too (e.g. an address) that are not deals
+            if (PocoMessageLib.createsDeal(targetFunction) && returnData.length == 32) {
                 bytes32 dealId = abi.decode(returnData, (bytes32));
-                emit CrossChainDealCreated(dealId, sourceChainId, caller);
+                emit CrossChainDealCreated(dealId, sourceChainId, caller, _guid);
             }
         } else {
             // Decode the revert reason
             string memory reason = PocoMessageLib.decodeRevertReason(returnData);
             // Emit failure event
-            emit CrossChainCallFailed(sourceChainId, caller, targetFunction, reason);
+            emit CrossChainCallFailed(_guid, sourceChainId, caller, targetFunction, reason);
             // Revert to ensure the LayerZero message is marked as failed
             revert(reason);
         }
     }
-}
 
+    /**
+     * @notice Executes the calls of a batch message in order
+     * @dev In AllOrNothing mode the first failure reverts the message, which stays
+     * retryable. In BestEffort mode failures are reported with
+     * CrossChainBatchCallFailed and the message succeeds; a call running out of
+     * gas may still leave too little for the next ones.
+     * CrossChainCallReceived carries abi.encode(bool[]) with the success of each call.
+     * @param guid The LayerZero GUID of the message
+     * @param payload The encoded batch payload
+     */
+    function _executeBatch(
+        bytes32 guid,
+        uint64 sourceChainId,
+        address caller,
+        bytes memory payload
+    ) internal {
+        (PocoMessageLib.BatchMode batchMode, PocoMessageLib.Call[] memory calls) =
+            PocoMessageLib.decodeBatch(payload);
+        bool[] memory results = new bool[](calls.length);
+
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory returnData) =
+                _callPoco(sourceChainId, caller, calls[i].targetFunction, calls[i].payload);
+
+            if (success) {
+                results[i] = true;
+                emit CrossChainBatchCallSucceeded(guid, i, calls[i].targetFunction, returnData);
+                if (PocoMessageLib.createsDeal(calls[i].targetFunction) && returnData.length == 32) {
+                    bytes32 dealId = abi.decode(returnData, (bytes32));
+                    emit CrossChainDealCreated(dealId, sourceChainId, caller, guid);
+                }
+            } else {
+                string memory reason = PocoMessageLib.decodeRevertReason(returnData);
+                emit CrossChainBatchCallFailed(guid, i, calls[i].targetFunction, reason);
+                if (batchMode == PocoMessageLib.BatchMode.AllOrNothing) {
+                    reason = string.concat("Batch call ", Strings.toString(i), ": ", reason);
+                    emit CrossChainCallFailed(
+                        guid,
+                        sourceChainId,
+                        caller,
+                        PocoMessageLib.BATCH_SELECTOR,
+                        reason
+                    );
+                    revert(reason);
+                }
+            }
+        }
+
+        emit CrossChainCallReceived(
+            guid,
+            sourceChainId,
+            caller,
+            PocoMessageLib.BATCH_SELECTOR,
+            abi.encode(results)
+        );
+    }
+
+    /**
+     * @notice Executes one routed call on PoCo; sponsorMatchOrders and acceptSponsor
+     * go to the sponsorVault, with the source chain and caller
+     * @dev Calls without a sponsorVault fail with an Error(string) reason
+     * @param sourceChainId The chain ID where the call originated
+     * @param caller The address that initiated the call on the source chain
+     * @param targetFunction The function selector to call
+     * @param payload The encoded function call data
+     * @return success Whether the call succeeded
+     * @return returnData The return data, or the revert data on failure
+     */
+    function _callPoco(
+        uint64 sourceChainId,
+        address caller,
+        bytes4 targetFunction,
+        bytes memory payload
+    ) internal returns (bool success, bytes memory returnData) {
+        if (
+            targetFunction != PocoMessageLib.SPONSOR_MATCH_ORDERS_SELECTOR &&
+            targetFunction != PocoMessageLib.ACCEPT_SPONSOR_SELECTOR
+        ) {
+            return pocoAddress.call(PocoMessageLib.prepareCallData(targetFunction, payload));
+        }
+        if (sponsorVault == address(0)) {
+            return (false, abi.encodeWithSignature("Error(string)", "PocoOApp: no sponsor vault"));
+        }
+        if (targetFunction == PocoMessageLib.ACCEPT_SPONSOR_SELECTOR) {
+            // Checked here so that a malformed payload fails the call, not the whole message
+            if (payload.length != 32 || uint256(bytes32(payload)) >> 160 != 0) {
+                return (false, abi.encodeWithSignature("Error(string)", "PocoOApp: invalid sponsor"));
+            }
+            address sponsor = abi.decode(payload, (address));
+            return sponsorVault.call(
+                abi.encodeCall(IPocoSponsorVault.acceptSponsor, (sourceChainId, caller, sponsor))
+            );
+        }
+        return sponsorVault.call(
+            abi.encodeCall(IPocoSponsorVault.sponsorMatchOrders, (sourceChainId, caller, payload))
+        );
+    }
+}
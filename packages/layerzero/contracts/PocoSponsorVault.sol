@@ -0,0 +1,174 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+pragma solidity ^0.8.22;
+
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IPocoSponsorVault} from "./interfaces/IPocoSponsorVault.sol";
+import {PocoMessageLib} from "./libraries/PocoMessageLib.sol";
+
+/**
+ * @title PocoSponsorVault
+ * @notice Pays the sponsorMatchOrders routed to the receiver PocoOApp, from per-sponsor balances
+ * @dev Deployed on Arbitrum next to the receiver PocoOApp, which forwards routed
+ * sponsorMatchOrders here instead of calling PoCo itself.
+ *
+ * - Sponsors deposit nRLC from their PoCo account (PoCo is its own ERC20) and
+ *   can withdraw what they have not spent
+ * - A sponsor offers to pay for a caller of a source chain; the caller accepts
+ *   by routing acceptSponsor from that chain, so sponsorships are keyed by
+ *   (source chain ID, caller) and no one can claim a caller it does not control
+ * - PoCo charges the deal to this contract; the cost is debited from the
+ *   caller's sponsor and the call reverts when its balance does not cover it
+ *
+ * PoCo refunds the deals of failed tasks to this contract: they are credited to
+ * no sponsor and the owner withdraws them with withdrawUnassigned.
+ */
+contract PocoSponsorVault is Ownable, IPocoSponsorVault {
+    /// @notice Address of the PoCo contract, also the nRLC token
+    address public immutable pocoAddress;
+
+    /// @notice Receiver PocoOApp, the only caller of acceptSponsor and sponsorMatchOrders
+    address public immutable pocoOApp;
+
+    /// @notice nRLC available to each sponsor
+    mapping(address => uint256) public override balanceOf;
+
+    /// @notice Sponsor paying for each caller, by source chain ID
+    mapping(uint64 => mapping(address => address)) public override sponsorOf;
+
+    /// @notice Sponsors offering to pay for each caller, by source chain ID
+    mapping(uint64 => mapping(address => mapping(address => bool))) public override sponsorshipOffered;
+
+    /// @notice Sum of the sponsor balances
+    uint256 public totalBalance;
+
+    /**
+     * @notice Constructor
+     * @param _pocoAddress The address of the PoCo contract
+     * @param _pocoOApp The address of the receiver PocoOApp
+     * @param _owner The owner of the contract, who withdraws unassigned nRLC
+     */
+    constructor(address _pocoAddress, address _pocoOApp, address _owner) Ownable(_owner) {
+        if (_pocoAddress == address(0) || _pocoOApp == address(0)) revert InvalidAddress();
+
+        pocoAddress = _pocoAddress;
+        pocoOApp = _pocoOApp;
+    }
+
+    /**
+     * @notice Credits the sender with nRLC pulled from its PoCo account
+     * @dev The sender must approve this contract on PoCo for amount first
+     * @param amount The amount to deposit, in nRLC
+     */
+    function deposit(uint256 amount) external override {
+        if (!IERC20(pocoAddress).transferFrom(msg.sender, address(this), amount)) revert PocoTransferFailed();
+
+        balanceOf[msg.sender] += amount;
+        totalBalance += amount;
+        emit Deposited(msg.sender, amount);
+    }
+
+    /**
+     * @notice Sends nRLC of the sender's balance back to its PoCo account
+     * @param amount The amount to withdraw, in nRLC
+     */
+    function withdraw(uint256 amount) external override {
+        uint256 balance = balanceOf[msg.sender];
+        if (amount > balance) revert InsufficientSponsorBalance(msg.sender, balance, amount);
+
+        balanceOf[msg.sender] = balance - amount;
+        totalBalance -= amount;
+        if (!IERC20(pocoAddress).transfer(msg.sender, amount)) revert PocoTransferFailed();
+        emit Withdrawn(msg.sender, amount);
+    }
+
+    /**
+     * @notice Offers, or stops offering, to pay for the sponsorMatchOrders of a caller
+     * @dev Withdrawing an accepted offer also stops the sponsorship
+     * @param sourceChainId The chain ID the caller routes from
+     * @param caller The caller on that chain
+     * @param offered Whether the sender offers to pay for the caller
+     */
+    function offerSponsorship(uint64 sourceChainId, address caller, bool offered) external override {
+        if (caller == address(0)) revert InvalidAddress();
+
+        sponsorshipOffered[sourceChainId][caller][msg.sender] = offered;
+        emit SponsorshipOffered(msg.sender, sourceChainId, caller, offered);
+
+        if (!offered && sponsorOf[sourceChainId][caller] == msg.sender) {
+            delete sponsorOf[sourceChainId][caller];
+            emit SponsorAccepted(sourceChainId, caller, address(0));
+        }
+    }
+
+    /**
+     * @notice Makes an offering sponsor pay for a caller, or drops its sponsor
+     * @dev The PocoOApp only calls it for an acceptSponsor routed by the caller
+     * @param sourceChainId The chain ID the call was routed from
+     * @param caller The caller of the routed call on the source chain
+     * @param sponsor The sponsor to accept, address(0) to have none
+     */
+    function acceptSponsor(uint64 sourceChainId, address caller, address sponsor) external override {
+        if (msg.sender != pocoOApp) revert OnlyPocoOApp();
+        if (sponsor != address(0) && !sponsorshipOffered[sourceChainId][caller][sponsor]) {
+            revert SponsorshipNotOffered(sourceChainId, caller, sponsor);
+        }
+
+        sponsorOf[sourceChainId][caller] = sponsor;
+        emit SponsorAccepted(sourceChainId, caller, sponsor);
+    }
+
+    /**
+     * @notice Calls PoCo sponsorMatchOrders and debits the caller's sponsor with the deal cost
+     * @dev The cost is what PoCo takes from this contract's account during the call
+     * @param sourceChainId The chain ID the call was routed from
+     * @param caller The caller of the routed call on the source chain
+     * @param payload The encoded sponsorMatchOrders arguments
+     * @return dealId The ID of the created deal
+     */
+    function sponsorMatchOrders(
+        uint64 sourceChainId,
+        address caller,
+        bytes calldata payload
+    ) external override returns (bytes32 dealId) {
+        if (msg.sender != pocoOApp) revert OnlyPocoOApp();
+        address sponsor = sponsorOf[sourceChainId][caller];
+        if (sponsor == address(0)) revert CallerNotSponsored(sourceChainId, caller);
+
+        uint256 balanceBefore = IERC20(pocoAddress).balanceOf(address(this));
+        (bool success, bytes memory returnData) = pocoAddress.call(
+            PocoMessageLib.prepareCallData(PocoMessageLib.SPONSOR_MATCH_ORDERS_SELECTOR, payload)
+        );
+        if (!success) {
+            // Bubble up the PoCo revert so the PocoOApp reports its reason
+            assembly {
+                revert(add(returnData, 0x20), mload(returnData))
+            }
+        }
+
+        uint256 cost = balanceBefore - IERC20(pocoAddress).balanceOf(address(this));
+        uint256 balance = balanceOf[sponsor];
+        if (cost > balance) revert InsufficientSponsorBalance(sponsor, balance, cost);
+        balanceOf[sponsor] = balance - cost;
+        totalBalance -= cost;
+
+        dealId = abi.decode(returnData, (bytes32));
+        emit DealSponsored(dealId, sponsor, caller, sourceChainId, cost);
+    }
+
+    /**
+     * @notice Sends the nRLC credited to no sponsor to a PoCo account
+     * @dev PoCo refunds the deals of failed tasks to this contract, not to the sponsor
+     * @param to The receiver of the nRLC
+     * @return amount The amount withdrawn, in nRLC
+     */
+    function withdrawUnassigned(address to) external override onlyOwner returns (uint256 amount) {
+        if (to == address(0)) revert InvalidAddress();
+
+        amount = IERC20(pocoAddress).balanceOf(address(this)) - totalBalance;
+        if (!IERC20(pocoAddress).transfer(to, amount)) revert PocoTransferFailed();
+        emit UnassignedWithdrawn(to, amount);
+    }
+}
@@ -22,8 +22,12 @@ interface IPocoOApp {
     /// @notice Thrown when router receives a LayerZero message (not supported)
     error RouterDoesNotReceiveMessages();
 
+    /// @notice Thrown when routing a batch with no call or with a nested batch
+    error InvalidBatch();
+
     /**
      * @notice Emitted when a cross-chain call is initiated (Router mode)
+     * @param guid The LayerZero GUID of the message, also emitted on the Receiver
      * @param sourceChainId The chain ID where the call originated
      * @param caller The address that initiated the call
      * @param targetFunction The function selector being called
@@ -31,6 +35,7 @@ interface IPocoOApp {
      * @param nonce The nonce for this cross-chain message
      */
     event CrossChainCallInitiated(
+        bytes32 indexed guid,
         uint64 sourceChainId,
         address indexed caller,
         bytes4 indexed targetFunction,
@@ -40,12 +45,14 @@ interface IPocoOApp {
 
     /**
      * @notice Emitted when a cross-chain call is received and executed (Receiver mode)
+     * @param guid The LayerZero GUID of the delivered message
      * @param sourceChainId The chain ID where the call originated
      * @param caller The address that initiated the call on the source chain
      * @param targetFunction The function selector that was executed
      * @param returnData The return data from the function call
      */
     event CrossChainCallReceived(
+        bytes32 indexed guid,
         uint64 sourceChainId,
         address indexed caller,
         bytes4 indexed targetFunction,
@@ -54,12 +61,16 @@ interface IPocoOApp {
 
     /**
      * @notice Emitted when a cross-chain call fails (Receiver mode)
+     * @dev Rolled back with the message: off-chain, failures surface as the
+     * endpoint's LzReceiveAlert carrying the same GUID
+     * @param guid The LayerZero GUID of the failed message
      * @param sourceChainId The chain ID where the call originated
      * @param caller The address that initiated the call on the source chain
      * @param targetFunction The function selector that was called
      * @param reason The reason for the failure
      */
     event CrossChainCallFailed(
+        bytes32 indexed guid,
         uint64 sourceChainId,
         address indexed caller,
         bytes4 indexed targetFunction,
@@ -67,23 +78,63 @@ interface IPocoOApp {
     );
 
     /**
-     * @notice Emitted when a deal is created via cross-chain matchOrders (Receiver mode)
+     * @notice Emitted when a deal is created via cross-chain matchOrders or sponsorMatchOrders (Receiver mode)
      * @param dealId The ID of the created deal
      * @param sourceChainId The chain ID where the matchOrders call originated
      * @param caller The address that initiated the matchOrders on the source chain
+     * @param guid The LayerZero GUID of the message that created the deal
      */
     event CrossChainDealCreated(
         bytes32 indexed dealId,
         uint64 indexed sourceChainId,
-        address indexed caller
+        address indexed caller,
+        bytes32 guid
+    );
+
+    /**
+     * @notice Emitted for each call of a batch that succeeded (Receiver mode)
+     * @param guid The LayerZero GUID of the batch message
+     * @param index The position of the call in the batch
+     * @param targetFunction The function selector that was executed
+     * @param returnData The return data from the function call
+     */
+    event CrossChainBatchCallSucceeded(
+        bytes32 indexed guid,
+        uint256 index,
+        bytes4 indexed targetFunction,
+        bytes returnData
+    );
+
+    /**
+     * @notice Emitted for each call of a batch that failed (Receiver mode)
+     * @dev Rolled back with the message in AllOrNothing mode
+     * @param guid The LayerZero GUID of the batch message
+     * @param index The position of the call in the batch
+     * @param targetFunction The function selector that was called
+     * @param reason The reason for the failure
+     */
+    event CrossChainBatchCallFailed(
+        bytes32 indexed guid,
+        uint256 index,
+        bytes4 indexed targetFunction,
+        string reason
     );
 
+    /**
+     * @notice Emitted when the owner sets the vault paying routed sponsorMatchOrders (Receiver mode)
+     * @param sponsorVault The PocoSponsorVault, address(0) to reject sponsored calls
+     */
+    event SponsorVaultSet(address indexed sponsorVault);
+
     /**
      * @notice Routes a function call to the PoCo contract on Arbitrum (Router mode only)
+     * @dev PocoMessageLib.BATCH_SELECTOR routes a batch of calls, reverting with
+     * InvalidBatch when it is empty or nested. PocoMessageLib.ACCEPT_SPONSOR_SELECTOR
+     * accepts a sponsor of the PocoSponsorVault for the caller.
      * @param targetFunction The function selector to call
      * @param payload The encoded function call data
      * @param refundAddress The address to refund any excess gas fees
-     * @param options Additional parameters for the LayerZero adapter
+     * @param options Additional parameters for the LayerZero adapter, added to the enforced options
      * @return The nonce of the cross-chain message
      */
     function routeCall(
@@ -93,11 +144,29 @@ interface IPocoOApp {
         bytes calldata options
     ) external payable returns (uint64);
 
+    /**
+     * @notice Routes a function call to Arbitrum paying part of the fee in lzToken (Router mode only)
+     * @dev Pulls lzTokenFee from the caller, who must approve this contract first
+     * @param targetFunction The function selector to call
+     * @param payload The encoded function call data
+     * @param refundAddress The address to refund any excess gas fees
+     * @param options Additional parameters for the LayerZero adapter, added to the enforced options
+     * @param lzTokenFee The lzToken (ZRO) part of the fee, from quoteCall with payInLzToken
+     * @return The nonce of the cross-chain message
+     */
+    function routeCallPayInLzToken(
+        bytes4 targetFunction,
+        bytes calldata payload,
+        address refundAddress,
+        bytes calldata options,
+        uint256 lzTokenFee
+    ) external payable returns (uint64);
+
     /**
      * @notice Quote the fee for routing a call to Arbitrum (Router mode only)
      * @param targetFunction The function selector (for gas estimation)
      * @param payload The encoded function call data
-     * @param options Additional parameters for the LayerZero adapter
+     * @param options Additional parameters for the LayerZero adapter, added to the enforced options
      * @param payInLzToken Whether to return fee in ZRO token
      * @return fee The messaging fee
      */
@@ -107,5 +176,11 @@ interface IPocoOApp {
         bytes calldata options,
         bool payInLzToken
     ) external view returns (MessagingFee memory fee);
+
+    /**
+     * @notice Sets the vault that routed sponsorMatchOrders are forwarded to (Receiver mode, owner only)
+     * @param sponsorVault The PocoSponsorVault, address(0) to reject sponsored calls
+     */
+    function setSponsorVault(address sponsorVault) external;
 }
 
@@ -0,0 +1,166 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+pragma solidity ^0.8.22;
+
+/**
+ * @title IPocoSponsorVault
+ * @notice Interface of the vault paying sponsorMatchOrders routed to the receiver PocoOApp
+ */
+interface IPocoSponsorVault {
+    /// @notice Thrown when an invalid address (address(0)) is provided
+    error InvalidAddress();
+
+    /// @notice Thrown when acceptSponsor or sponsorMatchOrders is not called by the receiver PocoOApp
+    error OnlyPocoOApp();
+
+    /// @notice Thrown when a caller accepts a sponsor that did not offer to pay for it
+    error SponsorshipNotOffered(uint64 sourceChainId, address caller, address sponsor);
+
+    /// @notice Thrown when a routed caller has no sponsor
+    error CallerNotSponsored(uint64 sourceChainId, address caller);
+
+    /// @notice Thrown when a sponsor balance does not cover an amount
+    error InsufficientSponsorBalance(address sponsor, uint256 balance, uint256 amount);
+
+    /// @notice Thrown when PoCo refuses an nRLC transfer
+    error PocoTransferFailed();
+
+    /**
+     * @notice Emitted when a sponsor deposits nRLC
+     * @param sponsor The sponsor credited
+     * @param amount The amount deposited, in nRLC
+     */
+    event Deposited(address indexed sponsor, uint256 amount);
+
+    /**
+     * @notice Emitted when a sponsor withdraws nRLC
+     * @param sponsor The sponsor debited
+     * @param amount The amount withdrawn, in nRLC
+     */
+    event Withdrawn(address indexed sponsor, uint256 amount);
+
+    /**
+     * @notice Emitted when a sponsor offers or stops offering to pay for a caller
+     * @param sponsor The sponsor
+     * @param sourceChainId The chain ID the caller routes from
+     * @param caller The caller on that chain
+     * @param offered Whether the caller can now accept the sponsor
+     */
+    event SponsorshipOffered(
+        address indexed sponsor,
+        uint64 indexed sourceChainId,
+        address indexed caller,
+        bool offered
+    );
+
+    /**
+     * @notice Emitted when the sponsor paying for a caller changes
+     * @param sourceChainId The chain ID the caller routes from
+     * @param caller The caller on that chain
+     * @param sponsor The sponsor now paying, address(0) when none
+     */
+    event SponsorAccepted(uint64 indexed sourceChainId, address indexed caller, address indexed sponsor);
+
+    /**
+     * @notice Emitted when a routed sponsorMatchOrders is paid by a sponsor
+     * @param dealId The ID of the created deal
+     * @param sponsor The sponsor debited
+     * @param caller The caller on the source chain
+     * @param sourceChainId The chain ID the call was routed from
+     * @param cost The nRLC locked by PoCo for the deal
+     */
+    event DealSponsored(
+        bytes32 indexed dealId,
+        address indexed sponsor,
+        address indexed caller,
+        uint64 sourceChainId,
+        uint256 cost
+    );
+
+    /**
+     * @notice Emitted when the owner withdraws nRLC credited to no sponsor
+     * @param to The receiver of the nRLC
+     * @param amount The amount withdrawn, in nRLC
+     */
+    event UnassignedWithdrawn(address indexed to, uint256 amount);
+
+    /**
+     * @notice Credits the sender with nRLC pulled from its PoCo account
+     * @dev The sender must approve this contract on PoCo for amount first
+     * @param amount The amount to deposit, in nRLC
+     */
+    function deposit(uint256 amount) external;
+
+    /**
+     * @notice Sends nRLC of the sender's balance back to its PoCo account
+     * @param amount The amount to withdraw, in nRLC
+     */
+    function withdraw(uint256 amount) external;
+
+    /**
+     * @notice Offers, or stops offering, to pay for the sponsorMatchOrders of a caller
+     * @dev The caller pays nothing until it accepts with a routed acceptSponsor.
+     * Withdrawing an accepted offer also stops the sponsorship.
+     * @param sourceChainId The chain ID the caller routes from
+     * @param caller The caller on that chain
+     * @param offered Whether the sender offers to pay for the caller
+     */
+    function offerSponsorship(uint64 sourceChainId, address caller, bool offered) external;
+
+    /**
+     * @notice Makes an offering sponsor pay for a caller, or drops its sponsor
+     * @dev Receiver PocoOApp only, for an acceptSponsor routed by the caller itself
+     * @param sourceChainId The chain ID the call was routed from
+     * @param caller The caller of the routed call on the source chain
+     * @param sponsor The sponsor to accept, address(0) to have none
+     */
+    function acceptSponsor(uint64 sourceChainId, address caller, address sponsor) external;
+
+    /**
+     * @notice Calls PoCo sponsorMatchOrders and debits the caller's sponsor with the deal cost
+     * @dev Receiver PocoOApp only; PoCo reverts are bubbled up
+     * @param sourceChainId The chain ID the call was routed from
+     * @param caller The caller of the routed call on the source chain
+     * @param payload The encoded sponsorMatchOrders arguments
+     * @return dealId The ID of the created deal
+     */
+    function sponsorMatchOrders(
+        uint64 sourceChainId,
+        address caller,
+        bytes calldata payload
+    ) external returns (bytes32 dealId);
+
+    /**
+     * @notice Sends the nRLC credited to no sponsor to a PoCo account (owner only)
+     * @dev PoCo refunds the deals of failed tasks to this contract, not to the sponsor
+     * @param to The receiver of the nRLC
+     * @return amount The amount withdrawn, in nRLC
+     */
+    function withdrawUnassigned(address to) external returns (uint256 amount);
+
+    /**
+     * @notice nRLC available to a sponsor
+     * @param sponsor The sponsor
+     */
+    function balanceOf(address sponsor) external view returns (uint256);
+
+    /**
+     * @notice Sponsor paying for a caller, address(0) when none
+     * @param sourceChainId The chain ID the caller routes from
+     * @param caller The caller on that chain
+     */
+    function sponsorOf(uint64 sourceChainId, address caller) external view returns (address);
+
+    /**
+     * @notice Whether a sponsor offers to pay for a caller
+     * @param sourceChainId The chain ID the caller routes from
+     * @param caller The caller on that chain
+     * @param sponsor The sponsor
+     */
+    function sponsorshipOffered(
+        uint64 sourceChainId,
+        address caller,
+        address sponsor
+    ) external view returns (bool);
+}
@@ -8,6 +8,32 @@ pragma solidity ^0.8.22;
  * @notice Library for encoding and decoding LayerZero messages for PoCo cross-chain calls
  */
 library PocoMessageLib {
+    /// @notice targetFunction of a batch message, whose payload is encodeBatch(mode, calls)
+    /// @dev Not a PoCo function: the receiver executes each call of the batch instead
+    bytes4 internal constant BATCH_SELECTOR = bytes4(keccak256("batch(uint8,(bytes4,bytes)[])"));
+
+    /// @notice targetFunction of a message accepting a sponsor, whose payload is abi.encode(sponsor)
+    /// @dev Not a PoCo function: the receiver calls PocoSponsorVault.acceptSponsor for the caller
+    bytes4 internal constant ACCEPT_SPONSOR_SELECTOR = bytes4(keccak256("acceptSponsor(address)"));
+
+    /// @notice PoCo matchOrders(AppOrder,DatasetOrder,WorkerpoolOrder,RequestOrder)
+    bytes4 internal constant MATCH_ORDERS_SELECTOR = 0x156194d4;
+
+    /// @notice PoCo sponsorMatchOrders, same arguments as matchOrders
+    bytes4 internal constant SPONSOR_MATCH_ORDERS_SELECTOR = 0x2f391533;
+
+    /// @notice How the receiver handles a failing call of a batch
+    enum BatchMode {
+        AllOrNothing, // Revert the whole message, which stays retryable
+        BestEffort    // Report the failure and go on with the next calls
+    }
+
+    /// @notice One PoCo call of a batch
+    struct Call {
+        bytes4 targetFunction;
+        bytes payload;
+    }
+
     /**
      * @notice Encodes a cross-chain message
      * @param sourceChainId The chain ID where the call originated
@@ -44,6 +70,38 @@ library PocoMessageLib {
         );
     }
 
+    /**
+     * @notice Encodes the payload of a batch message
+     * @param mode How the receiver handles a failing call
+     * @param calls The PoCo calls, executed in order
+     * @return Encoded batch payload, sent with BATCH_SELECTOR as targetFunction
+     */
+    function encodeBatch(BatchMode mode, Call[] memory calls) internal pure returns (bytes memory) {
+        return abi.encode(mode, calls);
+    }
+
+    /**
+     * @notice Decodes the payload of a batch message
+     * @param payload The encoded batch payload
+     * @return mode How the receiver handles a failing call
+     * @return calls The PoCo calls, executed in order
+     */
+    function decodeBatch(bytes memory payload)
+        internal
+        pure
+        returns (BatchMode mode, Call[] memory calls)
+    {
+        (mode, calls) = abi.decode(payload, (BatchMode, Call[]));
+    }
+
+    /**
+     * @notice Whether a successful call of this PoCo function returns a deal ID
+     * @param targetFunction The function selector
+     */
+    function createsDeal(bytes4 targetFunction) internal pure returns (bool) {
+        return targetFunction == MATCH_ORDERS_SELECTOR || targetFunction == SPONSOR_MATCH_ORDERS_SELECTOR;
+    }
+
     /**
      * @notice Prepares the full calldata for a function call
      * @param targetFunction The function selector
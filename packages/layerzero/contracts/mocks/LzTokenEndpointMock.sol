@@ -0,0 +1,97 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+pragma solidity ^0.8.22;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {
+    MessagingFee,
+    MessagingParams,
+    MessagingReceipt,
+    Origin
+} from "@layerzerolabs/lz-evm-protocol-v2/contracts/interfaces/ILayerZeroEndpointV2.sol";
+import {GUID} from "@layerzerolabs/lz-evm-protocol-v2/contracts/libs/GUID.sol";
+
+interface IEndpointV2Mock {
+    function receivePayload(
+        Origin calldata origin,
+        address receiver,
+        bytes32 payloadHash,
+        bytes calldata message,
+        uint256 gas,
+        uint256 msgValue,
+        bytes32 guid
+    ) external payable;
+}
+
+/**
+ * @title LzTokenEndpointMock
+ * @notice Source endpoint mock charging part of the fee in an lzToken
+ * @dev LayerZero's EndpointV2Mock has no lzToken and rejects payInLzToken. This
+ * mock quotes flat fees, checks that the OApp transferred the lzToken fee before
+ * send, and delivers the message to a destination EndpointV2Mock the same way.
+ */
+contract LzTokenEndpointMock {
+    uint256 public constant DELIVERY_GAS = 500_000;
+
+    uint32 public immutable eid;
+    address public immutable lzToken;
+    address public immutable destLzEndpoint;
+    uint256 public immutable nativeFee;
+    uint256 public immutable lzTokenFee;
+
+    /// @notice lzToken fees already accounted for by previous sends
+    uint256 public lzTokenCollected;
+    mapping(address sender => uint64) public outboundNonce;
+
+    constructor(
+        uint32 _eid,
+        address _lzToken,
+        address _destLzEndpoint,
+        uint256 _nativeFee,
+        uint256 _lzTokenFee
+    ) {
+        eid = _eid;
+        lzToken = _lzToken;
+        destLzEndpoint = _destLzEndpoint;
+        nativeFee = _nativeFee;
+        lzTokenFee = _lzTokenFee;
+    }
+
+    function setDelegate(address /*delegate*/) external {}
+
+    function quote(MessagingParams calldata params, address /*sender*/) external view returns (MessagingFee memory) {
+        return MessagingFee(nativeFee, params.payInLzToken ? lzTokenFee : 0);
+    }
+
+    function send(
+        MessagingParams calldata params,
+        address refundAddress
+    ) external payable returns (MessagingReceipt memory receipt) {
+        require(msg.value >= nativeFee, "LzTokenEndpointMock: not enough native for fees");
+        uint256 paidLzTokenFee;
+        if (params.payInLzToken) {
+            // The OApp transfers the lzToken fee to the endpoint before calling send
+            paidLzTokenFee = IERC20(lzToken).balanceOf(address(this)) - lzTokenCollected;
+            require(paidLzTokenFee >= lzTokenFee, "LzTokenEndpointMock: not enough lzToken for fees");
+            lzTokenCollected += paidLzTokenFee;
+        }
+        if (msg.value > nativeFee) {
+            (bool success, ) = refundAddress.call{value: msg.value - nativeFee}("");
+            require(success, "LzTokenEndpointMock: failed to refund");
+        }
+
+        uint64 nonce = ++outboundNonce[msg.sender];
+        bytes32 guid = GUID.generate(nonce, eid, msg.sender, params.dstEid, params.receiver);
+        IEndpointV2Mock(destLzEndpoint).receivePayload(
+            Origin(eid, bytes32(uint256(uint160(msg.sender))), nonce),
+            address(uint160(uint256(params.receiver))),
+            keccak256(abi.encodePacked(guid, params.message)),
+            params.message,
+            DELIVERY_GAS,
+            0,
+            guid
+        );
+        return MessagingReceipt(guid, nonce, MessagingFee(nativeFee, paidLzTokenFee));
+    }
+}
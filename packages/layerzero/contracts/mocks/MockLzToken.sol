@@ -0,0 +1,18 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+pragma solidity ^0.8.22;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockLzToken
+ * @notice Mintable ERC20 standing for the LayerZero token (ZRO) in tests
+ */
+contract MockLzToken is ERC20 {
+    constructor() ERC20("Mock LayerZero", "ZRO") {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
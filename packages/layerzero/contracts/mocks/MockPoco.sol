@@ -82,14 +82,22 @@ contract MockPoco {
         return address(uint160(uint256(keccak256(abi.encodePacked(selector, block.timestamp)))));
     }
 
+    /**
+     * @notice Always reverts, to simulate a failing PoCo call
+     */
+    function failingCall() external pure {
+        revert("MockPoco: call failed");
+    }
+
     /**
      * @notice Generic fallback to accept any call
+     * @dev Returns the data set with setReturnData for the selector (empty by default)
      */
-    fallback() external {
-        bytes4 selector = bytes4(msg.data);
+    fallback(bytes calldata input) external returns (bytes memory) {
+        bytes4 selector = bytes4(input);
         bytes memory payload;
-        if (msg.data.length > 4) {
-            payload = msg.data[4:];
+        if (input.length > 4) {
+            payload = input[4:];
         } else {
             payload = "";
         }
@@ -101,6 +109,7 @@ contract MockPoco {
         }));
         functionCalled[selector] = true;
         emit CallReceived(selector, payload, msg.sender);
+        return functionReturnData[selector];
     }
 
     /**
@@ -0,0 +1,49 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+pragma solidity ^0.8.22;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockSponsorPoco
+ * @notice Mock PoCo with nRLC accounts, to test paying sponsored deals
+ * @dev sponsorMatchOrders locks dealCost from its caller, like PoCo charging the sponsor
+ */
+contract MockSponsorPoco is ERC20 {
+    bytes4 private constant SPONSOR_MATCH_ORDERS_SELECTOR = 0x2f391533;
+
+    uint256 public dealCost;
+    uint256 public dealCount;
+
+    constructor() ERC20("Staked RLC", "SRLC") {}
+
+    function decimals() public pure override returns (uint8) {
+        return 9;
+    }
+
+    /**
+     * @notice Credit an account, like PoCo deposit
+     */
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    /**
+     * @notice Set the price of the next sponsored deals
+     */
+    function setDealCost(uint256 cost) external {
+        dealCost = cost;
+    }
+
+    /**
+     * @notice Simulate sponsorMatchOrders, whatever its arguments
+     * @dev Reverts with the ERC20 error when the caller cannot pay
+     */
+    fallback(bytes calldata input) external returns (bytes memory) {
+        require(bytes4(input) == SPONSOR_MATCH_ORDERS_SELECTOR, "MockSponsorPoco: unknown function");
+        _burn(msg.sender, dealCost);
+        dealCount++;
+        return abi.encode(keccak256(abi.encodePacked(dealCount)));
+    }
+}
@@ -3,23 +3,35 @@
 
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
+import {
+  encodeFunctionData,
+  getAddress,
+  parseEventLogs,
+  type Address,
+  type Hex,
+  type Log,
+} from "viem";
 import {
   loadConfig,
   getChainConfig,
-  validateChainConfig,
-  getDestinationEndpointId,
-  getPocoAddress,
-} from "../utils/config";
+  assertValidConfig,
+} from "@iexec/poco-lz-config";
+import { CREATEX_ADDRESS, createxAbi } from "../utils/createx";
+import { getPocoOAppDeployment } from "../utils/deployment";
 
 /**
- * Deploy PocoOApp contract using hardhat-deploy
- * 
+ * Deploy PocoOApp contract through CreateX using hardhat-deploy
+ *
  * This script deploys the PocoOApp contract in the appropriate mode (Router or Receiver)
- * based on the network configuration in config/config.json
+ * based on the network configuration in the shared config.json (@iexec/poco-lz-config).
+ * Only networks of the active profile (POCO_LZ_PROFILE) can be deployed.
+ *
+ * The contract is created with CreateX.deployCreate2 and the chain's
+ * pocoOAppCreatexSalt, so its address is known in advance (poco:predict-address).
+ * The deployment aborts if CreateX returns any other address.
  */
 const deployPocoOApp: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts, network } = hre;
-  const { deploy } = deployments;
   const { deployer } = await getNamedAccounts();
 
   console.log(`\n📡 Deploying PocoOApp on ${network.name}...`);
@@ -27,49 +39,92 @@ const deployPocoOApp: DeployFunction = async function (hre: HardhatRuntimeEnviro
 
   // Load configuration
   const config = loadConfig();
+  assertValidConfig(config);
+  console.log(`Profile: ${config.profile} (${config.stage})`);
   const chainConfig = getChainConfig(network.name, config);
-  validateChainConfig(chainConfig);
-
-  // Determine mode enum value (Router = 0, Receiver = 1)
-  const mode = chainConfig.mode === "Router" ? 0 : 1;
-  console.log(`Mode: ${chainConfig.mode} (${mode})`);
-
-  // Get destination endpoint ID (for Router mode)
-  const destinationEid =
-    chainConfig.mode === "Router"
-      ? getDestinationEndpointId(config, network.name)
-      : 0; // 0 for Receiver mode (not used)
 
-  // Get PoCo address
-  const pocoAddress = getPocoAddress(config, network.name);
-  console.log(`PoCo address: ${pocoAddress}`);
-
-  // Deploy parameters
-  const endpoint = chainConfig.lzEndpointAddress;
-  const owner = deployer; // Deployer is the owner
-  const arbitrumEid = destinationEid;
+  const artifact = await deployments.getArtifact("PocoOApp");
+  const { args, salt, initCode, predictedAddress } = getPocoOAppDeployment(
+    config,
+    network.name,
+    getAddress(deployer),
+    artifact
+  );
+  const [endpoint, owner, mode, pocoAddress, arbitrumEid] = args;
 
   console.log(`\nDeployment parameters:`);
   console.log(`- Endpoint: ${endpoint}`);
   console.log(`- Owner: ${owner}`);
-  console.log(`- Mode: ${mode}`);
+  console.log(`- Mode: ${chainConfig.mode} (${mode})`);
   console.log(`- PoCo Address: ${pocoAddress}`);
   console.log(`- Arbitrum EID: ${arbitrumEid}`);
-
-  // Deploy PocoOApp
-  const deployment = await deploy("PocoOApp", {
-    from: deployer,
-    args: [endpoint, owner, mode, pocoAddress, arbitrumEid],
-    log: true,
-    waitConfirmations: 1,
+  console.log(`- CreateX salt: ${salt}`);
+  console.log(`- Predicted address: ${predictedAddress}`);
+
+  if (
+    chainConfig.pocoOAppAddress &&
+    getAddress(chainConfig.pocoOAppAddress) !== predictedAddress
+  ) {
+    console.log(
+      `⚠️  config.json pocoOAppAddress ${chainConfig.pocoOAppAddress} differs from the prediction`
+    );
+  }
+
+  const getCode = (address: Address): Promise<Hex> =>
+    network.provider.request({ method: "eth_getCode", params: [address, "latest"] }) as Promise<Hex>;
+
+  if ((await getCode(CREATEX_ADDRESS)) === "0x") {
+    throw new Error(`CreateX is not deployed at ${CREATEX_ADDRESS} on ${network.name}`);
+  }
+
+  let transactionHash: string | undefined;
+  if ((await getCode(predictedAddress)) !== "0x") {
+    console.log(`\n♻️  PocoOApp already deployed at ${predictedAddress}`);
+  } else {
+    // Deploy PocoOApp through CreateX
+    const receipt = await deployments.rawTx({
+      from: deployer,
+      to: CREATEX_ADDRESS,
+      data: encodeFunctionData({
+        abi: createxAbi,
+        functionName: "deployCreate2",
+        args: [salt, initCode],
+      }),
+      log: true,
+      waitConfirmations: 1,
+    });
+    transactionHash = receipt.transactionHash;
+
+    const [creation] = parseEventLogs({
+      abi: createxAbi,
+      eventName: "ContractCreation",
+      logs: receipt.logs as unknown as Log[],
+    });
+    const deployedAddress = creation && getAddress(creation.args.newContract);
+    if (deployedAddress !== predictedAddress) {
+      throw new Error(
+        `CreateX deployed PocoOApp at ${deployedAddress ?? "an unknown address"}, expected ${predictedAddress}. Aborting.`
+      );
+    }
+  }
+
+  await deployments.save("PocoOApp", {
+    address: predictedAddress,
+    abi: artifact.abi,
+    args,
+    bytecode: artifact.bytecode,
+    deployedBytecode: artifact.deployedBytecode,
+    ...(transactionHash && { transactionHash }),
   });
 
-  console.log(`\n✅ PocoOApp deployed to: ${deployment.address}`);
-  console.log(`Transaction hash: ${deployment.transactionHash}`);
+  console.log(`\n✅ PocoOApp deployed to: ${predictedAddress}`);
+  if (transactionHash) {
+    console.log(`Transaction hash: ${transactionHash}`);
+  }
 
-  // Save deployment info to config
-  console.log(`\n💡 Add this address to config/config.json:`);
-  console.log(`"pocoOAppAddress": "${deployment.address}"`);
+  // poco:deploy saves it automatically
+  console.log(`\n💡 Save this address to config.json with:`);
+  console.log(`npx hardhat poco:save-address --network ${network.name}`);
 
   return true;
 };
@@ -80,4 +135,3 @@ export default deployPocoOApp;
 deployPocoOApp.id = "deploy_poco_oapp"; // Unique identifier for hardhat-deploy
 deployPocoOApp.tags = ["PocoOApp", "1.0.0"];
 deployPocoOApp.dependencies = []; // No dependencies
-
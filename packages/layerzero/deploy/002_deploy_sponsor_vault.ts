@@ -0,0 +1,58 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { getAddress, type Address } from "viem";
+import { loadConfig, getChainConfig, getPocoAddress } from "@iexec/poco-lz-config";
+
+/**
+ * Deploy the PocoSponsorVault of a Receiver and set it on its PocoOApp
+ *
+ * Routed sponsorMatchOrders are paid by the vault from the balance of the
+ * caller's sponsor; without a vault the receiver rejects them. Router networks
+ * are skipped. The deployer, owner of the PocoOApp, also owns the vault.
+ */
+const deploySponsorVault: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts, network } = hre;
+  const { deployer } = await getNamedAccounts();
+
+  const config = loadConfig();
+  const chainConfig = getChainConfig(network.name, config);
+  if (chainConfig.mode !== "Receiver") {
+    console.log(`\n⏭️  ${network.name} is a Router, no PocoSponsorVault to deploy`);
+    return true;
+  }
+
+  console.log(`\n📡 Deploying PocoSponsorVault on ${network.name}...`);
+  const pocoOApp = await deployments.get("PocoOApp");
+  const pocoAddress = getPocoAddress(config, network.name);
+  const vault = await deployments.deploy("PocoSponsorVault", {
+    from: deployer,
+    args: [pocoAddress, pocoOApp.address, deployer],
+    log: true,
+    waitConfirmations: 1,
+  });
+  console.log(`✅ PocoSponsorVault deployed to: ${vault.address}`);
+
+  const current = (await deployments.read("PocoOApp", "sponsorVault")) as Address;
+  if (getAddress(current) === getAddress(vault.address)) {
+    console.log(`♻️  PocoOApp ${pocoOApp.address} already uses this vault`);
+  } else {
+    await deployments.execute(
+      "PocoOApp",
+      { from: deployer, log: true, waitConfirmations: 1 },
+      "setSponsorVault",
+      vault.address
+    );
+    console.log(`🤝 PocoOApp ${pocoOApp.address} now forwards sponsorMatchOrders to the vault`);
+  }
+
+  return true;
+};
+
+export default deploySponsorVault;
+
+deploySponsorVault.id = "deploy_sponsor_vault";
+deploySponsorVault.tags = ["PocoSponsorVault", "1.0.0"];
+deploySponsorVault.dependencies = ["PocoOApp"];
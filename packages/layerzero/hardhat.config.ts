@@ -5,7 +5,26 @@ import "@nomicfoundation/hardhat-verify";
 import "@nomiclabs/hardhat-ethers";
 import "hardhat-deploy";
 import "@layerzerolabs/toolbox-hardhat";
-import { EndpointId } from "@layerzerolabs/lz-definitions";
+import { loadConfig, getRpcUrl } from "@iexec/poco-lz-config";
+import "./tasks/check_deployment";
+import "./tasks/deployment";
+
+const accounts = process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [];
+
+// One network per chain of the active config.json profile (POCO_LZ_PROFILE), so
+// lz:deploy, lz:wire and the cross-chain-tx scripts share the same chain registry
+// and never mix mainnet and testnet chains
+const configuredNetworks = Object.fromEntries(
+  Object.entries(loadConfig().chains).map(([name, chainConfig]) => [
+    name,
+    {
+      eid: chainConfig.lzEndpointId,
+      url: getRpcUrl(chainConfig),
+      chainId: chainConfig.chainId,
+      accounts,
+    },
+  ])
+);
 
 const config = {
   solidity: {
@@ -30,28 +49,7 @@ const config = {
       chainId: 31337,
       blockGasLimit: 32_000_000,
     },
-    sepolia: {
-      eid: EndpointId.SEPOLIA_V2_TESTNET,
-      url:
-        process.env.SEPOLIA_RPC_URL ||
-        "https://gateway.tenderly.co/public/sepolia",
-      chainId: 11155111,
-      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
-    },
-    arbitrumSepolia: {
-      eid: EndpointId.ARBSEP_V2_TESTNET,
-      url:
-        process.env.ARBITRUM_SEPOLIA_RPC_URL ||
-        "https://arbitrum-sepolia.gateway.tenderly.co",
-      chainId: 421614,
-      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
-    },
-    baseSepolia: {
-      eid: EndpointId.BASESEP_V2_TESTNET,
-      url: process.env.BASE_SEPOLIA_RPC_URL || "https://sepolia.base.org",
-      chainId: 84532,
-      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
-    },
+    ...configuredNetworks,
   },
   paths: {
     sources: "./contracts",
@@ -2,14 +2,15 @@ import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 import {
   loadConfig,
   getChainConfig,
-  validateChainConfig,
   getDestinationEndpointId,
   getPocoAddress,
-} from "../../utils/config";
+  assertValidConfig,
+} from "@iexec/poco-lz-config";
 
 const PocoOAppModule = buildModule("PocoOApp", (m) => {
   // Load configuration
   const config = loadConfig();
+  assertValidConfig(config);
 
   // Get network name from env var (set by deploy.ts before module import)
   const networkName = process.env.IGNITION_NETWORK;
@@ -17,8 +18,7 @@ const PocoOAppModule = buildModule("PocoOApp", (m) => {
     throw new Error("IGNITION_NETWORK must be set by deploy script");
   }
 
-  const chainConfig = getChainConfig(networkName);
-  validateChainConfig(chainConfig);
+  const chainConfig = getChainConfig(networkName, config);
 
   // Determine mode enum value (Router = 0, Receiver = 1)
   const mode = chainConfig.mode === "Router" ? 0 : 1;
@@ -40,19 +40,14 @@ const PocoOAppModule = buildModule("PocoOApp", (m) => {
   const pocoAddress = m.getParameter("pocoAddress", pocoAddr);
   const arbitrumEid = m.getParameter("arbitrumEid", destinationEid);
 
-  // Optional salt for CREATE2 deployment
-  const salt = m.getParameter(
-    "salt",
-    chainConfig.pocoOAppCreatexSalt || undefined
-  );
-
   // Deploy PocoOApp
+  // Ignition has no per-contract salt: deterministic deployments with
+  // pocoOAppCreatexSalt go through deploy/001_deploy_poco_oapp.ts (CreateX)
   const pocoOApp = m.contract(
     "PocoOApp",
     [endpoint, owner, modeParam, pocoAddress, arbitrumEid],
     {
       id: `PocoOApp_${chainConfig.mode}`,
-      ...(salt && { salt }),
     }
   );
 
@@ -2,42 +2,48 @@ import { EndpointId } from "@layerzerolabs/lz-definitions";
 import { ExecutorOptionType } from "@layerzerolabs/lz-v2-utilities";
 import type { OAppEnforcedOption, OmniPointHardhat } from "@layerzerolabs/toolbox-hardhat";
 import { generateConnectionsConfig, type TwoWayConfig } from "@layerzerolabs/metadata-tools";
+import {
+  loadConfig,
+  getDestinationChain,
+  getRouters,
+  type ChainConfig,
+} from "@iexec/poco-lz-config";
 
 /**
  * LayerZero OApp Configuration for iExec PoCo Cross-Chain
  * 
+ * Contracts and pathways are derived from the active profile of the shared
+ * config.json (POCO_LZ_PROFILE): every Router is paired with its configured
+ * destinationChain Receiver.
  * Uses LayerZero Simple Config Generator for automatic bidirectional connections
  */
 
+const config = loadConfig();
+
 // ============================================================================
 // Contract Definitions
 // ============================================================================
 
-const sepoliaContract: OmniPointHardhat = {
-  eid: EndpointId.SEPOLIA_V2_TESTNET,
-  contractName: "PocoOApp",
-};
-
-const baseSepoliaContract: OmniPointHardhat = {
-  eid: EndpointId.BASESEP_V2_TESTNET,
-  contractName: "PocoOApp",
-};
+function toContract(chainConfig: ChainConfig): OmniPointHardhat {
+  return {
+    eid: chainConfig.lzEndpointId as EndpointId,
+    contractName: "PocoOApp",
+  };
+}
 
-const arbitrumSepoliaContract: OmniPointHardhat = {
-  eid: EndpointId.ARBSEP_V2_TESTNET,
-  contractName: "PocoOApp",
-};
+const contracts = Object.values(config.chains).map(toContract);
 
 // ============================================================================
 // Enforced Options
 // ============================================================================
 
-// Gas limit for PoCo matchOrders execution on Arbitrum
+// Base lzReceive gas of every routed call (PocoOApp.SEND): the router adds it to
+// the caller options, which only carry the gas needed above it
 const EVM_ENFORCED_OPTIONS: OAppEnforcedOption[] = [
   {
     msgType: 1,
     optionType: ExecutorOptionType.LZ_RECEIVE,
-    gas: 200000, // Sufficient for matchOrders execution
+    gas: 200000,
     value: 0,
   },
 ];
@@ -47,28 +53,19 @@ const EVM_ENFORCED_OPTIONS: OAppEnforcedOption[] = [
 // ============================================================================
 
 /**
- * Define pathways - automatically bidirectional
+ * One pathway per Router ↔ destination Receiver - automatically bidirectional
  * Format: [contractA, contractB, [requiredDVNs, [optionalDVNs, threshold]], [confirmations A→B, B→A], [options A→B, B→A]]
  */
-const pathways: TwoWayConfig[] = [
-  // Sepolia ↔ Arbitrum Sepolia
-  [
-    sepoliaContract,                      // Chain A
-    arbitrumSepoliaContract,              // Chain B
+export const pathways: TwoWayConfig[] = getRouters(config).map(([routerName, routerConfig]) => {
+  const [, receiverConfig] = getDestinationChain(config, routerName);
+  return [
+    toContract(routerConfig),             // Chain A (Router)
+    toContract(receiverConfig),           // Chain B (Receiver)
     [["LayerZero Labs"], []],             // Use default LayerZero Labs DVN
     [1, 1],                               // 1 block confirmation each direction
     [EVM_ENFORCED_OPTIONS, EVM_ENFORCED_OPTIONS],
-  ],
-
-  // Base Sepolia ↔ Arbitrum Sepolia
-  [
-    baseSepoliaContract,                  // Chain A
-    arbitrumSepoliaContract,              // Chain B
-    [["LayerZero Labs"], []],             // Use default LayerZero Labs DVN
-    [1, 1],                               // 1 block confirmation each direction
-    [EVM_ENFORCED_OPTIONS, EVM_ENFORCED_OPTIONS],
-  ],
-];
+  ];
+});
 
 // ============================================================================
 // Export Configuration
@@ -79,11 +76,7 @@ export default async function () {
   const connections = await generateConnectionsConfig(pathways);
 
   return {
-    contracts: [
-      { contract: sepoliaContract },
-      { contract: baseSepoliaContract },
-      { contract: arbitrumSepoliaContract },
-    ],
+    contracts: contracts.map((contract) => ({ contract })),
     connections,
   };
 }
@@ -0,0 +1,50 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Validate the shared config.json (packages/config/config.json)
+ *
+ * Usage:
+ *   npm run config:check
+ *   npm run config:check -- --config path/to/config.json
+ *
+ * The path can also be set with POCO_LZ_CONFIG.
+ * Every profile is checked, not only the active one.
+ * Exits with code 1 and lists every issue (with its JSON path) when invalid.
+ */
+
+import { loadConfigFile, resolveConfigPath, validateConfigFile } from "@iexec/poco-lz-config";
+
+function parseConfigPath(argv: string[]): string | undefined {
+  const index = argv.indexOf("--config");
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+function main(): number {
+  const configPath = resolveConfigPath(parseConfigPath(process.argv.slice(2)));
+
+  let configFile;
+  try {
+    configFile = loadConfigFile(configPath);
+  } catch (error: any) {
+    console.error(`❌ Could not load ${configPath}: ${error.message}`);
+    return 1;
+  }
+
+  const issues = validateConfigFile(configFile);
+  if (issues.length === 0) {
+    const profiles = Object.entries(configFile.profiles).map(
+      ([name, profile]) => `${name}: ${Object.keys(profile.chains).length} chains`
+    );
+    console.log(`✅ ${configPath} is valid (${profiles.join(", ")})`);
+    return 0;
+  }
+
+  console.error(`❌ ${configPath} has ${issues.length} issue(s):`);
+  for (const issue of issues) {
+    console.error(`  - ${issue.path}: ${issue.message}`);
+  }
+  return 1;
+}
+
+process.exit(main());
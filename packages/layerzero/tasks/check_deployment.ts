@@ -0,0 +1,195 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { task } from "hardhat/config";
+import { createPublicClient, getAddress, http, pad, type Abi, type Address } from "viem";
+import {
+  getDestinationEndpointId,
+  getPocoAddress,
+  getRpcUrl,
+  loadConfig,
+  type ChainConfig,
+  type Config,
+} from "@iexec/poco-lz-config";
+import { resolveDeployer } from "../utils/deployment";
+import { encodeEnforcedOptions } from "../utils/enforcedOptions";
+
+/**
+ * Post-deployment verification
+ *
+ * Usage:
+ *   npx hardhat poco:check-deployment [--owner 0x...]
+ *
+ * Reads the PocoOApp of every chain of the active profile (through each chain's
+ * own RPC) and compares mode(), pocoAddress(), arbitrumEid(), owner(),
+ * peers(eid) and enforcedOptions(eid, msgType) with config.json and the
+ * pathways of layerzero.config.ts. Exits with code 1 on any mismatch.
+ */
+
+interface Check {
+  name: string;
+  ok: boolean;
+  expected: string;
+  actual: string;
+}
+
+interface Peer {
+  chainName: string;
+  chainConfig: ChainConfig;
+  /** Enforced options expected on this chain for messages to the peer */
+  enforcedOptions: Map<number, string>;
+}
+
+task("poco:check-deployment", "Check every deployed PocoOApp against config.json and layerzero.config.ts")
+  .addOptionalParam("owner", "Expected owner (default: the PRIVATE_KEY account, unchecked if unset)")
+  .setAction(async ({ owner }, hre) => {
+    const config = loadConfig();
+    const { abi } = await hre.artifacts.readArtifact("PocoOApp");
+    const expectedOwner = resolveDeployer(owner);
+    const peers = await getPeers(config);
+
+    console.log(`\n🔎 Checking PocoOApp deployments (profile ${config.profile})\n`);
+    const results = new Map<string, Check[]>();
+    for (const [chainName, chainConfig] of Object.entries(config.chains)) {
+      results.set(
+        chainName,
+        await checkChain(config, chainName, chainConfig, abi as Abi, expectedOwner, peers.get(chainName) ?? [])
+      );
+    }
+
+    printMatrix(results);
+
+    const failures = [...results].flatMap(([chainName, checks]) =>
+      checks.filter((check) => !check.ok).map((check) => ({ chainName, ...check }))
+    );
+    if (failures.length === 0) {
+      console.log(`\n✅ All checks passed${expectedOwner ? "" : " (owner not checked: pass --owner or set PRIVATE_KEY)"}`);
+      return;
+    }
+
+    console.log(`\n❌ ${failures.length} check(s) failed:`);
+    for (const failure of failures) {
+      console.log(`  - ${failure.chainName} ${failure.name}: expected ${failure.expected}, got ${failure.actual}`);
+    }
+    process.exitCode = 1;
+  });
+
+/**
+ * Peers of each chain and the enforced options it should apply towards them,
+ * from the pathways of layerzero.config.ts
+ */
+async function getPeers(config: Config): Promise<Map<string, Peer[]>> {
+  const { pathways } = await import("../layerzero.config");
+  const chainsByEid = new Map(
+    Object.entries(config.chains).map(([chainName, chainConfig]) => [
+      chainConfig.lzEndpointId,
+      { chainName, chainConfig },
+    ])
+  );
+
+  const peers = new Map<string, Peer[]>();
+  const addPeer = (fromEid: number, toEid: number, options: Parameters<typeof encodeEnforcedOptions>[0]) => {
+    const from = chainsByEid.get(fromEid);
+    const to = chainsByEid.get(toEid);
+    if (!from || !to) {
+      throw new Error(`layerzero.config.ts pathway ${fromEid} → ${toEid} is not in profile ${config.profile}`);
+    }
+    peers.set(from.chainName, [
+      ...(peers.get(from.chainName) ?? []),
+      { ...to, enforcedOptions: encodeEnforcedOptions(options) },
+    ]);
+  };
+
+  for (const [contractA, contractB, , , [optionsAToB, optionsBToA] = []] of pathways) {
+    addPeer(contractA.eid, contractB.eid, optionsAToB ?? []);
+    addPeer(contractB.eid, contractA.eid, optionsBToA ?? []);
+  }
+  return peers;
+}
+
+async function checkChain(
+  config: Config,
+  chainName: string,
+  chainConfig: ChainConfig,
+  abi: Abi,
+  expectedOwner: Address | undefined,
+  peers: Peer[]
+): Promise<Check[]> {
+  const checks: Check[] = [];
+  const check = (name: string, expected: unknown, actual: unknown) =>
+    checks.push({
+      name,
+      ok: String(expected).toLowerCase() === String(actual).toLowerCase(),
+      expected: String(expected),
+      actual: String(actual),
+    });
+
+  if (!chainConfig.pocoOAppAddress) {
+    check("deployed", "pocoOAppAddress in config.json", "none");
+    return checks;
+  }
+  const address = chainConfig.pocoOAppAddress as Address;
+  const client = createPublicClient({ transport: http(getRpcUrl(chainConfig)) });
+  const read = (functionName: string, args: unknown[] = []) =>
+    client.readContract({ address, abi, functionName, args });
+
+  try {
+    const code = await client.getCode({ address });
+    check("deployed", "contract code", code && code !== "0x" ? "contract code" : "no code");
+    if (!checks[0].ok) {
+      return checks;
+    }
+
+    check("mode()", chainConfig.mode === "Router" ? 0 : 1, await read("mode"));
+    check("pocoAddress()", getPocoAddress(config, chainName), await read("pocoAddress"));
+    check(
+      "arbitrumEid()",
+      chainConfig.mode === "Router" ? getDestinationEndpointId(config, chainName) : 0,
+      await read("arbitrumEid")
+    );
+    if (expectedOwner) {
+      check("owner()", expectedOwner, getAddress((await read("owner")) as string));
+    }
+
+    for (const peer of peers) {
+      const eid = peer.chainConfig.lzEndpointId;
+      const expectedPeer = peer.chainConfig.pocoOAppAddress
+        ? pad(peer.chainConfig.pocoOAppAddress as Address)
+        : `pocoOAppAddress of ${peer.chainName} in config.json`;
+      check(`peers(${peer.chainName})`, expectedPeer, await read("peers", [eid]));
+
+      for (const [msgType, options] of peer.enforcedOptions) {
+        check(`enforcedOptions(${peer.chainName}, ${msgType})`, options, await read("enforcedOptions", [eid, msgType]));
+      }
+    }
+  } catch (error: any) {
+    check("reachable", "successful reads", error.shortMessage ?? error.message);
+  }
+  return checks;
+}
+
+/**
+ * One row per check, one column per chain
+ */
+function printMatrix(results: Map<string, Check[]>): void {
+  const chainNames = [...results.keys()];
+  const checkNames = [...new Set([...results.values()].flatMap((checks) => checks.map((check) => check.name)))];
+
+  const nameWidth = Math.max("check".length, ...checkNames.map((name) => name.length));
+  const widths = chainNames.map((chainName) => Math.max(chainName.length, 4));
+  const row = (first: string, cells: string[]) =>
+    `  ${first.padEnd(nameWidth)}  ${cells.map((cell, i) => cell.padEnd(widths[i])).join("  ")}`;
+
+  console.log(row("check", chainNames));
+  for (const checkName of checkNames) {
+    console.log(
+      row(
+        checkName,
+        chainNames.map((chainName) => {
+          const check = results.get(chainName)!.find((candidate) => candidate.name === checkName);
+          return check ? (check.ok ? "PASS" : "FAIL") : "-";
+        })
+      )
+    );
+  }
+}
@@ -0,0 +1,122 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { task } from "hardhat/config";
+import { getAddress } from "viem";
+import {
+  AddressOverwriteError,
+  getChainConfig,
+  loadConfig,
+  savePocoOAppAddress,
+} from "@iexec/poco-lz-config";
+import { getPocoOAppDeployment, resolveDeployer } from "../utils/deployment";
+
+/**
+ * Deployment tasks
+ *
+ * Usage:
+ *   npx hardhat poco:deploy --network sepolia [--dry-run] [--force]
+ *   npx hardhat poco:save-address --network sepolia [--address 0x...] [--dry-run] [--force]
+ *   npx hardhat poco:predict-address [--deployer 0x...]
+ *
+ * The address is written to pocoOAppAddress of the network in the active
+ * config.json profile; an existing, different address is only replaced with --force.
+ * poco:deploy checks it against the CreateX prediction before sending any transaction.
+ */
+
+task("poco:save-address", "Save the PocoOApp address of --network into config.json")
+  .addOptionalParam("address", "Address to save (default: the hardhat-deploy PocoOApp deployment)")
+  .addFlag("dryRun", "Print the config.json diff without writing it")
+  .addFlag("force", "Overwrite a different pocoOAppAddress")
+  .setAction(async ({ address, dryRun, force }, hre) => {
+    const pocoOAppAddress: string = address ?? (await hre.deployments.get("PocoOApp")).address;
+
+    let result;
+    try {
+      result = savePocoOAppAddress({
+        chainName: hre.network.name,
+        address: pocoOAppAddress,
+        dryRun,
+        force,
+      });
+    } catch (error) {
+      if (error instanceof AddressOverwriteError) {
+        throw new Error(`${error.message}. Pass --force to replace it.`);
+      }
+      throw error;
+    }
+
+    if (!result.changed) {
+      console.log(`✅ ${result.path} already has pocoOAppAddress ${pocoOAppAddress} for ${hre.network.name}`);
+      return;
+    }
+
+    console.log(`\n${result.diff}\n`);
+    if (result.written) {
+      console.log(`✅ Saved pocoOAppAddress ${pocoOAppAddress} for ${hre.network.name} (${result.profile})`);
+    } else {
+      console.log(`🔍 Dry run: ${result.path} not modified`);
+    }
+  });
+
+task("poco:predict-address", "Predict the CreateX address of PocoOApp on every chain of the active profile")
+  .addOptionalParam("deployer", "Deployer and owner address (default: the PRIVATE_KEY account)")
+  .setAction(async ({ deployer }, hre) => {
+    const owner = resolveDeployer(deployer);
+    if (!owner) {
+      throw new Error("Pass --deployer or set PRIVATE_KEY to predict addresses");
+    }
+    await hre.run("compile", { quiet: true });
+    const artifact = await hre.artifacts.readArtifact("PocoOApp");
+    const config = loadConfig();
+
+    console.log(`\n🔮 PocoOApp addresses for ${owner} (profile ${config.profile})\n`);
+    const rows = Object.entries(config.chains).map(([chainName, chainConfig]) => {
+      const { predictedAddress } = getPocoOAppDeployment(config, chainName, owner, artifact);
+      const configured = chainConfig.pocoOAppAddress;
+      const status = !configured
+        ? "not in config.json"
+        : getAddress(configured) === predictedAddress
+          ? "✅ matches config.json"
+          : `❌ config.json has ${configured}`;
+      return [chainName, chainConfig.mode, predictedAddress, status];
+    });
+
+    const widths = [0, 1, 2].map((column) => Math.max(...rows.map((row) => row[column].length)));
+    for (const row of rows) {
+      console.log(`  ${row.map((cell, i) => cell.padEnd(widths[i] ?? 0)).join("  ")}`);
+    }
+  });
+
+task("poco:deploy", "Deploy PocoOApp on --network and save its address into config.json")
+  .addFlag("dryRun", "Print the predicted address and config.json diff without deploying")
+  .addFlag("force", "Deploy even when config.json has a different pocoOAppAddress, and overwrite it")
+  .setAction(async ({ dryRun, force }, hre) => {
+    // Refuse before spending gas: the deployment goes to the CreateX prediction,
+    // which poco:save-address would then refuse to write over a different address
+    const { deployer } = await hre.getNamedAccounts();
+    await hre.run("compile", { quiet: true });
+    const artifact = await hre.artifacts.readArtifact("PocoOApp");
+    const config = loadConfig();
+    const { predictedAddress } = getPocoOAppDeployment(
+      config,
+      hre.network.name,
+      getAddress(deployer),
+      artifact
+    );
+    const configured = getChainConfig(hre.network.name, config).pocoOAppAddress;
+    if (configured && getAddress(configured) !== predictedAddress && !force) {
+      throw new Error(
+        `config.json has pocoOAppAddress ${configured} for ${hre.network.name}, ` +
+          `but PocoOApp would deploy to ${predictedAddress}. Pass --force to deploy and replace it.`
+      );
+    }
+
+    if (dryRun) {
+      console.log(`🔍 Dry run: PocoOApp would deploy to ${predictedAddress}, no transaction sent`);
+      await hre.run("poco:save-address", { address: predictedAddress, dryRun, force });
+      return;
+    }
+    await hre.run("deploy", { tags: "PocoOApp" });
+    await hre.run("poco:save-address", { dryRun, force });
+  });
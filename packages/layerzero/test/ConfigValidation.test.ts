@@ -0,0 +1,193 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { expect } from 'chai';
+import type { Config, ConfigFile } from '@iexec/poco-lz-config';
+import {
+    assertValidConfig,
+    ConfigValidationError,
+    loadConfig,
+    loadConfigFile,
+    validateConfig,
+    validateConfigFile,
+} from '@iexec/poco-lz-config';
+
+/**
+ * Configuration Validation Tests
+ *
+ * Checks that validateConfig reports every invalid field of config.json
+ * with its JSON path.
+ */
+describe('Config Validation', () => {
+    const salt = '0x706f636f6f617070000000000000000000000000000000000000000000000001';
+
+    function validConfig(): Config {
+        return {
+            profile: 'testnet',
+            stage: 'testnet',
+            chains: {
+                sepolia: {
+                    mode: 'Router',
+                    chainId: 11155111,
+                    rpcEnvVar: 'SEPOLIA_RPC_URL',
+                    defaultRpcUrl: 'https://gateway.tenderly.co/public/sepolia',
+                    explorerUrl: 'https://sepolia.etherscan.io',
+                    lzEndpointAddress: '0x6EDCE65403992e310A62460808c4b910D972f10f',
+                    lzEndpointId: 40161,
+                    destinationChain: 'arbitrumSepolia',
+                    pocoOAppCreatexSalt: salt,
+                },
+                arbitrumSepolia: {
+                    mode: 'Receiver',
+                    chainId: 421614,
+                    rpcEnvVar: 'ARBITRUM_SEPOLIA_RPC_URL',
+                    defaultRpcUrl: 'https://arbitrum-sepolia.gateway.tenderly.co',
+                    explorerUrl: 'https://sepolia.arbiscan.io',
+                    lzEndpointAddress: '0x6EDCE65403992e310A62460808c4b910D972f10f',
+                    lzEndpointId: 40231,
+                    pocoAddress: '0xB2157BF2fAb286b2A4170E3491Ac39770111Da3E',
+                    pocoOAppCreatexSalt: salt,
+                },
+            },
+        };
+    }
+
+    function issuePaths(config: Config): string[] {
+        return validateConfig(config).map((issue) => issue.path);
+    }
+
+    it('Should accept the repository config.json', () => {
+        expect(validateConfigFile(loadConfigFile())).to.deep.equal([]);
+        expect(validateConfig(loadConfig())).to.deep.equal([]);
+    });
+
+    it('Should accept a valid config', () => {
+        expect(() => assertValidConfig(validConfig())).to.not.throw();
+    });
+
+    it('Should reject non-checksummed and zero addresses', () => {
+        const config = validConfig();
+        config.chains.sepolia.lzEndpointAddress = '0x6edce65403992e310a62460808c4b910d972f10f';
+        config.chains.arbitrumSepolia.pocoAddress = '0x0000000000000000000000000000000000000000';
+
+        expect(issuePaths(config)).to.have.members([
+            '$.chains.sepolia.lzEndpointAddress',
+            '$.chains.arbitrumSepolia.pocoAddress',
+        ]);
+    });
+
+    it('Should reject a salt that is not 32-byte hex', () => {
+        const config = validConfig();
+        config.chains.sepolia.pocoOAppCreatexSalt = '0x1234';
+
+        expect(issuePaths(config)).to.deep.equal(['$.chains.sepolia.pocoOAppCreatexSalt']);
+    });
+
+    it('Should reject a destinationChain that is not a Receiver', () => {
+        const config = validConfig();
+        config.chains.sepolia.destinationChain = 'unknownChain';
+        expect(issuePaths(config)).to.deep.equal(['$.chains.sepolia.destinationChain']);
+
+        config.chains.sepolia.destinationChain = 'sepolia';
+        expect(issuePaths(config)).to.deep.equal(['$.chains.sepolia.destinationChain']);
+    });
+
+    it('Should reject endpoint IDs that do not match the named network', () => {
+        const config = validConfig();
+        config.chains.sepolia.lzEndpointId = 40245;
+
+        const issues = validateConfig(config);
+        expect(issues).to.have.length(1);
+        expect(issues[0].path).to.equal('$.chains.sepolia.lzEndpointId');
+        expect(issues[0].message).to.contain('SEPOLIA_V2_TESTNET');
+    });
+
+    it('Should reject duplicated endpoint IDs', () => {
+        const config = validConfig();
+        config.chains.customRouter = { ...config.chains.sepolia };
+
+        expect(issuePaths(config)).to.deep.equal(['$.chains.customRouter.lzEndpointId']);
+    });
+
+    it('Should reject a pocoAddress on a Router', () => {
+        const config = validConfig();
+        config.chains.sepolia.pocoAddress = '0xB2157BF2fAb286b2A4170E3491Ac39770111Da3E';
+
+        expect(issuePaths(config)).to.deep.equal(['$.chains.sepolia.pocoAddress']);
+    });
+
+    it('Should list every issue in ConfigValidationError', () => {
+        const config = validConfig();
+        config.chains.sepolia.pocoOAppCreatexSalt = '0x';
+        config.chains.arbitrumSepolia.chainId = 0;
+
+        try {
+            assertValidConfig(config);
+            expect.fail('Expected assertValidConfig to throw');
+        } catch (error: any) {
+            expect(error).to.be.instanceOf(ConfigValidationError);
+            expect(error.issues).to.have.length(2);
+            expect(error.message).to.contain('$.chains.sepolia.pocoOAppCreatexSalt');
+            expect(error.message).to.contain('$.chains.arbitrumSepolia.chainId');
+        }
+    });
+
+    it('Should reject endpoint IDs outside the profile stage', () => {
+        const config = validConfig();
+        config.stage = 'mainnet';
+
+        expect(issuePaths(config)).to.have.members([
+            '$.chains.sepolia.lzEndpointId',
+            '$.chains.arbitrumSepolia.lzEndpointId',
+        ]);
+    });
+
+    it('Should locate profile issues by their path in config.json', () => {
+        const { profile, ...testnet } = validConfig();
+        const configFile: ConfigFile = { defaultProfile: 'staging', profiles: { [profile]: testnet } };
+        configFile.profiles.testnet.chains.sepolia.pocoOAppCreatexSalt = '0x';
+
+        expect(validateConfigFile(configFile).map((issue) => issue.path)).to.deep.equal([
+            '$.defaultProfile',
+            '$.profiles.testnet.chains.sepolia.pocoOAppCreatexSalt',
+        ]);
+    });
+});
+
+describe('Config Profiles', () => {
+    const profileEnv = process.env.POCO_LZ_PROFILE;
+
+    afterEach(() => {
+        if (profileEnv === undefined) {
+            delete process.env.POCO_LZ_PROFILE;
+        } else {
+            process.env.POCO_LZ_PROFILE = profileEnv;
+        }
+    });
+
+    it('Should load the default profile', () => {
+        delete process.env.POCO_LZ_PROFILE;
+        const config = loadConfig();
+
+        expect(config.profile).to.equal(loadConfigFile().defaultProfile);
+        expect(config.chains).to.have.property('arbitrumSepolia');
+    });
+
+    it('Should only resolve chains of the selected profile', () => {
+        const config = loadConfig({ profile: 'mainnet' });
+
+        expect(config.stage).to.equal('mainnet');
+        expect(config.chains).to.have.property('arbitrum');
+        expect(config.chains).to.not.have.property('arbitrumSepolia');
+    });
+
+    it('Should select the profile from POCO_LZ_PROFILE', () => {
+        process.env.POCO_LZ_PROFILE = 'local';
+
+        expect(loadConfig().profile).to.equal('local');
+    });
+
+    it('Should reject an unknown profile', () => {
+        expect(() => loadConfig({ profile: 'devnet' })).to.throw('Profile devnet not found');
+    });
+});
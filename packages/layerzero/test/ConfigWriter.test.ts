@@ -0,0 +1,107 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { expect } from 'chai';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AddressOverwriteError, loadConfig, savePocoOAppAddress } from '@iexec/poco-lz-config';
+
+/**
+ * Config Write-Back Tests
+ *
+ * Checks that savePocoOAppAddress only touches the pocoOAppAddress line of
+ * config.json and never silently replaces an existing address.
+ */
+describe('Config Write-Back', () => {
+    const routerAddress = '0x85455eFd48987C21C054F6583cc30c5839116394';
+    const newAddress = '0x4D9C0d72741D4E67aF5580761e41dAb565Aa449E';
+    const configJson = `{
+    "defaultProfile": "testnet",
+    "profiles": {
+        "testnet": {
+            "stage": "testnet",
+            "chains": {
+                "sepolia": {
+                    "mode": "Router",
+                    "pocoOAppAddress": "${routerAddress}",
+                    "pocoOAppCreatexSalt": "0x01"
+                },
+                "baseSepolia": {
+                    "mode": "Router",
+                    "pocoOAppCreatexSalt": "0x02"
+                },
+                "arbitrumSepolia": { "mode": "Receiver" }
+            }
+        }
+    }
+}
+`;
+
+    let dir: string;
+    let path: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'poco-lz-config-'));
+        path = join(dir, 'config.json');
+        writeFileSync(path, configJson);
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('Should insert a missing address before the CreateX salt', () => {
+        const result = savePocoOAppAddress({ path, chainName: 'baseSepolia', address: newAddress.toLowerCase() });
+
+        expect(result.written).to.equal(true);
+        expect(readFileSync(path, 'utf8')).to.equal(
+            configJson.replace(
+                '"pocoOAppCreatexSalt": "0x02"',
+                `"pocoOAppAddress": "${newAddress}",\n                    "pocoOAppCreatexSalt": "0x02"`
+            )
+        );
+        expect(loadConfig({ path }).chains.baseSepolia.pocoOAppAddress).to.equal(newAddress);
+    });
+
+    it('Should append the address to an inline object', () => {
+        savePocoOAppAddress({ path, chainName: 'arbitrumSepolia', address: newAddress });
+
+        expect(loadConfig({ path }).chains.arbitrumSepolia).to.deep.equal({
+            mode: 'Receiver',
+            pocoOAppAddress: newAddress,
+        });
+    });
+
+    it('Should print a diff without writing on dry run', () => {
+        const result = savePocoOAppAddress({ path, chainName: 'baseSepolia', address: newAddress, dryRun: true });
+
+        expect(result.written).to.equal(false);
+        expect(result.diff).to.contain(`+                    "pocoOAppAddress": "${newAddress}",`);
+        expect(readFileSync(path, 'utf8')).to.equal(configJson);
+    });
+
+    it('Should leave the file untouched when the address is already saved', () => {
+        const result = savePocoOAppAddress({ path, chainName: 'sepolia', address: routerAddress.toLowerCase() });
+
+        expect(result.changed).to.equal(false);
+        expect(readFileSync(path, 'utf8')).to.equal(configJson);
+    });
+
+    it('Should refuse to overwrite a different address unless forced', () => {
+        expect(() => savePocoOAppAddress({ path, chainName: 'sepolia', address: newAddress })).to.throw(
+            AddressOverwriteError
+        );
+        expect(readFileSync(path, 'utf8')).to.equal(configJson);
+
+        const result = savePocoOAppAddress({ path, chainName: 'sepolia', address: newAddress, force: true });
+        expect(result.previousAddress).to.equal(routerAddress);
+        expect(readFileSync(path, 'utf8')).to.equal(configJson.replace(routerAddress, newAddress));
+    });
+
+    it('Should reject chains outside the active profile', () => {
+        expect(() => savePocoOAppAddress({ path, chainName: 'arbitrum', address: newAddress })).to.throw(
+            'Chain arbitrum not found in profile testnet'
+        );
+    });
+});
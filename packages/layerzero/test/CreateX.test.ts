@@ -0,0 +1,69 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { expect } from 'chai';
+import { concat, encodeAbiParameters, getContractAddress, keccak256, pad, type Hex } from 'viem';
+import { CREATEX_ADDRESS, guardCreatexSalt, predictCreatexAddress } from '../utils/createx';
+
+/**
+ * CreateX Address Prediction Tests
+ *
+ * Checks that guardCreatexSalt mirrors the salt guard of CreateX for each
+ * salt layout, so predicted addresses match deployCreate2.
+ */
+describe('CreateX', () => {
+    const sender = '0x1111111111111111111111111111111111111111';
+    const chainId = 421614;
+    const suffix = '0000000000000000000000';
+
+    it('Should hash salts that do not start with the sender or zero', () => {
+        const salt: Hex = '0x706f636f6f617070000000000000000000000000000000000000000000000001';
+
+        expect(guardCreatexSalt(salt, sender, chainId)).to.equal(keccak256(salt));
+        // Independent of sender and chain: same address on every chain for the same init code
+        expect(guardCreatexSalt(salt, sender, 1)).to.equal(guardCreatexSalt(salt, sender, chainId));
+    });
+
+    it('Should add sender and chain ID for permissioned cross-chain protected salts', () => {
+        const salt = `${sender}01${suffix}` as Hex;
+
+        expect(guardCreatexSalt(salt, sender, chainId)).to.equal(
+            keccak256(
+                encodeAbiParameters(
+                    [{ type: 'address' }, { type: 'uint256' }, { type: 'bytes32' }],
+                    [sender, BigInt(chainId), salt],
+                ),
+            ),
+        );
+    });
+
+    it('Should add the sender for permissioned salts', () => {
+        const salt = `${sender}00${suffix}` as Hex;
+
+        expect(guardCreatexSalt(salt, sender, chainId)).to.equal(keccak256(concat([pad(sender), salt])));
+    });
+
+    it('Should add the chain ID for zero-address cross-chain protected salts', () => {
+        const salt = `0x${'00'.repeat(20)}01${suffix}` as Hex;
+
+        expect(guardCreatexSalt(salt, sender, chainId)).to.equal(
+            keccak256(concat([pad(`0x${chainId.toString(16)}`), salt])),
+        );
+    });
+
+    it('Should reject salts without an explicit redeploy protection flag', () => {
+        expect(() => guardCreatexSalt(`${sender}02${suffix}` as Hex, sender, chainId)).to.throw('Invalid CreateX salt');
+        expect(() => guardCreatexSalt(`0x${'00'.repeat(20)}02${suffix}` as Hex, sender, chainId)).to.throw(
+            'Invalid CreateX salt',
+        );
+    });
+
+    it('Should predict the CREATE2 address of CreateX', () => {
+        const salt: Hex = '0x706f636f6f617070000000000000000000000000000000000000000000000001';
+        const initCode: Hex = '0x6080604052';
+
+        expect(predictCreatexAddress({ salt, initCode, sender, chainId })).to.equal(
+            getContractAddress({ opcode: 'CREATE2', from: CREATEX_ADDRESS, salt: keccak256(salt), bytecode: initCode }),
+        );
+    });
+});
@@ -0,0 +1,32 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { expect } from 'chai';
+import { ExecutorOptionType, Options } from '@layerzerolabs/lz-v2-utilities';
+import { encodeEnforcedOptions } from '../utils/enforcedOptions';
+
+/**
+ * Enforced Options Encoding Tests
+ *
+ * Checks that the options expected by poco:check-deployment match what
+ * lz:oapp:wire sets from layerzero.config.ts.
+ */
+describe('Enforced Options', () => {
+    it('Should encode one options blob per message type', () => {
+        const encoded = encodeEnforcedOptions([
+            { msgType: 1, optionType: ExecutorOptionType.LZ_RECEIVE, gas: 200000, value: 0 },
+            { msgType: 2, optionType: ExecutorOptionType.LZ_RECEIVE, gas: 300000, value: 0 },
+            { msgType: 2, optionType: ExecutorOptionType.ORDERED },
+        ]);
+
+        expect([...encoded.keys()]).to.deep.equal([1, 2]);
+        expect(encoded.get(1)).to.equal(Options.newOptions().addExecutorLzReceiveOption(200000, 0).toHex());
+        expect(encoded.get(2)).to.equal(
+            Options.newOptions().addExecutorLzReceiveOption(300000, 0).addExecutorOrderedExecutionOption().toHex(),
+        );
+    });
+
+    it('Should return no options when none are enforced', () => {
+        expect(encodeEnforcedOptions([]).size).to.equal(0);
+    });
+});
@@ -6,8 +6,8 @@ import { expect } from 'chai';
 import hre from 'hardhat';
 import { 
     zeroAddress, 
+    zeroHash,
     parseEther, 
-    encodePacked, 
     encodeFunctionData, 
     decodeFunctionData,
     pad,
@@ -15,46 +15,30 @@ import {
     parseAbiParameters,
     getAddress,
     getContract,
+    toFunctionSelector,
+    keccak256,
+    concat,
+    parseAbi,
     type Address,
     type PublicClient,
     type WalletClient,
     type GetContractReturnType
 } from 'viem';
+import { LzOptions } from '@iexec/lz-options';
 
-/**
- * Helper function to build LayerZero options
- * Creates options with executor LZ receive option (Type 3)
- * Format: TYPE_3 (uint16) + WORKER_ID (uint8) + option_size (uint16) + option_type (uint8) + option (bytes)
- * where option = encodeLzReceiveOption(gas, value) = abi.encodePacked(gas) or abi.encodePacked(gas, value)
- */
-function buildLzOptions(gasLimit: bigint, nativeDrop: bigint = 0n): `0x${string}` {
-    // Type 3 for OApp options
-    const TYPE_3 = 3;
-    // Worker ID for executor
-    const WORKER_ID = 1;
-    // Option type for LZ receive
-    const OPTION_TYPE_LZRECEIVE = 1;
-    
-    // Encode the LZ receive option using encodePacked: gas (uint128) + value (uint128 if value > 0)
-    let optionBytes: `0x${string}`;
-    if (nativeDrop === 0n) {
-        // If value is 0, only encode gas (16 bytes = 128 bits)
-        optionBytes = encodePacked(['uint128'], [gasLimit]);
-    } else {
-        // If value > 0, encode both gas and value (32 bytes)
-        optionBytes = encodePacked(['uint128', 'uint128'], [gasLimit, nativeDrop]);
-    }
-    
-    // Calculate option size: option_type (1 byte) + option length in bytes
-    // optionBytes is hex string, so length / 2 = bytes
-    const optionSize = 1 + (optionBytes.length - 2) / 2;
-    
-    // Build the complete options: TYPE_3 + WORKER_ID + option_size + option_type + option
-    return encodePacked(
-        ['uint16', 'uint8', 'uint16', 'uint8', 'bytes'],
-        [TYPE_3, WORKER_ID, optionSize, OPTION_TYPE_LZRECEIVE, optionBytes]
-    );
-}
+// Events read by the tests: contracts deployed with hre.viem have an untyped ABI,
+// these give getContractEvents typed args
+const pocoOAppEventsAbi = parseAbi([
+    'event CrossChainCallInitiated(bytes32 indexed guid, uint64 sourceChainId, address indexed caller, bytes4 indexed targetFunction, bytes payload, uint64 nonce)',
+    'event CrossChainCallReceived(bytes32 indexed guid, uint64 sourceChainId, address indexed caller, bytes4 indexed targetFunction, bytes returnData)',
+    'event CrossChainDealCreated(bytes32 indexed dealId, uint64 indexed sourceChainId, address indexed caller, bytes32 guid)',
+    'event CrossChainBatchCallSucceeded(bytes32 indexed guid, uint256 index, bytes4 indexed targetFunction, bytes returnData)',
+    'event CrossChainBatchCallFailed(bytes32 indexed guid, uint256 index, bytes4 indexed targetFunction, string reason)',
+]);
+const sponsorVaultEventsAbi = parseAbi([
+    'event SponsorAccepted(uint64 indexed sourceChainId, address indexed caller, address indexed sponsor)',
+    'event DealSponsored(bytes32 indexed dealId, address indexed sponsor, address indexed caller, uint64 sourceChainId, uint256 cost)',
+]);
 
 /**
  * LayerZero OApp Integration Tests
@@ -365,14 +349,25 @@ describe('LayerZero OApp Integration', () => {
                 [mockAppOrder, mockDatasetOrder, mockWorkerpoolOrder, mockRequestOrder]
             ) as `0x${string}`;
 
+            // MockPoco answers the real matchOrders selector through its fallback
+            const dealId = pad('0xdea1', { size: 32 });
+            await mockPoco.write.setReturnData([
+                functionSelector,
+                encodeAbiParameters([{ type: 'bytes32' }], [dealId]),
+            ], {
+                account: ownerWallet.account,
+            });
+
             // Use a reasonable fee value for testing
             // Note: Mock endpoints calculate fees based on message size and options
             // Using a higher fee to ensure it covers the mock endpoint's fee calculation
-            const mockFee = parseEther('0.01');
+            // (the excess is refunded)
+            const mockFee = parseEther('0.1');
             
             // Build valid LayerZero options (Type 3 with ExecutorLzReceiveOption)
             // This is required to avoid LZ_ULN_InvalidWorkerOptions error
-            const options = buildLzOptions(200000n, 0n); // gasLimit: 200000, nativeDrop: 0
+            // MockPoco stores the whole orders payload, which takes most of this gas
+            const options = LzOptions.newOptions().addExecutorLzReceiveOption(3000000n).toHex();
             
             // Route the call - the mock endpoint should handle it
             const hash = await sourceChainRouter.write.routeCall([
@@ -389,13 +384,14 @@ describe('LayerZero OApp Integration', () => {
             const receipt = await publicClient.waitForTransactionReceipt({ hash });
             
             // Verify the event was emitted
-            // Event signature: CrossChainCallInitiated(uint64 sourceChainId, address indexed caller, bytes4 indexed targetFunction, bytes payload, uint64 nonce)
+            // Event signature: CrossChainCallInitiated(bytes32 indexed guid, uint64 sourceChainId, address indexed caller, bytes4 indexed targetFunction, bytes payload, uint64 nonce)
             const logs = await publicClient.getLogs({
                 address: sourceChainRouter.address,
                 event: {
                     type: 'event',
                     name: 'CrossChainCallInitiated',
                     inputs: [
+                        { name: 'guid', type: 'bytes32', indexed: true },
                         { name: 'sourceChainId', type: 'uint64', indexed: false },
                         { name: 'caller', type: 'address', indexed: true },
                         { name: 'targetFunction', type: 'bytes4', indexed: true },
@@ -416,7 +412,31 @@ describe('LayerZero OApp Integration', () => {
                 expect(log.args.sourceChainId).to.equal(BigInt(chainId)); // chainId from network
                 expect(log.args.caller?.toLowerCase()).to.equal(userAddress.toLowerCase());
                 expect(log.args.targetFunction).to.equal(functionSelector);
+                expect(log.args.guid).to.not.equal(zeroHash);
             }
+
+            // The receiver events carry the GUID of the source message: the tracker
+            // matches both sides with it
+            const sourceGuid = logs[0].args.guid;
+            const [received] = await publicClient.getContractEvents({
+                address: arbitrumReceiver.address,
+                abi: pocoOAppEventsAbi,
+                eventName: 'CrossChainCallReceived',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            expect(received.args.guid).to.equal(sourceGuid);
+            expect(received.args.targetFunction).to.equal(functionSelector);
+
+            const [deal] = await publicClient.getContractEvents({
+                address: arbitrumReceiver.address,
+                abi: pocoOAppEventsAbi,
+                eventName: 'CrossChainDealCreated',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            expect(deal.args.guid).to.equal(sourceGuid);
+            expect(deal.args.dealId).to.equal(dealId);
         });
 
         it('Should route createApp call to Arbitrum', async () => {
@@ -437,7 +457,7 @@ describe('LayerZero OApp Integration', () => {
             const mockFee = parseEther('0.01');
             
             // Build valid LayerZero options (Type 3 with ExecutorLzReceiveOption)
-            const options = buildLzOptions(200000n, 0n);
+            const options = LzOptions.newOptions().addExecutorLzReceiveOption(200000n).toHex();
             
             const hash = await sourceChainRouter.write.routeCall([
                 functionSelector,
@@ -453,13 +473,14 @@ describe('LayerZero OApp Integration', () => {
             const receipt = await publicClient.waitForTransactionReceipt({ hash });
             
             // Verify the event was emitted
-            // Event signature: CrossChainCallInitiated(uint64 sourceChainId, address indexed caller, bytes4 indexed targetFunction, bytes payload, uint64 nonce)
+            // Event signature: CrossChainCallInitiated(bytes32 indexed guid, uint64 sourceChainId, address indexed caller, bytes4 indexed targetFunction, bytes payload, uint64 nonce)
             const logs = await publicClient.getLogs({
                 address: sourceChainRouter.address,
                 event: {
                     type: 'event',
                     name: 'CrossChainCallInitiated',
                     inputs: [
+                        { name: 'guid', type: 'bytes32', indexed: true },
                         { name: 'sourceChainId', type: 'uint64', indexed: false },
                         { name: 'caller', type: 'address', indexed: true },
                         { name: 'targetFunction', type: 'bytes4', indexed: true },
@@ -472,6 +493,24 @@ describe('LayerZero OApp Integration', () => {
             });
             
             expect(logs.length).to.be.greaterThan(0);
+
+            // The returned address is 32 bytes of return data, but not a deal
+            const received = await publicClient.getContractEvents({
+                address: arbitrumReceiver.address,
+                abi: arbitrumReceiver.abi,
+                eventName: 'CrossChainCallReceived',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            expect(received.length).to.equal(1);
+            const deals = await publicClient.getContractEvents({
+                address: arbitrumReceiver.address,
+                abi: arbitrumReceiver.abi,
+                eventName: 'CrossChainDealCreated',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            expect(deals.length).to.equal(0);
         });
 
         it('Should route createDataset call to Arbitrum', async () => {
@@ -492,7 +531,7 @@ describe('LayerZero OApp Integration', () => {
             const mockFee = parseEther('0.01');
             
             // Build valid LayerZero options (Type 3 with ExecutorLzReceiveOption)
-            const options = buildLzOptions(200000n, 0n);
+            const options = LzOptions.newOptions().addExecutorLzReceiveOption(200000n).toHex();
             
             const hash = await sourceChainRouter.write.routeCall([
                 functionSelector,
@@ -508,13 +547,14 @@ describe('LayerZero OApp Integration', () => {
             const receipt = await publicClient.waitForTransactionReceipt({ hash });
             
             // Verify the event was emitted
-            // Event signature: CrossChainCallInitiated(uint64 sourceChainId, address indexed caller, bytes4 indexed targetFunction, bytes payload, uint64 nonce)
+            // Event signature: CrossChainCallInitiated(bytes32 indexed guid, uint64 sourceChainId, address indexed caller, bytes4 indexed targetFunction, bytes payload, uint64 nonce)
             const logs = await publicClient.getLogs({
                 address: sourceChainRouter.address,
                 event: {
                     type: 'event',
                     name: 'CrossChainCallInitiated',
                     inputs: [
+                        { name: 'guid', type: 'bytes32', indexed: true },
                         { name: 'sourceChainId', type: 'uint64', indexed: false },
                         { name: 'caller', type: 'address', indexed: true },
                         { name: 'targetFunction', type: 'bytes4', indexed: true },
@@ -588,6 +628,466 @@ describe('LayerZero OApp Integration', () => {
         });
     });
 
+    describe('Batched calls', () => {
+        const batchSelector = toFunctionSelector('batch(uint8,(bytes4,bytes)[])');
+        const createAppSelector = toFunctionSelector('createApp(bytes)');
+        const createDatasetSelector = toFunctionSelector('createDataset(bytes)');
+        const failingSelector = toFunctionSelector('failingCall()');
+        const AllOrNothing = 0;
+        const BestEffort = 1;
+
+        function encodeBatch(mode: number, calls: { targetFunction: `0x${string}`; payload: `0x${string}` }[]) {
+            return encodeAbiParameters(
+                parseAbiParameters('uint8 mode, (bytes4 targetFunction, bytes payload)[] calls'),
+                [mode, calls]
+            );
+        }
+
+        async function routeBatch(payload: `0x${string}`) {
+            const options = LzOptions.newOptions().addExecutorLzReceiveOption(500000n).toHex();
+            const hash = await sourceChainRouter.write.routeCall([
+                batchSelector,
+                payload,
+                userAddress,
+                options,
+            ], {
+                account: userWallet.account,
+                value: parseEther('0.01'),
+            });
+            return publicClient.waitForTransactionReceipt({ hash });
+        }
+
+        it('Should execute every call of a batch in one message', async () => {
+            if (!mockEndpointSource || !mockEndpointArbitrum) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+
+            const callCountBefore = await mockPoco.read.getCallCount();
+            const receipt = await routeBatch(encodeBatch(AllOrNothing, [
+                { targetFunction: createAppSelector, payload: encodeAbiParameters([{ type: 'bytes' }], ['0x1234']) },
+                { targetFunction: createDatasetSelector, payload: encodeAbiParameters([{ type: 'bytes' }], ['0x5678']) },
+            ]));
+
+            expect(await mockPoco.read.getCallCount()).to.equal(callCountBefore + 2n);
+            const succeeded = await publicClient.getContractEvents({
+                address: arbitrumReceiver.address,
+                abi: pocoOAppEventsAbi,
+                eventName: 'CrossChainBatchCallSucceeded',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            expect(succeeded.map((log) => log.args.index)).to.deep.equal([0n, 1n]);
+            expect(succeeded.map((log) => log.args.targetFunction)).to.deep.equal([
+                createAppSelector,
+                createDatasetSelector,
+            ]);
+
+            const [received] = await publicClient.getContractEvents({
+                address: arbitrumReceiver.address,
+                abi: pocoOAppEventsAbi,
+                eventName: 'CrossChainCallReceived',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            expect(received.args.targetFunction).to.equal(batchSelector);
+
+            // createApp and createDataset return an address, which is not a dealId
+            const deals = await publicClient.getContractEvents({
+                address: arbitrumReceiver.address,
+                abi: pocoOAppEventsAbi,
+                eventName: 'CrossChainDealCreated',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            expect(deals.length).to.equal(0);
+        });
+
+        it('Should report failed calls and go on in best-effort mode', async () => {
+            if (!mockEndpointSource || !mockEndpointArbitrum) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+
+            const callCountBefore = await mockPoco.read.getCallCount();
+            const receipt = await routeBatch(encodeBatch(BestEffort, [
+                { targetFunction: createAppSelector, payload: encodeAbiParameters([{ type: 'bytes' }], ['0x1234']) },
+                { targetFunction: failingSelector, payload: '0x' },
+                { targetFunction: createDatasetSelector, payload: encodeAbiParameters([{ type: 'bytes' }], ['0x5678']) },
+            ]));
+
+            expect(await mockPoco.read.getCallCount()).to.equal(callCountBefore + 2n);
+            const failed = await publicClient.getContractEvents({
+                address: arbitrumReceiver.address,
+                abi: pocoOAppEventsAbi,
+                eventName: 'CrossChainBatchCallFailed',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            expect(failed.length).to.equal(1);
+            expect(failed[0].args.index).to.equal(1n);
+            expect(failed[0].args.reason).to.equal('MockPoco: call failed');
+        });
+
+        it('Should execute no call of an all-or-nothing batch when one fails', async () => {
+            if (!mockEndpointSource || !mockEndpointArbitrum) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+
+            const callCountBefore = await mockPoco.read.getCallCount();
+            const payload = encodeBatch(AllOrNothing, [
+                { targetFunction: createAppSelector, payload: encodeAbiParameters([{ type: 'bytes' }], ['0x1234']) },
+                { targetFunction: failingSelector, payload: '0x' },
+            ]);
+            // The mock endpoint swallows a failed delivery: the send succeeds and the
+            // receiver events roll back with the delivery
+            const receipt = await routeBatch(payload);
+            expect(receipt.status).to.equal('success');
+
+            // None of the calls took effect
+            expect(await mockPoco.read.getCallCount()).to.equal(callCountBefore);
+            for (const eventName of ['CrossChainCallReceived', 'CrossChainBatchCallSucceeded'] as const) {
+                const events = await publicClient.getContractEvents({
+                    address: arbitrumReceiver.address,
+                    abi: pocoOAppEventsAbi,
+                    eventName,
+                    fromBlock: receipt.blockNumber,
+                    toBlock: receipt.blockNumber,
+                });
+                expect(events.length).to.equal(0);
+            }
+
+            // The message is verified on the destination endpoint, so it stays retryable
+            const [initiated] = await publicClient.getContractEvents({
+                address: sourceChainRouter.address,
+                abi: pocoOAppEventsAbi,
+                eventName: 'CrossChainCallInitiated',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+                strict: true,
+            });
+            const { guid, nonce } = initiated.args;
+            const message = encodeAbiParameters(
+                parseAbiParameters('uint64, address, bytes4, bytes'),
+                [BigInt(await publicClient.getChainId()), userAddress, batchSelector, payload]
+            );
+            const sender = pad(getAddress(sourceChainRouter.address), { size: 32 });
+            const payloadHash = await mockEndpointArbitrum.read.inboundPayloadHash([
+                getAddress(arbitrumReceiver.address),
+                eidSource,
+                sender,
+                nonce,
+            ]);
+            expect(payloadHash).to.equal(keccak256(concat([guid, message])));
+
+            // Executing it again from the endpoint reverts with the failed call
+            try {
+                await publicClient.simulateContract({
+                    address: arbitrumReceiver.address,
+                    abi: pocoOAppEventsAbi,
+                    functionName: 'lzReceive',
+                    args: [{ srcEid: eidSource, sender, nonce }, guid, message, zeroAddress, '0x'],
+                    account: getAddress(mockEndpointArbitrum.address),
+                });
+                expect.fail('Expected transaction to revert');
+            } catch (error: any) {
+                const errorMessage = error.message || error.shortMessage || '';
+                expect(errorMessage).to.include('Batch call 1: MockPoco: call failed');
+            }
+        });
+
+        it('Should revert when routing an empty batch', async () => {
+            if (!mockEndpointSource || !mockEndpointArbitrum) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+
+            try {
+                await routeBatch(encodeBatch(BestEffort, []));
+                expect.fail('Expected transaction to revert');
+            } catch (error: any) {
+                const errorMessage = error.message || error.shortMessage || '';
+                expect(errorMessage).to.include('InvalidBatch');
+            }
+        });
+    });
+
+    describe('Sponsored deals', () => {
+        // PoCo sponsorMatchOrders(AppOrder,DatasetOrder,WorkerpoolOrder,RequestOrder)
+        const sponsorSelector = '0x2f391533';
+        const acceptSponsorSelector = toFunctionSelector('acceptSponsor(address)');
+        const dealCost = 300n;
+        let sponsorPoco: GetContractReturnType;
+        let sponsorVault: GetContractReturnType;
+        let receiver: GetContractReturnType;
+        let router: GetContractReturnType;
+        // Chain ID the router puts in its messages
+        let sourceChainId: bigint;
+
+        // Receiver on a PoCo with nRLC accounts, paying sponsored deals from the vault
+        async function deploySponsoredRoute() {
+            sponsorPoco = await hre.viem.deployContract('MockSponsorPoco', []);
+            receiver = await hre.viem.deployContract('PocoOApp', [
+                getAddress(mockEndpointArbitrum!.address),
+                ownerAddress,
+                1, // Mode.Receiver = 1 for Arbitrum
+                sponsorPoco.address,
+                0,
+            ], {
+                walletClient: ownerWallet,
+            });
+            router = await hre.viem.deployContract('PocoOApp', [
+                getAddress(mockEndpointSource.address),
+                ownerAddress,
+                0, // Mode.Router = 0 for router
+                sponsorPoco.address,
+                eidArbitrum,
+            ], {
+                walletClient: ownerWallet,
+            });
+            sponsorVault = await hre.viem.deployContract('PocoSponsorVault', [
+                sponsorPoco.address,
+                receiver.address,
+                ownerAddress,
+            ]);
+            await mockEndpointSource.write.setDestLzEndpoint([
+                receiver.address,
+                getAddress(mockEndpointArbitrum!.address),
+            ], {
+                account: ownerWallet.account,
+            });
+            await router.write.setPeer([eidArbitrum, pad(receiver.address, { size: 32 })], {
+                account: ownerWallet.account,
+            });
+            await receiver.write.setPeer([eidSource, pad(router.address, { size: 32 })], {
+                account: ownerWallet.account,
+            });
+            await receiver.write.setSponsorVault([sponsorVault.address], { account: ownerWallet.account });
+            await sponsorPoco.write.setDealCost([dealCost]);
+            sourceChainId = BigInt(await publicClient.getChainId());
+
+            // The owner deposits 1000 nRLC and offers to sponsor the user, who has not accepted yet
+            await sponsorPoco.write.mint([ownerAddress, 1000n]);
+            await sponsorPoco.write.approve([sponsorVault.address, 1000n], { account: ownerWallet.account });
+            await sponsorVault.write.deposit([1000n], { account: ownerWallet.account });
+            await sponsorVault.write.offerSponsorship([sourceChainId, userAddress, true], {
+                account: ownerWallet.account,
+            });
+        }
+
+        async function routeFrom(account: WalletClient['account'], selector: `0x${string}`, payload: `0x${string}`) {
+            const options = LzOptions.newOptions().addExecutorLzReceiveOption(500000n).toHex();
+            const hash = await router.write.routeCall([selector, payload, userAddress, options], {
+                account,
+                value: parseEther('0.01'),
+            });
+            return publicClient.waitForTransactionReceipt({ hash });
+        }
+
+        async function acceptSponsor(account: WalletClient['account'], sponsor: Address) {
+            return routeFrom(account, acceptSponsorSelector, encodeAbiParameters([{ type: 'address' }], [sponsor]));
+        }
+
+        it('Should pay a routed sponsorMatchOrders from the accepted sponsor balance', async () => {
+            if (!mockEndpointSource || !mockEndpointArbitrum) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+            await deploySponsoredRoute();
+
+            const acceptReceipt = await acceptSponsor(userWallet.account, ownerAddress);
+            expect(await sponsorVault.read.sponsorOf([sourceChainId, userAddress])).to.equal(ownerAddress);
+            const [accepted] = await publicClient.getContractEvents({
+                address: sponsorVault.address,
+                abi: sponsorVaultEventsAbi,
+                eventName: 'SponsorAccepted',
+                fromBlock: acceptReceipt.blockNumber,
+                toBlock: acceptReceipt.blockNumber,
+            });
+            expect(accepted.args.sourceChainId).to.equal(sourceChainId);
+            expect(accepted.args.caller).to.equal(userAddress);
+            expect(accepted.args.sponsor).to.equal(ownerAddress);
+
+            const receipt = await routeFrom(userWallet.account, sponsorSelector, '0x1234');
+
+            expect(await sponsorVault.read.balanceOf([ownerAddress])).to.equal(1000n - dealCost);
+            expect(await sponsorVault.read.totalBalance()).to.equal(1000n - dealCost);
+            expect(await sponsorPoco.read.balanceOf([sponsorVault.address])).to.equal(1000n - dealCost);
+            expect(await sponsorPoco.read.balanceOf([receiver.address])).to.equal(0n);
+
+            const [sponsored] = await publicClient.getContractEvents({
+                address: sponsorVault.address,
+                abi: sponsorVaultEventsAbi,
+                eventName: 'DealSponsored',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            const [deal] = await publicClient.getContractEvents({
+                address: receiver.address,
+                abi: pocoOAppEventsAbi,
+                eventName: 'CrossChainDealCreated',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            expect(sponsored.args.sponsor).to.equal(ownerAddress);
+            expect(sponsored.args.caller).to.equal(userAddress);
+            expect(sponsored.args.sourceChainId).to.equal(sourceChainId);
+            expect(sponsored.args.cost).to.equal(dealCost);
+            expect(deal.args.dealId).to.equal(sponsored.args.dealId);
+        });
+
+        it('Should not pay for a caller that has not accepted the offer', async () => {
+            if (!mockEndpointSource || !mockEndpointArbitrum) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+            await deploySponsoredRoute();
+
+            // An offer alone does not make the owner pay for the user
+            const receipt = await routeFrom(userWallet.account, sponsorSelector, '0x1234');
+
+            expect(receipt.status).to.equal('success');
+            expect(await sponsorVault.read.sponsorOf([sourceChainId, userAddress])).to.equal(zeroAddress);
+            expect(await sponsorPoco.read.dealCount()).to.equal(0n);
+            expect(await sponsorVault.read.balanceOf([ownerAddress])).to.equal(1000n);
+            const received = await publicClient.getContractEvents({
+                address: receiver.address,
+                abi: pocoOAppEventsAbi,
+                eventName: 'CrossChainCallReceived',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            expect(received.length).to.equal(0);
+        });
+
+        it('Should not let a caller accept a sponsor that made no offer', async () => {
+            if (!mockEndpointSource || !mockEndpointArbitrum) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+            await deploySponsoredRoute();
+
+            // The user offered nothing to the owner: the delivery reverts and stays retryable
+            const receipt = await acceptSponsor(ownerWallet.account, userAddress);
+
+            expect(receipt.status).to.equal('success');
+            expect(await sponsorVault.read.sponsorOf([sourceChainId, ownerAddress])).to.equal(zeroAddress);
+            const accepted = await publicClient.getContractEvents({
+                address: sponsorVault.address,
+                abi: sponsorVaultEventsAbi,
+                eventName: 'SponsorAccepted',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            expect(accepted.length).to.equal(0);
+        });
+
+        it('Should key sponsorships by source chain', async () => {
+            if (!mockEndpointSource || !mockEndpointArbitrum) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+            await deploySponsoredRoute();
+            await acceptSponsor(userWallet.account, ownerAddress);
+
+            // The same address routing from another chain is another caller
+            const otherChainId = sourceChainId + 1n;
+            expect(await sponsorVault.read.sponsorOf([sourceChainId, userAddress])).to.equal(ownerAddress);
+            expect(await sponsorVault.read.sponsorOf([otherChainId, userAddress])).to.equal(zeroAddress);
+            expect(await sponsorVault.read.sponsorshipOffered([otherChainId, userAddress, ownerAddress])).to.equal(false);
+        });
+
+        it('Should end the sponsorship when the sponsor withdraws its offer or the caller drops it', async () => {
+            if (!mockEndpointSource || !mockEndpointArbitrum) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+            await deploySponsoredRoute();
+            await acceptSponsor(userWallet.account, ownerAddress);
+
+            await sponsorVault.write.offerSponsorship([sourceChainId, userAddress, false], {
+                account: ownerWallet.account,
+            });
+            expect(await sponsorVault.read.sponsorOf([sourceChainId, userAddress])).to.equal(zeroAddress);
+            await routeFrom(userWallet.account, sponsorSelector, '0x1234');
+            expect(await sponsorPoco.read.dealCount()).to.equal(0n);
+
+            // The caller drops an accepted sponsor by accepting the zero address
+            await sponsorVault.write.offerSponsorship([sourceChainId, userAddress, true], {
+                account: ownerWallet.account,
+            });
+            await acceptSponsor(userWallet.account, ownerAddress);
+            expect(await sponsorVault.read.sponsorOf([sourceChainId, userAddress])).to.equal(ownerAddress);
+            await acceptSponsor(userWallet.account, zeroAddress);
+            expect(await sponsorVault.read.sponsorOf([sourceChainId, userAddress])).to.equal(zeroAddress);
+        });
+
+        it('Should not let a routed call move the sponsor funds', async () => {
+            if (!mockEndpointSource || !mockEndpointArbitrum) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+            await deploySponsoredRoute();
+
+            // transfer(address,uint256) runs as the receiver, whose PoCo account is empty
+            const transferData = encodeFunctionData({
+                abi: sponsorPoco.abi,
+                functionName: 'transfer',
+                args: [userAddress, 1000n],
+            });
+            await routeFrom(userWallet.account, transferData.slice(0, 10) as `0x${string}`, `0x${transferData.slice(10)}`);
+
+            expect(await sponsorPoco.read.balanceOf([userAddress])).to.equal(0n);
+            expect(await sponsorPoco.read.balanceOf([sponsorVault.address])).to.equal(1000n);
+            expect(await sponsorVault.read.balanceOf([ownerAddress])).to.equal(1000n);
+        });
+
+        it('Should let a sponsor withdraw its unspent balance only', async () => {
+            if (!mockEndpointSource || !mockEndpointArbitrum) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+            await deploySponsoredRoute();
+
+            await sponsorVault.write.withdraw([400n], { account: ownerWallet.account });
+            expect(await sponsorVault.read.balanceOf([ownerAddress])).to.equal(600n);
+            expect(await sponsorPoco.read.balanceOf([ownerAddress])).to.equal(400n);
+
+            try {
+                await sponsorVault.write.withdraw([1n], { account: userWallet.account });
+                expect.fail('Expected transaction to revert');
+            } catch (error: any) {
+                expect(error.message).to.include('InsufficientSponsorBalance');
+            }
+        });
+
+        it('Should reject acceptSponsor and sponsorMatchOrders not coming from the receiver', async () => {
+            if (!mockEndpointSource || !mockEndpointArbitrum) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+            await deploySponsoredRoute();
+
+            try {
+                await sponsorVault.write.acceptSponsor([sourceChainId, userAddress, ownerAddress], {
+                    account: userWallet.account,
+                });
+                expect.fail('Expected transaction to revert');
+            } catch (error: any) {
+                expect(error.message).to.include('OnlyPocoOApp');
+            }
+            try {
+                await sponsorVault.write.sponsorMatchOrders([sourceChainId, userAddress, '0x1234'], {
+                    account: userWallet.account,
+                });
+                expect.fail('Expected transaction to revert');
+            } catch (error: any) {
+                expect(error.message).to.include('OnlyPocoOApp');
+            }
+        });
+    });
+
     describe('Error Handling', () => {
         it('Should revert if routing with invalid refund address', async () => {
             if (!mockEndpointSource || (!mockEndpointArbitrum && !isFork)) {
@@ -598,7 +1098,7 @@ describe('LayerZero OApp Integration', () => {
             const functionSelector = '0x12345678' as `0x${string}`;
             const payload = '0x' as `0x${string}`;
             const mockFee = parseEther('0.01');
-            const options = buildLzOptions(200000n, 0n);
+            const options = LzOptions.newOptions().addExecutorLzReceiveOption(200000n).toHex();
 
             // Verify the revert reason
             try {
@@ -622,6 +1122,158 @@ describe('LayerZero OApp Integration', () => {
             }
         });
 
+        it('Should revert paying in LZ token when the endpoint has no lzToken', async () => {
+            if (!mockEndpointSource || (!mockEndpointArbitrum && !isFork)) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+
+            const functionSelector = '0x12345678' as `0x${string}`;
+            const payload = '0x' as `0x${string}`;
+            const options = LzOptions.newOptions().addExecutorLzReceiveOption(200000n).toHex();
+
+            try {
+                await sourceChainRouter.write.routeCallPayInLzToken([
+                    functionSelector,
+                    payload,
+                    userAddress,
+                    options,
+                    parseEther('1'),
+                ], {
+                    account: userWallet.account,
+                    value: parseEther('0.01'),
+                });
+                expect.fail('Expected transaction to revert');
+            } catch (error: any) {
+                const errorMessage = error.message || error.shortMessage || '';
+                expect(errorMessage).to.include('LzTokenUnavailable');
+            }
+        });
+
+        it('Should pull the LZ token fee from the caller and deliver the message', async () => {
+            if (!mockEndpointSource || !mockEndpointArbitrum) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+
+            // EndpointV2Mock has no lzToken: route through a source endpoint that has one
+            const eidLzToken = 3;
+            const nativeFee = parseEther('0.01');
+            const lzTokenFee = parseEther('2');
+            const lzToken = await hre.viem.deployContract('MockLzToken', []);
+            const lzTokenEndpoint = await hre.viem.deployContract('LzTokenEndpointMock', [
+                eidLzToken,
+                lzToken.address,
+                getAddress(mockEndpointArbitrum.address),
+                nativeFee,
+                lzTokenFee,
+            ]);
+            const router = await hre.viem.deployContract('PocoOApp', [
+                lzTokenEndpoint.address,
+                ownerAddress,
+                0, // Mode.Router = 0 for router
+                getAddress(mockPoco.address),
+                eidArbitrum,
+            ], {
+                walletClient: ownerWallet,
+            });
+            await router.write.setPeer([
+                eidArbitrum,
+                pad(getAddress(arbitrumReceiver.address), { size: 32 }),
+            ], {
+                account: ownerWallet.account,
+            });
+            await arbitrumReceiver.write.setPeer([
+                eidLzToken,
+                pad(getAddress(router.address), { size: 32 }),
+            ], {
+                account: ownerWallet.account,
+            });
+
+            await lzToken.write.mint([userAddress, parseEther('5')], { account: ownerWallet.account });
+            await lzToken.write.approve([router.address, lzTokenFee], { account: userWallet.account });
+
+            const functionSelector = toFunctionSelector('createApp(bytes)');
+            const payload = encodeAbiParameters([{ type: 'bytes' }], ['0x1234']);
+            const options = LzOptions.newOptions().addExecutorLzReceiveOption(200000n).toHex();
+            const fee = await router.read.quoteCall([functionSelector, payload, options, true]);
+            expect(fee.nativeFee).to.equal(nativeFee);
+            expect(fee.lzTokenFee).to.equal(lzTokenFee);
+
+            const callCountBefore = await mockPoco.read.getCallCount();
+            const hash = await router.write.routeCallPayInLzToken([
+                functionSelector,
+                payload,
+                userAddress,
+                options,
+                fee.lzTokenFee,
+            ], {
+                account: userWallet.account,
+                value: fee.nativeFee,
+            });
+            const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+            // The fee was pulled from the caller through its allowance
+            expect(await lzToken.read.balanceOf([userAddress])).to.equal(parseEther('3'));
+            expect(await lzToken.read.allowance([userAddress, router.address])).to.equal(0n);
+            expect(await lzToken.read.balanceOf([lzTokenEndpoint.address])).to.equal(lzTokenFee);
+
+            // The message was delivered and executed
+            expect(await mockPoco.read.getCallCount()).to.equal(callCountBefore + 1n);
+            const [initiated] = await publicClient.getContractEvents({
+                address: router.address,
+                abi: pocoOAppEventsAbi,
+                eventName: 'CrossChainCallInitiated',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            const [received] = await publicClient.getContractEvents({
+                address: arbitrumReceiver.address,
+                abi: pocoOAppEventsAbi,
+                eventName: 'CrossChainCallReceived',
+                fromBlock: receipt.blockNumber,
+                toBlock: receipt.blockNumber,
+            });
+            expect(received.args.guid).to.equal(initiated.args.guid);
+            expect(received.args.targetFunction).to.equal(functionSelector);
+        });
+
+        it('Should add the enforced options to the caller options', async () => {
+            if (!mockEndpointSource || (!mockEndpointArbitrum && !isFork)) {
+                console.log('Skipping test: Mock endpoints not available');
+                return;
+            }
+
+            const functionSelector = '0x78e879c3' as `0x${string}`; // createApp(bytes) selector
+            const payload = encodeAbiParameters([{ type: 'bytes' }], ['0x1234']);
+            const enforced = LzOptions.newOptions().addExecutorLzReceiveOption(200000n).toHex();
+            const options = LzOptions.newOptions().addExecutorLzReceiveOption(50000n).toHex();
+            const combined = LzOptions.newOptions()
+                .addExecutorLzReceiveOption(200000n)
+                .addExecutorLzReceiveOption(50000n)
+                .toHex();
+            const send = await sourceChainRouter.read.SEND();
+
+            // Quote of the combined options, before any option is enforced
+            const expected = await sourceChainRouter.read.quoteCall([
+                functionSelector,
+                payload,
+                combined,
+                false,
+            ]);
+
+            await sourceChainRouter.write.setEnforcedOptions([
+                [{ eid: eidArbitrum, msgType: send, options: enforced }],
+            ], {
+                account: ownerWallet.account,
+            });
+
+            expect(await sourceChainRouter.read.combineOptions([eidArbitrum, send, options])).to.equal(combined);
+            expect(await sourceChainRouter.read.combineOptions([eidArbitrum, send, '0x'])).to.equal(enforced);
+            const fee = await sourceChainRouter.read.quoteCall([functionSelector, payload, options, false]);
+            expect(fee.nativeFee).to.equal(expected.nativeFee);
+        });
+
         it('Should verify mode is set correctly', async () => {
             if (!mockEndpointSource || (!mockEndpointArbitrum && !isFork)) {
                 console.log('Skipping test: Mock endpoints not available');
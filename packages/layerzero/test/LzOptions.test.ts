@@ -0,0 +1,86 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { expect } from 'chai';
+import { Options } from '@layerzerolabs/lz-v2-utilities';
+import { LzOptions, decodeLzOptions } from '@iexec/lz-options';
+
+/**
+ * LayerZero Options Tests
+ *
+ * Checks that the shared @iexec/lz-options builder produces the same bytes as
+ * LayerZero's official Options utility, and that the decoder round-trips them.
+ */
+describe('LayerZero Options', () => {
+    const receiver = '0x1234567890123456789012345678901234567890' as `0x${string}`;
+
+    describe('Builder', () => {
+        it('Should encode lzReceive option like lz-v2-utilities', () => {
+            const expected = Options.newOptions().addExecutorLzReceiveOption(200000, 0).toHex();
+            const actual = LzOptions.newOptions().addExecutorLzReceiveOption(200000n).toHex();
+            expect(actual).to.equal(expected.toLowerCase());
+        });
+
+        it('Should encode lzReceive option with value like lz-v2-utilities', () => {
+            const expected = Options.newOptions().addExecutorLzReceiveOption(200000, 1000).toHex();
+            const actual = LzOptions.newOptions().addExecutorLzReceiveOption(200000n, 1000n).toHex();
+            expect(actual).to.equal(expected.toLowerCase());
+        });
+
+        it('Should encode combined executor options like lz-v2-utilities', () => {
+            const expected = Options.newOptions()
+                .addExecutorLzReceiveOption(200000, 0)
+                .addExecutorNativeDropOption(1000, receiver)
+                .addExecutorComposeOption(0, 50000, 0)
+                .addExecutorOrderedExecutionOption()
+                .toHex();
+            const actual = LzOptions.newOptions()
+                .addExecutorLzReceiveOption(200000n)
+                .addExecutorNativeDropOption(1000n, receiver)
+                .addExecutorComposeOption(0, 50000n)
+                .addExecutorOrderedExecutionOption()
+                .toHex();
+            expect(actual).to.equal(expected.toLowerCase());
+        });
+    });
+
+    describe('Decoder', () => {
+        it('Should decode every executor option', () => {
+            const options = LzOptions.newOptions()
+                .addExecutorLzReceiveOption(200000n, 5n)
+                .addExecutorNativeDropOption(1000n, receiver)
+                .addExecutorComposeOption(1, 50000n, 7n)
+                .addExecutorOrderedExecutionOption()
+                .addVerifierPrecrimeOption(0)
+                .toHex();
+
+            const decoded = decodeLzOptions(options);
+
+            expect(decoded.type).to.equal(3);
+            expect(decoded.lzReceive).to.deep.equal({ gas: 200000n, value: 5n });
+            expect(decoded.nativeDrops).to.have.length(1);
+            expect(decoded.nativeDrops[0].amount).to.equal(1000n);
+            expect(decoded.nativeDrops[0].receiver.endsWith(receiver.slice(2))).to.be.true;
+            expect(decoded.compose).to.deep.equal([{ index: 1, gas: 50000n, value: 7n }]);
+            expect(decoded.orderedExecution).to.be.true;
+            expect(decoded.verifier).to.deep.equal([{ dvnIdx: 0, optionType: 1, option: '0x' }]);
+        });
+
+        it('Should sum multiple lzReceive options', () => {
+            const options = LzOptions.newOptions()
+                .addExecutorLzReceiveOption(100000n)
+                .addExecutorLzReceiveOption(50000n)
+                .toHex();
+            expect(decodeLzOptions(options).lzReceive).to.deep.equal({ gas: 150000n, value: 0n });
+        });
+
+        it('Should reject non Type-3 options', () => {
+            expect(() => decodeLzOptions('0x0001')).to.throw('Unsupported options type');
+        });
+
+        it('Should reject truncated options', () => {
+            const options = LzOptions.newOptions().addExecutorLzReceiveOption(200000n).toHex();
+            expect(() => decodeLzOptions(options.slice(0, -4) as `0x${string}`)).to.throw('Invalid option size');
+        });
+    });
+});
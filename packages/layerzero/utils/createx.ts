@@ -0,0 +1,82 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  concat,
+  encodeAbiParameters,
+  getContractAddress,
+  hexToBigInt,
+  keccak256,
+  parseAbi,
+  slice,
+  toHex,
+  type Address,
+  type Hex,
+} from "viem";
+
+/**
+ * CreateX factory, deployed at the same address on every supported chain
+ * See https://github.com/pcaversaccio/createx
+ */
+export const CREATEX_ADDRESS: Address = "0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed";
+
+export const createxAbi = parseAbi([
+  "function deployCreate2(bytes32 salt, bytes initCode) payable returns (address newContract)",
+  "event ContractCreation(address indexed newContract, bytes32 indexed salt)",
+]);
+
+/**
+ * Salt guard applied by CreateX before CREATE2 (mirrors CreateX._guard)
+ *
+ * - first 20 bytes = sender: permissioned deploy, 21st byte 0x01 adds
+ *   cross-chain redeploy protection, 0x00 disables it
+ * - first 20 bytes = zero: 21st byte 0x01 adds cross-chain redeploy protection
+ * - anything else: the salt is hashed
+ */
+export function guardCreatexSalt(salt: Hex, sender: Address, chainId: number): Hex {
+  const saltSender = slice(salt, 0, 20);
+  const redeployProtection = slice(salt, 20, 21);
+  const isSender = saltSender.toLowerCase() === sender.toLowerCase();
+  const isZero = hexToBigInt(saltSender) === 0n;
+
+  if (isSender && redeployProtection === "0x01") {
+    return keccak256(
+      encodeAbiParameters(
+        [{ type: "address" }, { type: "uint256" }, { type: "bytes32" }],
+        [sender, BigInt(chainId), salt]
+      )
+    );
+  }
+  if (isSender && redeployProtection === "0x00") {
+    return keccak256(concat([toHex(hexToBigInt(sender), { size: 32 }), salt]));
+  }
+  if (isZero && redeployProtection === "0x01") {
+    return keccak256(concat([toHex(chainId, { size: 32 }), salt]));
+  }
+  if (isSender || (isZero && redeployProtection !== "0x00")) {
+    throw new Error(`Invalid CreateX salt ${salt}: 21st byte must be 0x00 or 0x01`);
+  }
+  return keccak256(salt);
+}
+
+/**
+ * Address of a contract deployed through CreateX.deployCreate2(salt, initCode)
+ */
+export function predictCreatexAddress({
+  salt,
+  initCode,
+  sender,
+  chainId,
+}: {
+  salt: Hex;
+  initCode: Hex;
+  sender: Address;
+  chainId: number;
+}): Address {
+  return getContractAddress({
+    opcode: "CREATE2",
+    from: CREATEX_ADDRESS,
+    salt: guardCreatexSalt(salt, sender, chainId),
+    bytecode: initCode,
+  });
+}
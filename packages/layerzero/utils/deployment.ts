@@ -0,0 +1,86 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { encodeDeployData, getAddress, type Abi, type Address, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  getChainConfig,
+  getDestinationEndpointId,
+  getPocoAddress,
+  type Config,
+} from "@iexec/poco-lz-config";
+import { predictCreatexAddress } from "./createx";
+
+export interface PocoOAppArtifact {
+  abi: Abi;
+  bytecode: string;
+}
+
+export interface PocoOAppDeployment {
+  /** Constructor arguments: endpoint, owner, mode, pocoAddress, arbitrumEid */
+  args: [Address, Address, number, Address, number];
+  salt: Hex;
+  initCode: Hex;
+  /** Address CreateX will deploy to */
+  predictedAddress: Address;
+}
+
+/**
+ * Deployer (CreateX sender and PocoOApp owner): explicit address, else the
+ * PRIVATE_KEY account, else undefined
+ */
+export function resolveDeployer(deployer?: string): Address | undefined {
+  if (deployer) {
+    return getAddress(deployer);
+  }
+  const privateKey = process.env.PRIVATE_KEY;
+  if (!privateKey) {
+    return undefined;
+  }
+  return privateKeyToAccount((privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`) as Hex)
+    .address;
+}
+
+/**
+ * Constructor arguments, CreateX salt and predicted address of the PocoOApp of a chain
+ * @param owner Deployer, which is both the CreateX caller and the OApp owner
+ */
+export function getPocoOAppDeployment(
+  config: Config,
+  chainName: string,
+  owner: Address,
+  artifact: PocoOAppArtifact
+): PocoOAppDeployment {
+  const chainConfig = getChainConfig(chainName, config);
+
+  // Router = 0, Receiver = 1; arbitrumEid is unused by Receivers
+  const mode = chainConfig.mode === "Router" ? 0 : 1;
+  const destinationEid =
+    chainConfig.mode === "Router" ? getDestinationEndpointId(config, chainName) : 0;
+
+  const args: PocoOAppDeployment["args"] = [
+    chainConfig.lzEndpointAddress as Address,
+    owner,
+    mode,
+    getPocoAddress(config, chainName) as Address,
+    destinationEid,
+  ];
+  const salt = chainConfig.pocoOAppCreatexSalt as Hex;
+  const initCode = encodeDeployData({
+    abi: artifact.abi,
+    bytecode: artifact.bytecode as Hex,
+    args,
+  });
+
+  return {
+    args,
+    salt,
+    initCode,
+    predictedAddress: predictCreatexAddress({
+      salt,
+      initCode,
+      sender: owner,
+      chainId: chainConfig.chainId,
+    }),
+  };
+}
@@ -0,0 +1,37 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { ExecutorOptionType } from "@layerzerolabs/lz-v2-utilities";
+import type { OAppEnforcedOption } from "@layerzerolabs/toolbox-hardhat";
+import { LzOptions } from "@iexec/lz-options";
+import type { Hex } from "viem";
+
+/**
+ * Encode enforced options the way lz:oapp:wire sets them: one Type-3 options
+ * blob per message type, combining every option of that type in order
+ */
+export function encodeEnforcedOptions(options: OAppEnforcedOption[]): Map<number, Hex> {
+  const byMsgType = new Map<number, LzOptions>();
+
+  for (const option of options) {
+    const builder = byMsgType.get(option.msgType) ?? LzOptions.newOptions();
+    byMsgType.set(option.msgType, builder);
+
+    switch (option.optionType) {
+      case ExecutorOptionType.LZ_RECEIVE:
+        builder.addExecutorLzReceiveOption(BigInt(option.gas), BigInt(option.value ?? 0));
+        break;
+      case ExecutorOptionType.NATIVE_DROP:
+        builder.addExecutorNativeDropOption(BigInt(option.amount), option.receiver as Hex);
+        break;
+      case ExecutorOptionType.COMPOSE:
+        builder.addExecutorComposeOption(option.index, BigInt(option.gas), BigInt(option.value ?? 0));
+        break;
+      case ExecutorOptionType.ORDERED:
+        builder.addExecutorOrderedExecutionOption();
+        break;
+    }
+  }
+
+  return new Map([...byMsgType].map(([msgType, builder]) => [msgType, builder.toHex()]));
+}
@@ -0,0 +1,97 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { concatHex, encodePacked, pad, size, type Hex } from "viem";
+import {
+  ExecutorOptionType,
+  OPTIONS_TYPE_3,
+  VerifierOptionType,
+  WorkerId,
+} from "./constants";
+
+/**
+ * Fluent builder for LayerZero Type-3 options
+ *
+ * Format: TYPE_3 (uint16) followed by one entry per option:
+ * - executor: WORKER_ID (uint8) + option_size (uint16) + option_type (uint8) + option (bytes)
+ * - verifier: WORKER_ID (uint8) + option_size (uint16) + dvn_idx (uint8) + option_type (uint8) + option (bytes)
+ *
+ * @example
+ * const options = LzOptions.newOptions().addExecutorLzReceiveOption(200_000n).toHex();
+ */
+export class LzOptions {
+  private readonly entries: Hex[] = [];
+
+  static newOptions(): LzOptions {
+    return new LzOptions();
+  }
+
+  /**
+   * Gas (and optional msg.value) for lzReceive on the destination chain
+   */
+  addExecutorLzReceiveOption(gas: bigint, value: bigint = 0n): this {
+    const option =
+      value === 0n
+        ? encodePacked(["uint128"], [gas])
+        : encodePacked(["uint128", "uint128"], [gas, value]);
+    return this.addExecutorOption(ExecutorOptionType.LzReceive, option);
+  }
+
+  /**
+   * Native gas token airdropped to an arbitrary receiver on the destination chain
+   * @param receiver Address or bytes32 receiver
+   */
+  addExecutorNativeDropOption(amount: bigint, receiver: Hex): this {
+    const option = encodePacked(
+      ["uint128", "bytes32"],
+      [amount, pad(receiver, { size: 32 })]
+    );
+    return this.addExecutorOption(ExecutorOptionType.NativeDrop, option);
+  }
+
+  /**
+   * Gas (and optional msg.value) for lzCompose at the given compose index
+   */
+  addExecutorComposeOption(index: number, gas: bigint, value: bigint = 0n): this {
+    const option =
+      value === 0n
+        ? encodePacked(["uint16", "uint128"], [index, gas])
+        : encodePacked(["uint16", "uint128", "uint128"], [index, gas, value]);
+    return this.addExecutorOption(ExecutorOptionType.LzCompose, option);
+  }
+
+  /**
+   * Require the executor to deliver messages in nonce order
+   */
+  addExecutorOrderedExecutionOption(): this {
+    return this.addExecutorOption(ExecutorOptionType.OrderedExecution, "0x");
+  }
+
+  /**
+   * Ask the DVN at the given index to run PreCrime checks
+   */
+  addVerifierPrecrimeOption(dvnIdx: number): this {
+    const entry = encodePacked(
+      ["uint8", "uint16", "uint8", "uint8"],
+      [WorkerId.Verifier, 2, dvnIdx, VerifierOptionType.Precrime]
+    );
+    this.entries.push(entry);
+    return this;
+  }
+
+  /**
+   * Encode the options as hex, ready for quoteCall/routeCall
+   */
+  toHex(): Hex {
+    return concatHex([encodePacked(["uint16"], [OPTIONS_TYPE_3]), ...this.entries]);
+  }
+
+  private addExecutorOption(optionType: number, option: Hex): this {
+    const entry = encodePacked(
+      ["uint8", "uint16", "uint8", "bytes"],
+      [WorkerId.Executor, 1 + size(option), optionType, option]
+    );
+    this.entries.push(entry);
+    return this;
+  }
+}
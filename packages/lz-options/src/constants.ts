@@ -0,0 +1,29 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * LayerZero V2 options constants
+ * See: https://docs.layerzero.network/v2/developers/evm/protocol-gas-settings/options
+ */
+
+/** Options encoding type (Type 3 supports multiple workers and options) */
+export const OPTIONS_TYPE_3 = 3;
+
+/** Worker IDs */
+export const WorkerId = {
+  Executor: 1,
+  Verifier: 2,
+} as const;
+
+/** Executor option types */
+export const ExecutorOptionType = {
+  LzReceive: 1,
+  NativeDrop: 2,
+  LzCompose: 3,
+  OrderedExecution: 4,
+} as const;
+
+/** Verifier (DVN) option types */
+export const VerifierOptionType = {
+  Precrime: 1,
+} as const;
@@ -0,0 +1,159 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+import { hexToBigInt, hexToNumber, size, sliceHex, type Hex } from "viem";
+import {
+  ExecutorOptionType,
+  OPTIONS_TYPE_3,
+  VerifierOptionType,
+  WorkerId,
+} from "./constants";
+
+export interface LzReceiveOption {
+  gas: bigint;
+  value: bigint;
+}
+
+export interface NativeDropOption {
+  amount: bigint;
+  receiver: Hex;
+}
+
+export interface ComposeOption {
+  index: number;
+  gas: bigint;
+  value: bigint;
+}
+
+export interface VerifierOption {
+  dvnIdx: number;
+  optionType: number;
+  option: Hex;
+}
+
+export interface DecodedLzOptions {
+  /** Options encoding type (always 3) */
+  type: number;
+  /** Sum of all lzReceive options, as the executor aggregates them */
+  lzReceive?: LzReceiveOption;
+  nativeDrops: NativeDropOption[];
+  compose: ComposeOption[];
+  orderedExecution: boolean;
+  verifier: VerifierOption[];
+}
+
+/**
+ * Decode LayerZero Type-3 options into readable fields
+ */
+export function decodeLzOptions(options: Hex): DecodedLzOptions {
+  const length = size(options);
+  if (length < 2) {
+    throw new Error("Options must be at least 2 bytes long");
+  }
+
+  const type = hexToNumber(sliceHex(options, 0, 2));
+  if (type !== OPTIONS_TYPE_3) {
+    throw new Error(`Unsupported options type: ${type} (only Type 3 is supported)`);
+  }
+
+  const decoded: DecodedLzOptions = {
+    type,
+    nativeDrops: [],
+    compose: [],
+    orderedExecution: false,
+    verifier: [],
+  };
+
+  let cursor = 2;
+  while (cursor < length) {
+    if (cursor + 3 > length) {
+      throw new Error(`Truncated option header at byte ${cursor}`);
+    }
+    const workerId = hexToNumber(sliceHex(options, cursor, cursor + 1));
+    const optionSize = hexToNumber(sliceHex(options, cursor + 1, cursor + 3));
+    const start = cursor + 3;
+    const end = start + optionSize;
+    if (optionSize === 0 || end > length) {
+      throw new Error(`Invalid option size ${optionSize} at byte ${cursor}`);
+    }
+
+    if (workerId === WorkerId.Executor) {
+      const optionType = hexToNumber(sliceHex(options, start, start + 1));
+      decodeExecutorOption(decoded, optionType, slice(options, start + 1, end));
+    } else if (workerId === WorkerId.Verifier) {
+      if (optionSize < 2) {
+        throw new Error(`Invalid verifier option size ${optionSize} at byte ${cursor}`);
+      }
+      decoded.verifier.push({
+        dvnIdx: hexToNumber(sliceHex(options, start, start + 1)),
+        optionType: hexToNumber(sliceHex(options, start + 1, start + 2)),
+        option: slice(options, start + 2, end),
+      });
+    } else {
+      throw new Error(`Unknown worker ID ${workerId} at byte ${cursor}`);
+    }
+
+    cursor = end;
+  }
+
+  return decoded;
+}
+
+/**
+ * Human-readable name of a verifier option type
+ */
+export function verifierOptionName(optionType: number): string {
+  return optionType === VerifierOptionType.Precrime ? "precrime" : `unknown(${optionType})`;
+}
+
+function decodeExecutorOption(decoded: DecodedLzOptions, optionType: number, option: Hex): void {
+  const optionLength = size(option);
+
+  switch (optionType) {
+    case ExecutorOptionType.LzReceive: {
+      if (optionLength !== 16 && optionLength !== 32) {
+        throw new Error(`Invalid lzReceive option length: ${optionLength}`);
+      }
+      const gas = hexToBigInt(sliceHex(option, 0, 16));
+      const value = optionLength === 32 ? hexToBigInt(sliceHex(option, 16, 32)) : 0n;
+      decoded.lzReceive = {
+        gas: (decoded.lzReceive?.gas ?? 0n) + gas,
+        value: (decoded.lzReceive?.value ?? 0n) + value,
+      };
+      break;
+    }
+    case ExecutorOptionType.NativeDrop: {
+      if (optionLength !== 48) {
+        throw new Error(`Invalid native drop option length: ${optionLength}`);
+      }
+      decoded.nativeDrops.push({
+        amount: hexToBigInt(sliceHex(option, 0, 16)),
+        receiver: sliceHex(option, 16, 48),
+      });
+      break;
+    }
+    case ExecutorOptionType.LzCompose: {
+      if (optionLength !== 18 && optionLength !== 34) {
+        throw new Error(`Invalid compose option length: ${optionLength}`);
+      }
+      decoded.compose.push({
+        index: hexToNumber(sliceHex(option, 0, 2)),
+        gas: hexToBigInt(sliceHex(option, 2, 18)),
+        value: optionLength === 34 ? hexToBigInt(sliceHex(option, 18, 34)) : 0n,
+      });
+      break;
+    }
+    case ExecutorOptionType.OrderedExecution:
+      decoded.orderedExecution = true;
+      break;
+    default:
+      throw new Error(`Unknown executor option type: ${optionType}`);
+  }
+}
+
+/**
+ * sliceHex that returns "0x" for empty ranges instead of throwing
+ */
+function slice(value: Hex, start: number, end: number): Hex {
+  return start === end ? "0x" : sliceHex(value, start, end);
+}
@@ -0,0 +1,18 @@
+// SPDX-FileCopyrightText: 2025 IEXEC BLOCKCHAIN TECH <contact@iex.ec>
+// SPDX-License-Identifier: Apache-2.0
+
+export { LzOptions } from "./builder";
+export { decodeLzOptions, verifierOptionName } from "./decoder";
+export type {
+  ComposeOption,
+  DecodedLzOptions,
+  LzReceiveOption,
+  NativeDropOption,
+  VerifierOption,
+} from "./decoder";
+export {
+  ExecutorOptionType,
+  OPTIONS_TYPE_3,
+  VerifierOptionType,
+  WorkerId,
+} from "./constants";